@@ -0,0 +1,105 @@
+import type { IncomingMessage } from "node:http";
+import { ethers } from "ethers";
+import {
+  BaseNamesClient,
+  NETWORKS,
+  ResilientProvider,
+  generateNonce,
+  parseSiweMessage,
+  verifySiweMessage
+} from "../lib";
+import type { SiweSession } from "../lib";
+import { HttpError, createJsonServer, readBody } from "../server/http";
+
+// --- Configuration ---
+const PORT = Number(process.env.AUTH_PORT ?? 8081);
+// Host the app is served from; sign-ins for any other domain are refused.
+const DOMAIN = process.env.AUTH_DOMAIN;
+// How long an issued nonce can be used, and the longest a session lasts.
+const NONCE_TTL_MS = 5 * 60 * 1000;
+const MAX_SESSION_MS = 24 * 60 * 60 * 1000;
+
+if (!DOMAIN) {
+  console.error("AUTH_DOMAIN is required: the host the app is served from, e.g. localhost:3000.");
+  process.exit(1);
+}
+
+const network = NETWORKS[process.env.AUTH_NETWORK ?? "base"];
+if (!network) {
+  console.error(`Unknown AUTH_NETWORK; expected one of ${Object.keys(NETWORKS).join(", ")}.`);
+  process.exit(1);
+}
+const rpcUrls = process.env.AUTH_RPC_URL ? [process.env.AUTH_RPC_URL, ...network.rpcUrls] : network.rpcUrls;
+const client = new BaseNamesClient({ network, provider: new ResilientProvider(rpcUrls, network.chainId) });
+
+// Kept in memory: restarting the server signs everyone out.
+const nonces = new Map<string, number>();
+const sessions = new Map<string, { session: SiweSession; expiresAt: number }>();
+
+const pruneExpired = (): void => {
+  const now = Date.now();
+  nonces.forEach((expiresAt, nonce) => { if (expiresAt <= now) nonces.delete(nonce); });
+  sessions.forEach((entry, token) => { if (entry.expiresAt <= now) sessions.delete(token); });
+};
+
+const issueNonce = (): { nonce: string } => {
+  pruneExpired();
+  const nonce = generateNonce();
+  nonces.set(nonce, Date.now() + NONCE_TTL_MS);
+  return { nonce };
+};
+
+const verify = async (body: any): Promise<{ token: string; session: SiweSession }> => {
+  if (typeof body.message !== "string" || typeof body.signature !== "string") {
+    throw new HttpError(400, "Expected a message and its signature.");
+  }
+  let nonce: string;
+  try {
+    nonce = parseSiweMessage(body.message).nonce;
+  } catch (err: any) {
+    throw new HttpError(400, err.message);
+  }
+  const nonceExpiry = nonces.get(nonce);
+  if (!nonceExpiry || nonceExpiry <= Date.now()) throw new HttpError(401, "Unknown or expired nonce. Sign in again.");
+  // A nonce is spent by its first attempt, so a signature can't be replayed.
+  nonces.delete(nonce);
+
+  let session: SiweSession;
+  try {
+    session = await verifySiweMessage(client, body.message, body.signature, { domain: DOMAIN, nonce });
+  } catch (err: any) {
+    throw new HttpError(401, err.message);
+  }
+  const expiresAt = Math.min(
+    Date.now() + MAX_SESSION_MS,
+    session.expirationTime ? Date.parse(session.expirationTime) : Infinity
+  );
+  const token = ethers.hexlify(ethers.randomBytes(32)).slice(2);
+  sessions.set(token, { session, expiresAt });
+  return { token, session };
+};
+
+const sessionFor = (req: IncomingMessage): string => {
+  const token = req.headers.authorization?.match(/^Bearer (\w+)$/)?.[1];
+  const entry = token ? sessions.get(token) : undefined;
+  if (!token || !entry || entry.expiresAt <= Date.now()) throw new HttpError(401, "Not signed in.");
+  return token;
+};
+
+const route = async (req: IncomingMessage): Promise<[number, unknown]> => {
+  const { pathname } = new URL(req.url ?? "/", "http://auth");
+  if (req.method === "GET" && pathname === "/nonce") return [200, issueNonce()];
+  if (req.method === "POST" && pathname === "/verify") return [200, await verify(await readBody(req))];
+  if (req.method === "GET" && pathname === "/session") return [200, sessions.get(sessionFor(req))!.session];
+  if (req.method === "POST" && pathname === "/logout") {
+    sessions.delete(sessionFor(req));
+    return [200, {}];
+  }
+  throw new HttpError(404, "Not found.");
+};
+
+const server = createJsonServer(route, "authorization, content-type");
+
+server.listen(PORT, () => {
+  console.log(`Sign-in server for ${network.name} listening on :${PORT}, accepting ${DOMAIN}.`);
+});
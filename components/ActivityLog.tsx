@@ -0,0 +1,64 @@
+import React from "react";
+import { Box, Loader2, Sparkles } from "lucide-react";
+import { FINAL_CONFIRMATIONS } from "../lib";
+import type { NetworkConfig, TrackedTx } from "../lib";
+import { TxLink } from "./TxLink";
+
+const statusLabel = (entry: TrackedTx): string => {
+  switch (entry.status) {
+    case "pending": return "Pending";
+    case "confirmed":
+      return entry.confirmations >= FINAL_CONFIRMATIONS ? "Confirmed" : `${entry.confirmations} confirmation${entry.confirmations === 1 ? "" : "s"}`;
+    case "failed": return "Failed";
+    case "replaced": return "Sped up";
+    case "cancelled": return "Cancelled";
+    case "dropped": return "Dropped";
+  }
+};
+
+const statusClass: Record<TrackedTx["status"], string> = {
+  pending: "text-amber-600",
+  confirmed: "text-green-600",
+  failed: "text-red-500",
+  replaced: "text-gray-400",
+  cancelled: "text-gray-400",
+  dropped: "text-gray-400"
+};
+
+/** Persistent list of the connected wallet's transactions with their live status. */
+export const ActivityLog = ({ entries, network }: { entries: TrackedTx[], network: NetworkConfig }) => {
+  if (entries.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full text-gray-300 py-10 text-center">
+        <div className="w-20 h-20 rounded-[2rem] bg-gray-50 flex items-center justify-center mb-6 shadow-inner border border-gray-100/50">
+           <Sparkles size={40} className="opacity-30 text-base-blue"/>
+        </div>
+        <p className="text-[10px] font-black text-gray-400 uppercase tracking-[0.2em]">Activity Empty</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {entries.map(entry => (
+        <div key={entry.hash} className="flex items-center justify-between p-5 bg-gray-50 rounded-3xl border border-gray-100 group hover:border-blue-200 hover:bg-white transition-all duration-300">
+          <div className="flex items-center gap-4 min-w-0">
+            <div className="w-12 h-12 rounded-2xl bg-white flex items-center justify-center shadow-sm border border-gray-100 group-hover:bg-blue-50 group-hover:border-blue-100 transition-all flex-shrink-0">
+              {entry.status === "pending" ? <Loader2 size={22} className="text-base-blue animate-spin"/> : <Box size={22} className="text-base-blue"/>}
+            </div>
+            <div className="flex flex-col min-w-0">
+               <span className={`text-base font-black leading-tight break-all ${entry.status === "confirmed" || entry.status === "pending" ? "text-gray-900" : "text-gray-400"}`}>{entry.description}</span>
+               <span className={`text-[10px] font-black uppercase tracking-[0.15em] mt-1 ${statusClass[entry.status]}`}>{statusLabel(entry)}</span>
+            </div>
+          </div>
+          <TxLink 
+            network={network} 
+            hash={entry.replacedBy ?? entry.hash} 
+            size={20} 
+            className="w-12 h-12 flex items-center justify-center bg-transparent hover:bg-gray-100 rounded-2xl transition-all text-gray-300 hover:text-base-blue flex-shrink-0" 
+          />
+        </div>
+      ))}
+    </>
+  );
+};
@@ -0,0 +1,129 @@
+import React, { useState, useEffect } from "react";
+import { CheckCircle2, AlertCircle, Loader2, Save, Undo2, Wallet } from "lucide-react";
+import { ethers } from "ethers";
+import { BaseNamesClient, COIN_TYPES, describeTxError } from "../lib";
+import type { CoinAddress, ContractCall, SafeInfo } from "../lib";
+import { SafeProposal } from "./SafeProposal";
+
+interface AddressRecordEditorProps {
+  name: string;
+  resolver: string;
+  client: BaseNamesClient;
+  getWriteClient: () => Promise<BaseNamesClient>;
+  /** Safe that owns `name`; saving then drafts a Safe transaction instead of sending one. */
+  safe?: SafeInfo | null;
+  connectedAddress?: string | null;
+  onSaved?: () => void;
+}
+
+const toMap = (entries: CoinAddress[]): Record<number, string> =>
+  Object.fromEntries(entries.map(({ coinType, address }) => [coinType, address]));
+
+export const AddressRecordEditor = ({ name, resolver, client, getWriteClient, safe, connectedAddress, onSaved }: AddressRecordEditorProps) => {
+  const [original, setOriginal] = useState<Record<number, string>>({});
+  const [draft, setDraft] = useState<Record<number, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [status, setStatus] = useState<{type: 'success' | 'error', msg: string} | null>(null);
+  const [safeCalls, setSafeCalls] = useState<ContractCall[] | null>(null);
+
+  const load = async () => {
+    setIsLoading(true);
+    try {
+      const records = toMap(await client.getAddresses(name, undefined, resolver));
+      setOriginal(records);
+      setDraft(records);
+    } catch (err) {
+      setStatus({ type: 'error', msg: "Could not load address records." });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setStatus(null);
+    load();
+  }, [name, resolver]);
+
+  const changes: CoinAddress[] = COIN_TYPES
+    .filter(({ coinType }) => (draft[coinType] ?? "").trim() !== (original[coinType] ?? ""))
+    .map(({ coinType }) => ({ coinType, address: (draft[coinType] ?? "").trim() }));
+  const invalid = changes.some(({ address }) => address && !ethers.isAddress(address));
+
+  const handleSave = async () => {
+    setStatus(null);
+    if (safe) {
+      setSafeCalls([client.recordsCall(name, { addresses: changes }, resolver)]);
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const writer = await getWriteClient();
+      const tx = await writer.setAddresses(name, changes, resolver);
+      await tx.wait();
+      await load();
+      setStatus({ type: 'success', msg: `Updated ${changes.length} address record${changes.length === 1 ? "" : "s"}.` });
+      onSaved?.();
+    } catch (err: any) {
+      setStatus({ type: 'error', msg: describeTxError(err, "Saving addresses failed.") });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-3 text-gray-400 text-xs font-black uppercase tracking-widest py-6">
+        <Loader2 className="animate-spin" size={16}/> Loading addresses
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        {COIN_TYPES.map(({ coinType, label }) => {
+          const value = draft[coinType] ?? "";
+          const isInvalid = value.trim() !== "" && !ethers.isAddress(value.trim());
+          return (
+            <div key={coinType} className="flex items-center gap-3">
+              <span className="w-28 flex-shrink-0 text-[10px] font-black text-gray-400 uppercase tracking-[0.2em]">{label}</span>
+              <input
+                type="text"
+                value={value}
+                onChange={(e) => setDraft(prev => ({ ...prev, [coinType]: e.target.value }))}
+                placeholder="0x..."
+                className={`flex-1 bg-gray-50 border rounded-2xl px-4 py-3 text-xs font-mono font-bold outline-none focus:border-base-blue focus:bg-white transition-all ${isInvalid ? 'border-red-300' : value.trim() !== (original[coinType] ?? "") ? 'border-base-blue/50' : 'border-gray-100'}`}
+              />
+              {connectedAddress && (
+                <button type="button" onClick={() => setDraft(prev => ({ ...prev, [coinType]: connectedAddress }))} title="Use connected wallet" className="w-11 h-11 flex items-center justify-center rounded-2xl bg-gray-100 text-gray-500 hover:bg-gray-200 flex-shrink-0">
+                  <Wallet size={16}/>
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {safe && safeCalls && (
+        <SafeProposal safe={safe} name={name} calls={safeCalls} client={client} getWriteClient={getWriteClient} onClose={() => setSafeCalls(null)} />
+      )}
+
+      {status && (
+        <div className={`p-4 rounded-2xl flex items-center gap-3 text-sm font-bold border ${status.type === 'success' ? 'bg-green-50 text-green-700 border-green-100' : 'bg-red-50 text-red-600 border-red-100'}`}>
+          {status.type === 'success' ? <CheckCircle2 size={18}/> : <AlertCircle size={18}/>} {status.msg}
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-3">
+        <button type="button" onClick={() => setDraft(original)} disabled={changes.length === 0 || isSaving} className="h-12 px-6 rounded-2xl text-xs font-black uppercase tracking-widest text-gray-500 hover:bg-gray-100 disabled:opacity-40 flex items-center gap-2">
+          <Undo2 size={16}/> Reset
+        </button>
+        <button type="button" onClick={handleSave} disabled={changes.length === 0 || invalid || isSaving} className="h-12 px-8 bg-base-blue text-white rounded-2xl font-black uppercase tracking-widest text-xs hover:bg-blue-600 disabled:bg-gray-50 disabled:text-gray-200 transition-all flex items-center gap-3 shadow-xl shadow-blue-500/20 active:scale-95">
+          {isSaving ? <Loader2 className="animate-spin" size={16}/> : <Save size={16}/>}
+          {isSaving ? "Saving..." : "Set Addresses"}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,31 @@
+import React, { useState, useEffect } from "react";
+import { ImageOff } from "lucide-react";
+
+interface AvatarProps {
+  /** Resolved image URL; empty when the name has no avatar. */
+  src?: string;
+  /** Shown when there is no avatar. */
+  fallback: React.ReactNode;
+  className?: string;
+  /** Size of the broken-image icon. */
+  iconSize?: number;
+}
+
+/** Avatar image that swaps to a broken-image placeholder when it fails to load. */
+export const Avatar = ({ src, fallback, className = "", iconSize = 16 }: AvatarProps) => {
+  const [broken, setBroken] = useState(false);
+
+  useEffect(() => {
+    setBroken(false);
+  }, [src]);
+
+  if (!src) return <>{fallback}</>;
+  if (broken) {
+    return (
+      <div title="Avatar could not be loaded" className={`w-full h-full bg-gray-50 flex items-center justify-center text-gray-300 ${className}`}>
+        <ImageOff size={iconSize}/>
+      </div>
+    );
+  }
+  return <img src={src} alt="" onError={() => setBroken(true)} className={`w-full h-full object-cover ${className}`} />;
+};
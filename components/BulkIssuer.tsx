@@ -0,0 +1,204 @@
+import React, { useState, useEffect, useRef } from "react";
+import { AlertCircle, CheckCircle2, Download, FileUp, Loader2, Play, Square, Trash2 } from "lucide-react";
+import {
+  BaseNamesClient,
+  bulkReportCsv,
+  clearBulkJob,
+  describeTxError,
+  inspectName,
+  loadBulkJob,
+  parseSubnameCsv,
+  rememberName,
+  runBulkIssuance,
+  saveBulkJob,
+  validateBulkRows
+} from "../lib";
+import type { BulkRow } from "../lib";
+import { TxLink } from "./TxLink";
+
+interface BulkIssuerProps {
+  parent: string;
+  client: BaseNamesClient;
+  getWriteClient: () => Promise<BaseNamesClient>;
+  onComplete?: () => void;
+}
+
+const SAMPLE = "label,owner,address,description\nalice,0x...,0x...,Core team";
+
+export const BulkIssuer = ({ parent, client, getWriteClient, onComplete }: BulkIssuerProps) => {
+  const cleanParent = parent.trim() ? inspectName(parent).normalized ?? "" : "";
+  const [csv, setCsv] = useState("");
+  const [rows, setRows] = useState<BulkRow[]>([]);
+  const [isValidating, setIsValidating] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const stopRef = useRef(false);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const job = cleanParent ? loadBulkJob(client, cleanParent) : null;
+    setRows(job?.rows ?? []);
+    setError(null);
+  }, [client, cleanParent]);
+
+  const persist = (next: BulkRow[]) => {
+    setRows(next);
+    saveBulkJob(client, { parent: cleanParent, rows: next });
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) setCsv(await file.text());
+    e.target.value = "";
+  };
+
+  const handleValidate = async () => {
+    setError(null);
+    setIsValidating(true);
+    try {
+      const parsed = parseSubnameCsv(csv);
+      if (parsed.length === 0) throw new Error("No rows found.");
+      persist(await validateBulkRows(client, cleanParent, parsed));
+    } catch (err: any) {
+      setError(err.message || "Validation failed.");
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const handleRun = async () => {
+    setError(null);
+    setIsRunning(true);
+    stopRef.current = false;
+    let current = rows;
+    try {
+      const writer = await getWriteClient();
+      current = await runBulkIssuance(writer, cleanParent, rows, {
+        shouldStop: () => stopRef.current,
+        onRowUpdate: (row, index) => {
+          current = current.map((r, i) => i === index ? row : r);
+          persist(current);
+          if (row.status === "done") rememberName(`${row.label}.${cleanParent}`);
+        }
+      });
+      persist(current);
+      onComplete?.();
+    } catch (err: any) {
+      setError(describeTxError(err, "Bulk issuance failed."));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([bulkReportCsv(cleanParent, rows)], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${cleanParent}-subnames-report.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleClear = () => {
+    clearBulkJob(client, cleanParent);
+    setRows([]);
+    setCsv("");
+  };
+
+  const valid = rows.filter(r => r.errors.length === 0);
+  const remaining = valid.filter(r => r.status !== "done").length;
+  const done = valid.length - remaining;
+  const resumable = rows.some(r => r.txHash || r.status === "failed") && remaining > 0;
+
+  return (
+    <div className="space-y-6">
+      {rows.length === 0 ? (
+        <>
+          <textarea
+            value={csv}
+            onChange={(e) => setCsv(e.target.value)}
+            placeholder={SAMPLE}
+            rows={6}
+            className="w-full bg-gray-50 border border-gray-100 rounded-2xl px-5 py-4 text-xs font-mono font-bold outline-none focus:border-base-blue focus:bg-white transition-all"
+          />
+          <div className="flex items-center justify-between gap-3">
+            <input ref={fileRef} type="file" accept=".csv,text/csv" onChange={handleFile} className="hidden" />
+            <button onClick={() => fileRef.current?.click()} className="h-12 px-6 rounded-2xl text-xs font-black uppercase tracking-widest text-gray-500 bg-gray-100 hover:bg-gray-200 flex items-center gap-2">
+              <FileUp size={16}/> Import CSV
+            </button>
+            <button onClick={handleValidate} disabled={!csv.trim() || !cleanParent || isValidating} className="h-12 px-8 bg-base-blue text-white rounded-2xl font-black uppercase tracking-widest text-xs hover:bg-blue-600 disabled:bg-gray-50 disabled:text-gray-200 transition-all flex items-center gap-3">
+              {isValidating ? <Loader2 className="animate-spin" size={16}/> : <CheckCircle2 size={16}/>} Validate
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          <div className="flex items-center justify-between text-[10px] font-black text-gray-400 uppercase tracking-[0.2em]">
+            <span>{rows.length} rows · {valid.length} valid · {done} issued</span>
+            <div className="flex items-center gap-2">
+              <button onClick={handleExport} title="Export report" className="w-9 h-9 flex items-center justify-center rounded-full bg-gray-50 border border-gray-100 hover:text-base-blue"><Download size={14}/></button>
+              <button onClick={handleClear} disabled={isRunning} title="Discard batch" className="w-9 h-9 flex items-center justify-center rounded-full bg-gray-50 border border-gray-100 hover:text-red-500 disabled:opacity-40"><Trash2 size={14}/></button>
+            </div>
+          </div>
+          <div className="max-h-96 overflow-auto border border-gray-100 rounded-2xl">
+            <table className="w-full text-xs">
+              <thead className="bg-gray-50 text-[10px] font-black text-gray-400 uppercase tracking-[0.15em] sticky top-0">
+                <tr>
+                  <th className="text-left px-4 py-3">#</th>
+                  <th className="text-left px-4 py-3">Name</th>
+                  <th className="text-left px-4 py-3">Owner</th>
+                  <th className="text-left px-4 py-3">Records</th>
+                  <th className="text-left px-4 py-3">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.line} className="border-t border-gray-100 align-top">
+                    <td className="px-4 py-3 text-gray-400 font-mono">{row.line}</td>
+                    <td className="px-4 py-3 font-bold text-gray-900">{row.label}<span className="text-gray-300">.{cleanParent}</span></td>
+                    <td className="px-4 py-3 font-mono text-gray-500">{row.owner ? `${row.owner.slice(0, 6)}...${row.owner.slice(-4)}` : ""}</td>
+                    <td className="px-4 py-3 text-gray-500">{[row.address ? "addr" : "", ...Object.keys(row.texts)].filter(Boolean).join(", ")}</td>
+                    <td className="px-4 py-3">
+                      {row.errors.length > 0 ? (
+                        <span className="text-red-600 font-bold flex items-start gap-1"><AlertCircle size={12} className="mt-0.5 flex-shrink-0"/>{row.errors.join(" ")}</span>
+                      ) : row.status === "done" ? (
+                        <span className="text-green-600 font-bold flex items-center gap-1">
+                          <CheckCircle2 size={12}/> Issued
+                          <TxLink network={client.network} hash={row.txHash} size={12} className="hover:opacity-70" />
+                        </span>
+                      ) : row.status === "failed" ? (
+                        <span className="text-red-600 font-bold">{row.error}</span>
+                      ) : row.txHash ? (
+                        <span className="text-base-blue font-bold flex items-center gap-1"><Loader2 size={12} className="animate-spin"/> Confirming</span>
+                      ) : (
+                        <span className="text-gray-400 font-bold">{row.warnings.length > 0 ? row.warnings.join(" ") : "Ready"}</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex items-center justify-end gap-3">
+            {isRunning ? (
+              <button onClick={() => { stopRef.current = true; }} className="h-12 px-6 rounded-2xl text-xs font-black uppercase tracking-widest text-gray-500 bg-gray-100 hover:bg-gray-200 flex items-center gap-2">
+                <Square size={14}/> Stop after current
+              </button>
+            ) : null}
+            <button onClick={handleRun} disabled={isRunning || remaining === 0} className="h-12 px-8 bg-base-blue text-white rounded-2xl font-black uppercase tracking-widest text-xs hover:bg-blue-600 disabled:bg-gray-50 disabled:text-gray-200 transition-all flex items-center gap-3 shadow-xl shadow-blue-500/20">
+              {isRunning ? <Loader2 className="animate-spin" size={16}/> : <Play size={16}/>}
+              {isRunning ? "Issuing..." : resumable ? `Resume (${remaining} left)` : `Issue ${remaining} Subnames`}
+            </button>
+          </div>
+        </>
+      )}
+
+      {error && (
+        <div className="p-4 bg-red-50 text-red-600 rounded-2xl flex items-center gap-3 border border-red-100 text-sm font-bold">
+          <AlertCircle size={18}/> {error}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,7 @@
+import React from "react";
+
+export const Card = ({ children, className = "" }: { children?: React.ReactNode, className?: string }) => (
+  <div className={`bg-white border border-gray-100 rounded-[1.5rem] p-6 shadow-sm hover:shadow-md transition-shadow duration-300 ${className}`}>
+    {children}
+  </div>
+);
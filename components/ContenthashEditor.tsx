@@ -0,0 +1,128 @@
+import React, { useState, useEffect } from "react";
+import { CheckCircle2, AlertCircle, Loader2, Save, Undo2, ExternalLink } from "lucide-react";
+import { BaseNamesClient, contenthashUrl, decodeContenthash, describeTxError, encodeContenthash } from "../lib";
+import type { ContractCall, SafeInfo } from "../lib";
+import { SafeProposal } from "./SafeProposal";
+
+interface ContenthashEditorProps {
+  name: string;
+  resolver: string;
+  client: BaseNamesClient;
+  getWriteClient: () => Promise<BaseNamesClient>;
+  /** Safe that owns `name`; saving then drafts a Safe transaction instead of sending one. */
+  safe?: SafeInfo | null;
+  onSaved?: () => void;
+}
+
+export const ContenthashEditor = ({ name, resolver, client, getWriteClient, safe, onSaved }: ContenthashEditorProps) => {
+  const [original, setOriginal] = useState("");
+  const [draft, setDraft] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [status, setStatus] = useState<{type: 'success' | 'error', msg: string} | null>(null);
+  const [safeCalls, setSafeCalls] = useState<ContractCall[] | null>(null);
+
+  const load = async () => {
+    setIsLoading(true);
+    try {
+      const uri = (await client.getContenthash(name, resolver))?.uri ?? "";
+      setOriginal(uri);
+      setDraft(uri);
+    } catch (err) {
+      setStatus({ type: 'error', msg: "Could not load the website record." });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setStatus(null);
+    load();
+  }, [name, resolver]);
+
+  // Validate while typing so only encodable values can be sent.
+  let encoded: string | null = null;
+  let error: string | null = null;
+  try {
+    encoded = encodeContenthash(draft);
+  } catch (err: any) {
+    error = err.message;
+  }
+  const preview = encoded ? decodeContenthash(encoded) : null;
+  const isChanged = draft.trim() !== original;
+
+  const handleSave = async () => {
+    setStatus(null);
+    if (safe) {
+      setSafeCalls([client.contenthashCall(name, draft, resolver)]);
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const writer = await getWriteClient();
+      const tx = await writer.setContenthash(name, draft, resolver);
+      await tx.wait();
+      await load();
+      setStatus({ type: 'success', msg: draft.trim() ? "Website updated." : "Website cleared." });
+      onSaved?.();
+    } catch (err: any) {
+      setStatus({ type: 'error', msg: describeTxError(err, "Saving website failed.") });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-3 text-gray-400 text-xs font-black uppercase tracking-widest py-6">
+        <Loader2 className="animate-spin" size={16}/> Loading website
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="ipfs://bafy..., ipns://k51..., bzz://..., ar://..."
+          className={`w-full bg-gray-50 border rounded-2xl px-4 py-3 text-xs font-mono font-bold outline-none focus:border-base-blue focus:bg-white transition-all ${error ? 'border-red-300' : isChanged ? 'border-base-blue/50' : 'border-gray-100'}`}
+        />
+        {error ? (
+          <p className="text-xs font-bold text-red-500">{error}</p>
+        ) : preview ? (
+          <div className="flex items-center gap-3 text-xs font-bold text-gray-500">
+            <span className="text-[10px] font-black text-gray-400 uppercase tracking-[0.2em]">{preview.protocol}</span>
+            <a href={contenthashUrl(preview, client.ipfsGateway)} target="_blank" rel="noopener noreferrer" className="font-mono text-base-blue hover:underline flex items-center gap-1 truncate">
+              {preview.value} <ExternalLink size={12} className="flex-shrink-0"/>
+            </a>
+          </div>
+        ) : (
+          <p className="text-xs font-bold text-gray-400">No website is set. Saving an empty value clears the record.</p>
+        )}
+      </div>
+
+      {safe && safeCalls && (
+        <SafeProposal safe={safe} name={name} calls={safeCalls} client={client} getWriteClient={getWriteClient} onClose={() => setSafeCalls(null)} />
+      )}
+
+      {status && (
+        <div className={`p-4 rounded-2xl flex items-center gap-3 text-sm font-bold border ${status.type === 'success' ? 'bg-green-50 text-green-700 border-green-100' : 'bg-red-50 text-red-600 border-red-100'}`}>
+          {status.type === 'success' ? <CheckCircle2 size={18}/> : <AlertCircle size={18}/>} {status.msg}
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-3">
+        <button type="button" onClick={() => setDraft(original)} disabled={!isChanged || isSaving} className="h-12 px-6 rounded-2xl text-xs font-black uppercase tracking-widest text-gray-500 hover:bg-gray-100 disabled:opacity-40 flex items-center gap-2">
+          <Undo2 size={16}/> Reset
+        </button>
+        <button type="button" onClick={handleSave} disabled={!isChanged || !!error || isSaving} className="h-12 px-8 bg-base-blue text-white rounded-2xl font-black uppercase tracking-widest text-xs hover:bg-blue-600 disabled:bg-gray-50 disabled:text-gray-200 transition-all flex items-center gap-3 shadow-xl shadow-blue-500/20 active:scale-95">
+          {isSaving ? <Loader2 className="animate-spin" size={16}/> : <Save size={16}/>}
+          {isSaving ? "Saving..." : "Set Website"}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,19 @@
+import React from "react";
+
+const YEAR_OPTIONS = [1, 2, 3, 5];
+
+export const DurationPicker = ({ years, onChange, disabled }: { years: number, onChange: (years: number) => void, disabled?: boolean }) => (
+  <div className="flex items-center bg-gray-100 rounded-full p-1">
+    {YEAR_OPTIONS.map(option => (
+      <button
+        key={option}
+        type="button"
+        disabled={disabled}
+        onClick={() => onChange(option)}
+        className={`px-4 py-2 rounded-full text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-50 ${years === option ? 'bg-white text-base-blue shadow-sm' : 'text-gray-400 hover:text-gray-600'}`}
+      >
+        {option} {option === 1 ? "Year" : "Years"}
+      </button>
+    ))}
+  </div>
+);
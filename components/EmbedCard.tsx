@@ -0,0 +1,60 @@
+import React, { useState, useEffect, useRef } from "react";
+import { Loader2 } from "lucide-react";
+import { BaseNamesClient, EMBED_RESIZE_MESSAGE, describeRpcError, inspectName, routePath } from "../lib";
+import type { NameLookup } from "../lib";
+import { ProfileCard } from "./ProfileCard";
+
+interface EmbedCardProps {
+  name: string;
+  client: BaseNamesClient;
+}
+
+/**
+ * Profile card rendered alone at `/embed/:name`, for `<base-name-card>`
+ * iframes. Reports its height so the host can size the frame.
+ */
+export const EmbedCard = ({ name: rawName, client }: EmbedCardProps) => {
+  const report = inspectName(rawName);
+  const name = report.normalized ?? rawName;
+  const [lookup, setLookup] = useState<NameLookup | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (report.normalized === null) {
+      setError(`Invalid name ${report.error}`);
+      return;
+    }
+    client.getProfile(name)
+      .then(setLookup)
+      .catch(err => setError(describeRpcError(err, "Resolution failed.")));
+  }, [client, name]);
+
+  useEffect(() => {
+    if (!ref.current || window.parent === window) return;
+    const observer = new ResizeObserver(() => {
+      window.parent.postMessage({ type: EMBED_RESIZE_MESSAGE, name, height: ref.current!.offsetHeight }, "*");
+    });
+    observer.observe(ref.current);
+    return () => observer.disconnect();
+  }, [name]);
+
+  const profileUrl = `${window.location.origin}${routePath({ page: "profile", name })}`;
+
+  return (
+    <div ref={ref} className="p-1">
+      {error ? (
+        <div className="bg-white border border-gray-100 rounded-[2rem] p-6 text-sm font-bold text-red-600">{error}</div>
+      ) : !lookup ? (
+        <div className="bg-white border border-gray-100 rounded-[2rem] p-6 flex justify-center"><Loader2 className="animate-spin text-base-blue" size={24}/></div>
+      ) : lookup.available || !lookup.data ? (
+        <div className="bg-white border border-gray-100 rounded-[2rem] p-6">
+          <a href={profileUrl} target="_blank" rel="noopener noreferrer" className="text-2xl font-black tracking-tighter text-gray-900 hover:text-base-blue">{name}</a>
+          <p className="mt-1 text-sm font-bold text-gray-400">This name doesn't resolve to an address.</p>
+        </div>
+      ) : (
+        <ProfileCard name={name} data={lookup.data} href={profileUrl} />
+      )}
+    </div>
+  );
+};
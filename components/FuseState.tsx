@@ -0,0 +1,37 @@
+import React, { useState, useEffect } from "react";
+import { Lock, Package } from "lucide-react";
+import { BaseNamesClient, FUSE_DESCRIPTIONS, decodeFuses } from "../lib";
+import type { WrappedState } from "../lib";
+
+/** NameWrapper fuses and expiry of `name`; renders nothing when unwrapped. */
+export const FuseState = ({ name, client, className = "" }: { name: string, client: BaseNamesClient, className?: string }) => {
+  const [state, setState] = useState<WrappedState | null>(null);
+
+  useEffect(() => {
+    setState(null);
+    client.getWrappedState(name).then(setState).catch(() => setState(null));
+  }, [client, name]);
+
+  if (!state) return null;
+  const burned = decodeFuses(state.fuses);
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <div className="flex items-center gap-3 text-sm font-bold text-gray-500">
+        <Package size={18}/>
+        Wrapped · expires {new Date(state.expiry * 1000).toLocaleDateString()}
+      </div>
+      {burned.length > 0 ? (
+        <div className="flex flex-wrap gap-2">
+          {burned.map(fuse => (
+            <span key={fuse} title={fuse} className="flex items-center gap-1.5 px-3 py-1.5 bg-gray-50 border border-gray-100 rounded-full text-[10px] font-black text-gray-600 uppercase tracking-widest">
+              <Lock size={10}/> {FUSE_DESCRIPTIONS[fuse]}
+            </span>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs font-bold text-gray-400">No fuses burned; the parent owner can still replace it.</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,160 @@
+import React, { useState, useEffect } from "react";
+import { AlertCircle, CheckCircle2, CloudOff, Loader2, Sparkles, Trash2, Wallet } from "lucide-react";
+import { BaseNamesClient, SubnameGateway, describeTxError, inspectLabel, inspectName, rememberName } from "../lib";
+import type { OffchainSubname } from "../lib";
+import { NameIssues } from "./NameIssues";
+
+interface GaslessSubnameIssuerProps {
+  parent: string;
+  gateway: SubnameGateway;
+  client: BaseNamesClient;
+  getWriteClient: () => Promise<BaseNamesClient>;
+  connectedAddress?: string | null;
+  onIssued?: () => void;
+}
+
+export const GaslessSubnameIssuer = ({ parent, gateway, client, getWriteClient, connectedAddress, onIssued }: GaslessSubnameIssuerProps) => {
+  const cleanParent = parent.trim() ? inspectName(parent).normalized ?? "" : "";
+  const [issued, setIssued] = useState<OffchainSubname[] | null>(null);
+  const [hasWildcard, setHasWildcard] = useState(true);
+  const [label, setLabel] = useState("");
+  const [owner, setOwner] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const [status, setStatus] = useState<{type: 'success' | 'error', msg: string} | null>(null);
+
+  const load = async () => {
+    try {
+      setIssued(await gateway.list(cleanParent));
+    } catch (err: any) {
+      setIssued([]);
+      setStatus({ type: 'error', msg: err.message || "Could not reach the gateway." });
+    }
+  };
+
+  useEffect(() => {
+    setIssued(null);
+    setStatus(null);
+    if (!cleanParent) return;
+    load();
+    // Offchain names only resolve once the parent points at a wildcard
+    // resolver that defers to the gateway.
+    client.getResolver(cleanParent).then(resolver => setHasWildcard(!!resolver?.extended)).catch(() => setHasWildcard(true));
+  }, [gateway, client, cleanParent]);
+
+  const handleIssue = async () => {
+    setStatus(null);
+    setIsSending(true);
+    try {
+      const writer = await getWriteClient();
+      const entry = await gateway.issue(writer.signer!, cleanParent, label, owner);
+      rememberName(entry.name);
+      setStatus({ type: 'success', msg: `Issued ${entry.name} without a transaction.` });
+      setLabel("");
+      await load();
+      onIssued?.();
+    } catch (err: any) {
+      setStatus({ type: 'error', msg: describeTxError(err, "Issuing failed.") });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleRevoke = async (name: string) => {
+    setStatus(null);
+    setRevoking(name);
+    try {
+      const writer = await getWriteClient();
+      await gateway.revoke(writer.signer!, name);
+      setStatus({ type: 'success', msg: `Revoked ${name}.` });
+      await load();
+    } catch (err: any) {
+      setStatus({ type: 'error', msg: describeTxError(err, "Revoking failed.") });
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  if (!cleanParent) {
+    return <p className="text-sm font-bold text-gray-400">Enter a parent name to issue gasless subnames.</p>;
+  }
+
+  const labelReport = label.trim() ? inspectLabel(label) : null;
+
+  return (
+    <div className="space-y-6">
+      {!hasWildcard && (
+        <p className="text-xs font-bold text-amber-600 flex items-start gap-2">
+          <CloudOff size={14} className="flex-shrink-0 mt-px"/>
+          {cleanParent} doesn't use a wildcard resolver yet. Point its resolver at the offchain resolver that trusts this gateway, or these names won't resolve.
+        </p>
+      )}
+
+      <div className="flex items-center">
+        <input
+          type="text"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder="e.g. alice"
+          className="flex-1 bg-gray-50 border border-gray-100 rounded-l-2xl px-5 py-4 text-lg font-bold outline-none focus:border-base-blue focus:bg-white transition-all"
+        />
+        <div className="bg-gray-100 border border-l-0 border-gray-100 px-6 py-4 rounded-r-2xl text-gray-400 text-sm font-black uppercase tracking-widest">.{cleanParent}</div>
+      </div>
+      <NameIssues report={labelReport} />
+      <div className="flex items-center gap-3">
+        <input
+          type="text"
+          value={owner}
+          onChange={(e) => setOwner(e.target.value)}
+          placeholder="Owner 0x..."
+          className="flex-1 bg-gray-50 border border-gray-100 rounded-2xl px-5 py-4 text-sm font-mono font-bold outline-none focus:border-base-blue focus:bg-white transition-all"
+        />
+        {connectedAddress && (
+          <button type="button" onClick={() => setOwner(connectedAddress)} title="Use connected wallet" className="w-14 h-14 flex items-center justify-center rounded-2xl bg-gray-100 text-gray-500 hover:bg-gray-200 flex-shrink-0">
+            <Wallet size={18}/>
+          </button>
+        )}
+      </div>
+      <p className="text-xs font-bold text-gray-400">The name is stored by the gateway and costs no gas. Its owner can update its records by signing a message.</p>
+
+      {status && (
+        <div className={`p-4 rounded-2xl flex items-center gap-3 text-sm font-bold border break-all ${status.type === 'success' ? 'bg-green-50 text-green-700 border-green-100' : 'bg-red-50 text-red-600 border-red-100'}`}>
+          {status.type === 'success' ? <CheckCircle2 size={18} className="flex-shrink-0"/> : <AlertCircle size={18} className="flex-shrink-0"/>}
+          <span className="flex-1">{status.msg}</span>
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <button
+          onClick={handleIssue}
+          disabled={isSending || !connectedAddress || !labelReport?.normalized || !owner}
+          className="h-14 px-12 bg-base-blue text-white rounded-2xl font-black uppercase tracking-widest text-xs hover:bg-blue-600 disabled:bg-gray-50 disabled:text-gray-200 transition-all flex items-center gap-3 shadow-2xl shadow-blue-500/20 active:scale-95"
+        >
+          {isSending ? <Loader2 className="animate-spin" size={20}/> : <Sparkles size={20}/>}
+          {isSending ? "Signing..." : "Issue Gasless Subname"}
+        </button>
+      </div>
+
+      <div className="pt-6 border-t border-gray-50">
+        <span className="text-[10px] font-black text-gray-400 uppercase tracking-[0.25em] block mb-4">Issued through the gateway</span>
+        {issued === null ? (
+          <Loader2 className="animate-spin text-base-blue" size={20}/>
+        ) : issued.length === 0 ? (
+          <p className="text-sm font-bold text-gray-400">None yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {issued.map(entry => (
+              <div key={entry.name} className="flex items-center gap-3 text-xs font-bold text-gray-600">
+                <span className="flex-1 truncate">{entry.name}</span>
+                <span className="font-mono text-gray-400 truncate">{entry.owner}</span>
+                <button onClick={() => handleRevoke(entry.name)} disabled={revoking !== null} title="Revoke" className="w-9 h-9 flex items-center justify-center rounded-xl text-gray-400 hover:bg-red-50 hover:text-red-500 disabled:opacity-40 flex-shrink-0">
+                  {revoking === entry.name ? <Loader2 className="animate-spin" size={14}/> : <Trash2 size={14}/>}
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
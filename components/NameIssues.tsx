@@ -0,0 +1,18 @@
+import React from "react";
+import { AlertCircle, AlertTriangle } from "lucide-react";
+import type { NameReport } from "../lib";
+
+/** Inline ENSIP-15 error and warnings for a name or label input. */
+export const NameIssues = ({ report, className = "" }: { report: NameReport | null, className?: string }) => {
+  if (!report || (!report.error && report.warnings.length === 0)) return null;
+  return (
+    <div className={`space-y-1 text-xs font-bold ${className}`}>
+      {report.error && (
+        <p className="text-red-600 flex items-start gap-2"><AlertCircle size={14} className="flex-shrink-0 mt-px"/> Invalid {report.error}</p>
+      )}
+      {report.warnings.map(warning => (
+        <p key={warning} className="text-amber-600 flex items-start gap-2"><AlertTriangle size={14} className="flex-shrink-0 mt-px"/> {warning}</p>
+      ))}
+    </div>
+  );
+};
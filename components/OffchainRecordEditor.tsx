@@ -0,0 +1,95 @@
+import React, { useState, useEffect } from "react";
+import { CheckCircle2, AlertCircle, Loader2, PenLine, Undo2 } from "lucide-react";
+import { ethers } from "ethers";
+import { BaseNamesClient, SubnameGateway, TEXT_RECORD_KEYS, describeTxError, diffTextRecords } from "../lib";
+import type { OffchainSubname } from "../lib";
+
+interface OffchainRecordEditorProps {
+  entry: OffchainSubname;
+  gateway: SubnameGateway;
+  getWriteClient: () => Promise<BaseNamesClient>;
+  onSaved?: (entry: OffchainSubname) => void;
+}
+
+/** Edits the records a gateway serves for an offchain subname; saving signs a message instead of sending a transaction. */
+export const OffchainRecordEditor = ({ entry, gateway, getWriteClient, onSaved }: OffchainRecordEditorProps) => {
+  const [address, setAddress] = useState(entry.records.address);
+  const [draft, setDraft] = useState<Record<string, string>>(entry.records.texts);
+  const [isSaving, setIsSaving] = useState(false);
+  const [status, setStatus] = useState<{type: 'success' | 'error', msg: string} | null>(null);
+
+  useEffect(() => {
+    setAddress(entry.records.address);
+    setDraft(entry.records.texts);
+  }, [entry]);
+
+  const changes = diffTextRecords(entry.records.texts, draft);
+  const addressChanged = address.trim() !== entry.records.address;
+  const isInvalid = address.trim() !== "" && !ethers.isAddress(address.trim());
+  const isChanged = changes.length > 0 || addressChanged;
+
+  const handleSave = async () => {
+    setStatus(null);
+    setIsSaving(true);
+    try {
+      const writer = await getWriteClient();
+      const updated = await gateway.setRecords(writer.signer!, entry.name, { address, texts: draft });
+      setStatus({ type: 'success', msg: "Records updated on the gateway." });
+      onSaved?.(updated);
+    } catch (err: any) {
+      setStatus({ type: 'error', msg: describeTxError(err, "Saving records failed.") });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const reset = () => {
+    setAddress(entry.records.address);
+    setDraft(entry.records.texts);
+  };
+
+  return (
+    <div className="space-y-6">
+      <label className="block">
+        <span className="text-[10px] font-black text-gray-400 uppercase tracking-[0.2em] block mb-2">Address</span>
+        <input
+          type="text"
+          value={address}
+          onChange={(e) => setAddress(e.target.value)}
+          placeholder="0x..."
+          className={`w-full bg-gray-50 border rounded-2xl px-4 py-3 text-xs font-mono font-bold outline-none focus:border-base-blue focus:bg-white transition-all ${isInvalid ? 'border-red-300' : addressChanged ? 'border-base-blue/50' : 'border-gray-100'}`}
+        />
+      </label>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {TEXT_RECORD_KEYS.map(key => (
+          <label key={key} className="block">
+            <span className="text-[10px] font-black text-gray-400 uppercase tracking-[0.2em] block mb-2">{key}</span>
+            <input
+              type="text"
+              value={draft[key] ?? ""}
+              onChange={(e) => setDraft(prev => ({ ...prev, [key]: e.target.value }))}
+              className={`w-full bg-gray-50 border rounded-2xl px-4 py-3 text-sm font-bold outline-none focus:border-base-blue focus:bg-white transition-all ${(draft[key] ?? "") !== (entry.records.texts[key] ?? "") ? 'border-base-blue/50' : 'border-gray-100'}`}
+            />
+          </label>
+        ))}
+      </div>
+
+      {status && (
+        <div className={`p-4 rounded-2xl flex items-center gap-3 text-sm font-bold border ${status.type === 'success' ? 'bg-green-50 text-green-700 border-green-100' : 'bg-red-50 text-red-600 border-red-100'}`}>
+          {status.type === 'success' ? <CheckCircle2 size={18}/> : <AlertCircle size={18}/>} {status.msg}
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-3">
+        <button type="button" onClick={reset} disabled={!isChanged || isSaving} className="h-12 px-6 rounded-2xl text-xs font-black uppercase tracking-widest text-gray-500 hover:bg-gray-100 disabled:opacity-40 flex items-center gap-2">
+          <Undo2 size={16}/> Reset
+        </button>
+        <button type="button" onClick={handleSave} disabled={!isChanged || isInvalid || isSaving} className="h-12 px-8 bg-base-blue text-white rounded-2xl font-black uppercase tracking-widest text-xs hover:bg-blue-600 disabled:bg-gray-50 disabled:text-gray-200 transition-all flex items-center gap-3 shadow-xl shadow-blue-500/20 active:scale-95">
+          {isSaving ? <Loader2 className="animate-spin" size={16}/> : <PenLine size={16}/>}
+          {isSaving ? "Signing..." : "Sign & Save"}
+        </button>
+      </div>
+    </div>
+  );
+};
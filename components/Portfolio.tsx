@@ -0,0 +1,152 @@
+import React, { useState, useEffect, useRef } from "react";
+import { Box, Crown, Loader2, Pause, Play, RotateCcw } from "lucide-react";
+import {
+  BaseNamesClient,
+  buildPortfolio,
+  clearPortfolioScan,
+  loadLabels,
+  loadNames,
+  loadPortfolioScan,
+  savePortfolioScan,
+  scanPortfolioPage
+} from "../lib";
+import type { OwnedName, PortfolioScan } from "../lib";
+
+interface PortfolioProps {
+  client: BaseNamesClient;
+  owner: string;
+  primaryName?: string | null;
+  onSelect?: (name: string) => void;
+}
+
+// Rebuild the visible list every few pages so long scans show progress.
+const REBUILD_EVERY = 20;
+
+export const Portfolio = ({ client, owner, primaryName, onSelect }: PortfolioProps) => {
+  const [names, setNames] = useState<OwnedName[]>([]);
+  const [scan, setScan] = useState<PortfolioScan>(() => loadPortfolioScan(client, owner));
+  const [headBlock, setHeadBlock] = useState<number | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [runId, setRunId] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const scanRef = useRef(scan);
+
+  const rebuild = async (current: PortfolioScan) => {
+    setNames(await buildPortfolio(client, current, loadLabels(), loadNames(), primaryName));
+  };
+
+  useEffect(() => {
+    const initial = loadPortfolioScan(client, owner);
+    scanRef.current = initial;
+    setScan(initial);
+    setNames([]);
+    setError(null);
+    rebuild(initial).catch(err => console.error("Portfolio build error:", err));
+  }, [client, owner]);
+
+  useEffect(() => {
+    rebuild(scanRef.current).catch(err => console.error("Portfolio build error:", err));
+  }, [primaryName]);
+
+  useEffect(() => {
+    if (isPaused) return;
+    let cancelled = false;
+
+    const run = async () => {
+      setIsScanning(true);
+      setError(null);
+      try {
+        const head = await client.provider.getBlockNumber();
+        if (cancelled) return;
+        setHeadBlock(head);
+
+        let current = scanRef.current;
+        let pages = 0;
+        while (!cancelled && current.nextBlock <= head) {
+          current = await scanPortfolioPage(client, current, { toBlock: head });
+          if (cancelled) return;
+          savePortfolioScan(client, current);
+          scanRef.current = current;
+          setScan(current);
+          if (++pages % REBUILD_EVERY === 0) await rebuild(current);
+        }
+        if (!cancelled) await rebuild(current);
+      } catch (err: any) {
+        if (!cancelled) setError(err.shortMessage || err.message || "Scanning logs failed.");
+      } finally {
+        if (!cancelled) setIsScanning(false);
+      }
+    };
+
+    run();
+    return () => { cancelled = true; };
+  }, [client, owner, isPaused, runId]);
+
+  const handleRescan = () => {
+    clearPortfolioScan(client, owner);
+    const fresh = loadPortfolioScan(client, owner);
+    scanRef.current = fresh;
+    setScan(fresh);
+    setNames([]);
+    setIsPaused(false);
+    setRunId(id => id + 1);
+  };
+
+  const total = headBlock !== null ? headBlock - client.startBlock + 1 : 0;
+  const done = Math.min(scan.nextBlock - client.startBlock, total);
+  const progress = total > 0 ? Math.floor((done / total) * 100) : 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex-1">
+          <div className="flex items-center justify-between text-[10px] font-black text-gray-400 uppercase tracking-[0.2em] mb-2">
+            <span>{isScanning ? "Scanning logs" : isPaused ? "Paused" : "Up to date"}</span>
+            <span>{headBlock !== null ? `Block ${Math.min(scan.nextBlock - 1, headBlock).toLocaleString()} / ${headBlock.toLocaleString()}` : ""}</span>
+          </div>
+          <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div className="h-full bg-base-blue transition-all duration-500" style={{ width: `${progress}%` }}></div>
+          </div>
+        </div>
+        <button onClick={() => setIsPaused(p => !p)} title={isPaused ? "Resume" : "Pause"} className="w-10 h-10 flex items-center justify-center rounded-full bg-gray-50 border border-gray-100 text-gray-400 hover:text-base-blue">
+          {isPaused ? <Play size={16}/> : <Pause size={16}/>}
+        </button>
+        <button onClick={handleRescan} title="Rescan from the start" className="w-10 h-10 flex items-center justify-center rounded-full bg-gray-50 border border-gray-100 text-gray-400 hover:text-base-blue">
+          <RotateCcw size={16}/>
+        </button>
+      </div>
+
+      {error && <p className="text-xs font-bold text-red-600">{error}</p>}
+
+      {names.length === 0 ? (
+        <div className="flex flex-col items-center justify-center text-gray-300 py-10 text-center">
+          {isScanning ? <Loader2 className="animate-spin mb-4 text-base-blue" size={32}/> : <Box size={32} className="mb-4 opacity-30 text-base-blue"/>}
+          <p className="text-[10px] font-black text-gray-400 uppercase tracking-[0.2em]">{isScanning ? "Looking for names" : "No names found"}</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {names.map(entry => (
+            <button
+              key={entry.node}
+              onClick={() => onSelect?.(entry.name)}
+              className="w-full flex items-center justify-between gap-4 p-5 bg-gray-50 rounded-3xl border border-gray-100 hover:border-blue-200 hover:bg-white transition-all duration-300 text-left"
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-lg font-black text-gray-900 leading-tight truncate">{entry.name}</span>
+                  {entry.isPrimary && <Crown size={16} className="text-base-blue flex-shrink-0"/>}
+                </div>
+                <div className="flex flex-wrap gap-x-4 gap-y-1 mt-1 text-[10px] font-black text-gray-400 uppercase tracking-[0.15em]">
+                  <span>{entry.registrant && entry.controller ? "Owner" : entry.registrant ? "Registrant" : "Manager"}</span>
+                  {entry.expires && <span>Expires {new Date(entry.expires * 1000).toLocaleDateString()}</span>}
+                  <span className="font-mono normal-case tracking-normal">Resolver {entry.resolver.slice(0, 6)}...{entry.resolver.slice(-4)}</span>
+                </div>
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
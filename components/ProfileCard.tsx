@@ -0,0 +1,66 @@
+import React from "react";
+import { ExternalLink, User, Wallet } from "lucide-react";
+import { textRecordLink } from "../lib";
+import type { ProfileData } from "../lib";
+import { Avatar } from "./Avatar";
+
+interface ProfileCardProps {
+  name: string;
+  data: ProfileData;
+  /** Makes the name a link, e.g. to the full profile page. */
+  href?: string;
+  className?: string;
+}
+
+// Records shown as links on the card, in this order.
+const CARD_LINK_KEYS = ["url", "com.twitter", "com.github", "org.telegram"];
+
+/** Compact profile of a resolved name; shared by the public profile page and the embed. */
+export const ProfileCard = ({ name, data, href, className = "" }: ProfileCardProps) => {
+  const texts = data.texts ?? {};
+  const links = CARD_LINK_KEYS
+    .map(key => ({ key, value: texts[key] ?? "", link: textRecordLink(key, texts[key] ?? "") }))
+    .filter(entry => entry.link);
+
+  return (
+    <div className={`bg-white border border-gray-100 rounded-[2rem] p-6 shadow-sm ${className}`}>
+      <div className="flex items-center gap-5">
+        <div className="w-20 h-20 rounded-[1.5rem] overflow-hidden bg-gray-50 border border-gray-100 flex-shrink-0">
+          <Avatar
+            src={data.avatar}
+            className="rounded-[1.5rem]"
+            iconSize={24}
+            fallback={<div className="w-full h-full flex items-center justify-center text-gray-200"><User size={36} /></div>}
+          />
+        </div>
+        <div className="min-w-0">
+          {href ? (
+            <a href={href} target="_blank" rel="noopener noreferrer" className="text-2xl font-black tracking-tighter text-gray-900 hover:text-base-blue truncate block">{name}</a>
+          ) : (
+            <h2 className="text-2xl font-black tracking-tighter text-gray-900 truncate">{name}</h2>
+          )}
+          {texts.display && texts.display !== name && (
+            <p className="text-sm font-bold text-gray-500 truncate">{texts.display}</p>
+          )}
+          {data.address && (
+            <p className="mt-1 text-xs font-mono font-bold text-gray-400 flex items-center gap-2" title={data.address}>
+              <Wallet size={12} className="text-base-blue flex-shrink-0"/> {data.address.slice(0, 6)}...{data.address.slice(-4)}
+            </p>
+          )}
+        </div>
+      </div>
+      {texts.description && (
+        <p className="mt-5 text-sm font-medium text-gray-600 whitespace-pre-line break-words">{texts.description}</p>
+      )}
+      {links.length > 0 && (
+        <div className="mt-5 flex flex-wrap gap-2">
+          {links.map(({ key, value, link }) => (
+            <a key={key} href={link!} target="_blank" rel="noopener noreferrer" className="px-3 py-1.5 bg-gray-50 rounded-xl text-xs font-bold text-gray-600 border border-gray-100 hover:text-base-blue hover:border-blue-100 flex items-center gap-2 max-w-full">
+              <span className="truncate">{key === "url" ? value.replace(/^https?:\/\//i, "") : value}</span> <ExternalLink size={12} className="flex-shrink-0"/>
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
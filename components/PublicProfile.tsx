@@ -0,0 +1,217 @@
+import React, { useState, useEffect } from "react";
+import { ethers } from "ethers";
+import { AlertCircle, Check, Copy, Globe, Loader2 } from "lucide-react";
+import {
+  BaseNamesClient,
+  SubnameGateway,
+  TEXT_RECORD_KEYS,
+  coinLabel,
+  contenthashUrl,
+  describeRpcError,
+  inspectName,
+  listSubnames,
+  loadLabels,
+  loadSubnameScan,
+  routePath,
+  saveSubnameScan,
+  scanSubnamesPage,
+  textRecordLink
+} from "../lib";
+import type { NameLookup } from "../lib";
+import { Card } from "./Card";
+import { ProfileCard } from "./ProfileCard";
+import { QrCode } from "./QrCode";
+
+interface PublicProfileProps {
+  name: string;
+  client: BaseNamesClient;
+  gateway?: SubnameGateway | null;
+  onSelect?: (name: string) => void;
+}
+
+// Image records aren't listed; the avatar is already on the card.
+const LISTED_KEYS = TEXT_RECORD_KEYS.filter(key => key !== "avatar" && key !== "header");
+
+/** Shareable view of a name: every record, its live subnames and a QR code of its address. */
+export const PublicProfile = ({ name: rawName, client, gateway, onSelect }: PublicProfileProps) => {
+  const report = inspectName(rawName);
+  const name = report.normalized ?? "";
+  const [lookup, setLookup] = useState<NameLookup | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [subnames, setSubnames] = useState<string[] | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLookup(null);
+    setError(null);
+    if (!name) {
+      setError(`Invalid name ${report.error}`);
+      return;
+    }
+    client.getProfile(name)
+      .then(result => { if (!cancelled) setLookup(result); })
+      .catch(err => { if (!cancelled) setError(describeRpcError(err, "Resolution failed. Please check your connection.")); });
+    return () => { cancelled = true; };
+  }, [client, name]);
+
+  // Subnames come from the cached NewOwner scan, continued up to the head,
+  // plus whatever the gateway issued offchain.
+  useEffect(() => {
+    let cancelled = false;
+    setSubnames(null);
+    if (!name) return;
+
+    const run = async () => {
+      const found = new Set<string>();
+      try {
+        const head = await client.provider.getBlockNumber();
+        let scan = loadSubnameScan(client, name);
+        while (!cancelled && scan.nextBlock <= head) {
+          scan = await scanSubnamesPage(client, scan, { toBlock: head });
+          saveSubnameScan(client, scan);
+        }
+        if (cancelled) return;
+        const entries = await listSubnames(client, name, scan, loadLabels());
+        entries.filter(entry => entry.owner !== ethers.ZeroAddress).forEach(entry => found.add(entry.name));
+      } catch (err) {
+        console.error("Subname scan error:", err);
+      }
+      if (gateway) {
+        const offchain = await gateway.list(name).catch(() => []);
+        offchain.forEach(entry => found.add(entry.name));
+      }
+      if (!cancelled) setSubnames([...found].sort());
+    };
+
+    run();
+    return () => { cancelled = true; };
+  }, [client, gateway, name]);
+
+  // The dev server serves the element's source; builds emit it as embed.js.
+  const embedScript = `${window.location.origin}/${import.meta.env.DEV ? "embed.ts" : "embed.js"}`;
+  const embedCode = `<script type="module" src="${embedScript}"></script>\n<base-name-card name="${name}"></base-name-card>`;
+
+  const copyEmbedCode = async () => {
+    await navigator.clipboard.writeText(embedCode);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  if (error) {
+    return (
+      <div className="max-w-2xl mx-auto p-4 bg-red-50 text-red-600 rounded-2xl flex items-center gap-3 border border-red-100 font-bold">
+        <AlertCircle size={20} /> {error}
+      </div>
+    );
+  }
+  if (!lookup) {
+    return <div className="flex justify-center py-20"><Loader2 className="animate-spin text-base-blue" size={32}/></div>;
+  }
+  if (lookup.available || !lookup.data) {
+    return (
+      <Card className="max-w-2xl mx-auto p-10 text-center">
+        <h2 className="text-3xl font-black tracking-tighter text-gray-900">{name}</h2>
+        <p className="mt-2 text-sm font-bold text-gray-400">This name doesn't resolve to an address.</p>
+      </Card>
+    );
+  }
+
+  const { data } = lookup;
+  const texts = data.texts ?? {};
+  const records = LISTED_KEYS.filter(key => texts[key]);
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-700">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <ProfileCard name={name} data={data} className="md:col-span-2" />
+        {data.address && (
+          <Card className="flex flex-col items-center justify-center gap-3">
+            <QrCode value={`ethereum:${data.address}`} className="w-40 h-40" />
+            <span className="text-[10px] font-mono font-bold text-gray-400 break-all text-center">{data.address}</span>
+          </Card>
+        )}
+      </div>
+
+      <Card className="p-10 space-y-8">
+        <div>
+          <span className="text-[10px] font-black text-gray-400 uppercase tracking-[0.25em] block mb-4">Text Records</span>
+          {records.length === 0 ? (
+            <p className="text-sm font-bold text-gray-400">No text records set.</p>
+          ) : (
+            <div className="space-y-2">
+              {records.map(key => {
+                const link = textRecordLink(key, texts[key]);
+                return (
+                  <div key={key} className="flex items-start gap-3 text-sm font-bold text-gray-700">
+                    <span className="w-32 flex-shrink-0 text-[10px] font-black text-gray-400 uppercase tracking-[0.2em] pt-1">{key}</span>
+                    {link ? (
+                      <a href={link} target="_blank" rel="noopener noreferrer" className="text-base-blue hover:underline break-all">{texts[key]}</a>
+                    ) : (
+                      <span className="break-all whitespace-pre-line">{texts[key]}</span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {!!data.coinAddresses?.length && (
+          <div className="pt-8 border-t border-gray-100">
+            <span className="text-[10px] font-black text-gray-400 uppercase tracking-[0.25em] block mb-4">Addresses</span>
+            <div className="space-y-2">
+              {data.coinAddresses.map(({ coinType, address }) => (
+                <div key={coinType} className="flex items-center gap-3 text-xs font-mono font-bold text-gray-500">
+                  <span className="w-32 flex-shrink-0 text-[10px] font-sans font-black text-gray-400 uppercase tracking-[0.2em]">{coinLabel(coinType)}</span>
+                  <span className="break-all">{address}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {data.contenthash && (
+          <div className="pt-8 border-t border-gray-100">
+            <span className="text-[10px] font-black text-gray-400 uppercase tracking-[0.25em] block mb-4">Website</span>
+            <a href={contenthashUrl(data.contenthash, client.ipfsGateway)} target="_blank" rel="noopener noreferrer" className="text-xs font-mono font-bold text-base-blue hover:underline flex items-center gap-2 break-all">
+              <Globe size={14} className="flex-shrink-0"/> {data.contenthash.uri}
+            </a>
+          </div>
+        )}
+
+        <div className="pt-8 border-t border-gray-100">
+          <span className="text-[10px] font-black text-gray-400 uppercase tracking-[0.25em] block mb-4">Subnames</span>
+          {subnames === null ? (
+            <Loader2 className="animate-spin text-base-blue" size={20}/>
+          ) : subnames.length === 0 ? (
+            <p className="text-sm font-bold text-gray-400">None.</p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {subnames.map(subname => (
+                <a
+                  key={subname}
+                  href={routePath({ page: "profile", name: subname })}
+                  onClick={(e) => { if (onSelect) { e.preventDefault(); onSelect(subname); } }}
+                  className="px-3 py-1.5 bg-gray-50 rounded-xl text-xs font-bold text-gray-600 border border-gray-100 hover:text-base-blue hover:border-blue-100 break-all"
+                >
+                  {subname}
+                </a>
+              ))}
+            </div>
+          )}
+        </div>
+      </Card>
+
+      <Card className="p-10">
+        <div className="flex items-center justify-between mb-4">
+          <span className="text-[10px] font-black text-gray-400 uppercase tracking-[0.25em]">Embed</span>
+          <button onClick={copyEmbedCode} className="text-[10px] font-black text-gray-400 uppercase tracking-[0.2em] hover:text-base-blue flex items-center gap-2">
+            {copied ? <Check size={14}/> : <Copy size={14}/>} {copied ? "Copied" : "Copy"}
+          </button>
+        </div>
+        <pre className="bg-gray-50 border border-gray-100 rounded-2xl p-4 text-xs font-mono text-gray-600 whitespace-pre-wrap break-all">{embedCode}</pre>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,26 @@
+import React, { useMemo } from "react";
+import { encode } from "uqr";
+
+interface QrCodeProps {
+  value: string;
+  className?: string;
+}
+
+/** QR code of `value` drawn as one SVG path, one unit per module. */
+export const QrCode = ({ value, className = "" }: QrCodeProps) => {
+  const { size, path } = useMemo(() => {
+    const { size, data } = encode(value, { ecc: "M", border: 2 });
+    let path = "";
+    data.forEach((row, y) => row.forEach((dark, x) => {
+      if (dark) path += `M${x} ${y}h1v1h-1z`;
+    }));
+    return { size, path };
+  }, [value]);
+
+  return (
+    <svg viewBox={`0 0 ${size} ${size}`} shapeRendering="crispEdges" className={className} role="img" aria-label={value}>
+      <rect width={size} height={size} fill="#fff" />
+      <path d={path} fill="#000" />
+    </svg>
+  );
+};
@@ -0,0 +1,253 @@
+import React, { useState, useEffect } from "react";
+import { AlertCircle, CheckCircle2, Download, Loader2, Save, Upload, X } from "lucide-react";
+import { ethers } from "ethers";
+import {
+  BaseNamesClient,
+  coinLabel,
+  describeTxError,
+  diffRecordSet,
+  exportRecordSet,
+  listSubnames,
+  loadLabels,
+  loadRecordKeyScan,
+  loadSubnameScan,
+  parseRecordSet,
+  recordSetUpdate,
+  saveRecordKeyScan,
+  saveSubnameScan,
+  sameAddress,
+  scanRecordKeysPage,
+  scanSubnamesPage
+} from "../lib";
+import type { ContractCall, RecordSet, RecordSetDiff, SafeInfo } from "../lib";
+import { SafeProposal } from "./SafeProposal";
+
+interface RecordBackupProps {
+  name: string;
+  resolver: string;
+  client: BaseNamesClient;
+  getWriteClient: () => Promise<BaseNamesClient>;
+  /** Whether the connected wallet may write the records; import is hidden otherwise. */
+  canWrite: boolean;
+  /** Safe that owns `name`; importing then drafts a Safe transaction instead of sending one. */
+  safe?: SafeInfo | null;
+  onSaved?: () => void;
+}
+
+/** Exports every record of a name to JSON and imports such a file as one resolver multicall. */
+export const RecordBackup = ({ name, resolver, client, getWriteClient, canWrite, safe, onSaved }: RecordBackupProps) => {
+  const [progress, setProgress] = useState<string | null>(null);
+  const [records, setRecords] = useState<RecordSet | null>(null);
+  const [target, setTarget] = useState(resolver);
+  const [switchResolver, setSwitchResolver] = useState(true);
+  const [diff, setDiff] = useState<RecordSetDiff | null>(null);
+  const [isDiffing, setIsDiffing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [status, setStatus] = useState<{type: 'success' | 'error', msg: string} | null>(null);
+  const [safeCalls, setSafeCalls] = useState<ContractCall[] | null>(null);
+
+  useEffect(() => {
+    setRecords(null);
+    setTarget(resolver);
+    setSwitchResolver(true);
+    setStatus(null);
+    setSafeCalls(null);
+  }, [name, resolver]);
+
+  const compare = async (current: RecordSet, resolverAddress: string) => {
+    setIsDiffing(true);
+    try {
+      setDiff(await diffRecordSet(client, name, current, resolverAddress));
+    } catch (err: any) {
+      setDiff(null);
+      setStatus({ type: 'error', msg: err.shortMessage || err.message || "Reading the live records failed." });
+    } finally {
+      setIsDiffing(false);
+    }
+  };
+
+  useEffect(() => {
+    setDiff(null);
+    if (records && ethers.isAddress(target)) compare(records, target);
+  }, [records, target]);
+
+  const handleExport = async () => {
+    setStatus(null);
+    try {
+      const info = await client.getResolver(name);
+      if (!info) throw new Error(`${name} has no resolver.`);
+      const head = await client.provider.getBlockNumber();
+
+      let keyScan = loadRecordKeyScan(client, name, info.address);
+      while (keyScan.nextBlock <= head) {
+        setProgress(`Scanning records to block ${keyScan.nextBlock.toLocaleString()}`);
+        keyScan = await scanRecordKeysPage(client, keyScan, { toBlock: head });
+        saveRecordKeyScan(client, keyScan);
+      }
+      let subnameScan = loadSubnameScan(client, name);
+      while (subnameScan.nextBlock <= head) {
+        setProgress(`Scanning subnames to block ${subnameScan.nextBlock.toLocaleString()}`);
+        subnameScan = await scanSubnamesPage(client, subnameScan, { toBlock: head });
+        saveSubnameScan(client, subnameScan);
+      }
+      setProgress("Reading records");
+      const subnames = await listSubnames(client, name, subnameScan, loadLabels());
+      const exported = await exportRecordSet(client, name, info, keyScan, subnames);
+
+      const blob = new Blob([JSON.stringify(exported, null, 2)], { type: "application/json" });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `${name}-records.json`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      setStatus({ type: 'error', msg: err.shortMessage || err.message || "Export failed." });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    setStatus(null);
+    setSafeCalls(null);
+    try {
+      setRecords(parseRecordSet(await file.text()));
+    } catch (err: any) {
+      setRecords(null);
+      setStatus({ type: 'error', msg: err.message });
+    }
+  };
+
+  const changeCount = diff ? diff.texts.length + diff.addresses.length + (diff.contenthash ? 1 : 0) : 0;
+  // Moving to another resolver: the registry is pointed at it once the records are written.
+  const migrate = switchResolver && ethers.isAddress(target) && !sameAddress(target, resolver);
+
+  const handleApply = async () => {
+    if (!records || !diff) return;
+    setStatus(null);
+    if (safe) {
+      setSafeCalls([
+        ...(changeCount > 0 ? [client.recordsCall(name, recordSetUpdate(diff), target)] : []),
+        ...(migrate ? [client.resolverCall(name, target)] : [])
+      ]);
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const writer = await getWriteClient();
+      if (changeCount > 0) {
+        const tx = await writer.setRecords(name, recordSetUpdate(diff), target);
+        await tx.wait();
+      }
+      if (migrate) {
+        const tx = await writer.setResolver(name, target);
+        await tx.wait();
+      }
+      const imported = `Imported ${changeCount} record${changeCount === 1 ? "" : "s"} from ${records.name}`;
+      setStatus({ type: 'success', msg: migrate ? `${imported} and switched ${name} to the new resolver.` : `${imported}.` });
+      await compare(records, target);
+      onSaved?.();
+    } catch (err: any) {
+      setStatus({ type: 'error', msg: describeTxError(err, "Importing records failed.") });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm font-bold text-gray-400">
+          {progress ?? "Every text key ever set, address records, website and subname owners as JSON."}
+        </p>
+        <div className="flex items-center gap-3 flex-shrink-0">
+          <button onClick={handleExport} disabled={!!progress} className="h-12 px-6 rounded-2xl text-xs font-black uppercase tracking-widest text-gray-500 bg-gray-50 border border-gray-100 hover:bg-gray-100 disabled:opacity-40 flex items-center gap-2">
+            {progress ? <Loader2 className="animate-spin" size={16}/> : <Download size={16}/>} Export
+          </button>
+          {canWrite && (
+            <label className="h-12 px-6 rounded-2xl text-xs font-black uppercase tracking-widest text-gray-500 bg-gray-50 border border-gray-100 hover:bg-gray-100 flex items-center gap-2 cursor-pointer">
+              <Upload size={16}/> Import
+              <input type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+            </label>
+          )}
+        </div>
+      </div>
+
+      {records && (
+        <div className="p-5 bg-gray-50 rounded-2xl border border-gray-100 space-y-4">
+          <div className="flex items-start justify-between gap-3">
+            <p className="text-xs font-bold text-gray-600">
+              Records of <span className="font-mono">{records.name}</span>{records.exportedAt ? ` exported ${new Date(records.exportedAt).toLocaleString()}` : ""}. Records the file doesn't list are kept.
+              {records.chainId && records.chainId !== client.chainId ? ` The file comes from chain ${records.chainId}.` : ""}
+            </p>
+            <button onClick={() => setRecords(null)} disabled={isSaving} className="text-gray-400 hover:text-gray-900 flex-shrink-0"><X size={16}/></button>
+          </div>
+
+          <div className="space-y-2">
+            <span className="text-[10px] font-black text-gray-400 uppercase tracking-[0.2em] block">Write to resolver</span>
+            <input
+              type="text"
+              value={target}
+              onChange={(e) => setTarget(e.target.value.trim())}
+              className={`w-full bg-white border rounded-2xl px-4 py-3 text-xs font-mono font-bold outline-none focus:border-base-blue transition-all ${ethers.isAddress(target) ? 'border-gray-100' : 'border-red-300'}`}
+            />
+            {ethers.isAddress(target) && !sameAddress(target, resolver) && (
+              <label className="flex items-center gap-3 text-xs font-bold text-amber-600 cursor-pointer select-none">
+                <input type="checkbox" checked={switchResolver} onChange={(e) => setSwitchResolver(e.target.checked)} disabled={isSaving} className="w-4 h-4 accent-[#0052FF]" />
+                {name} doesn't use this resolver yet. Point it here once the records are written.
+              </label>
+            )}
+          </div>
+
+          {isDiffing ? (
+            <Loader2 className="animate-spin text-base-blue" size={16}/>
+          ) : diff && changeCount === 0 ? (
+            <p className="text-xs font-bold text-gray-400">{name} already has every record in the file{migrate ? "; only the resolver switch is left" : ""}.</p>
+          ) : diff && (
+            <ul className="space-y-1 text-xs font-bold text-gray-600">
+              {diff.texts.map(change => (
+                <li key={change.key} className="flex gap-3 break-all">
+                  <span className="w-28 flex-shrink-0 font-mono text-gray-400 truncate">{change.key}</span>
+                  <span>{change.to || <span className="text-red-500">cleared</span>}</span>
+                </li>
+              ))}
+              {diff.addresses.map(change => (
+                <li key={change.coinType} className="flex gap-3 break-all">
+                  <span className="w-28 flex-shrink-0 text-gray-400">{coinLabel(change.coinType)}</span>
+                  <span className="font-mono">{change.to || <span className="font-sans text-red-500">cleared</span>}</span>
+                </li>
+              ))}
+              {diff.contenthash && (
+                <li className="flex gap-3 break-all">
+                  <span className="w-28 flex-shrink-0 text-gray-400">Website</span>
+                  <span className="font-mono">{diff.contenthash.to || <span className="font-sans text-red-500">cleared</span>}</span>
+                </li>
+              )}
+            </ul>
+          )}
+
+          <div className="flex justify-end">
+            <button onClick={handleApply} disabled={!diff || (changeCount === 0 && !migrate) || isDiffing || isSaving} className="h-12 px-8 bg-base-blue text-white rounded-2xl font-black uppercase tracking-widest text-xs hover:bg-blue-600 disabled:bg-gray-100 disabled:text-gray-300 transition-all flex items-center gap-3 active:scale-95">
+              {isSaving ? <Loader2 className="animate-spin" size={16}/> : <Save size={16}/>}
+              {isSaving ? "Importing..." : changeCount === 0 ? "Switch resolver" : `Apply ${changeCount} change${changeCount === 1 ? "" : "s"}${migrate ? " and switch" : ""}`}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {safe && safeCalls && (
+        <SafeProposal safe={safe} name={name} calls={safeCalls} client={client} getWriteClient={getWriteClient} onClose={() => setSafeCalls(null)} />
+      )}
+
+      {status && (
+        <div className={`p-4 rounded-2xl flex items-center gap-3 text-sm font-bold border break-all ${status.type === 'success' ? 'bg-green-50 text-green-700 border-green-100' : 'bg-red-50 text-red-600 border-red-100'}`}>
+          {status.type === 'success' ? <CheckCircle2 size={18} className="flex-shrink-0"/> : <AlertCircle size={18} className="flex-shrink-0"/>} {status.msg}
+        </div>
+      )}
+    </div>
+  );
+};
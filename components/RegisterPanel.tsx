@@ -0,0 +1,134 @@
+import React, { useState, useEffect } from "react";
+import { ethers } from "ethers";
+import { AlertCircle, CheckCircle2, Loader2, Sparkles } from "lucide-react";
+import { BaseNamesClient, SECONDS_PER_YEAR, describeTxError } from "../lib";
+import type { RegistrationDiscount, RegistrationPrice } from "../lib";
+import { DurationPicker } from "./DurationPicker";
+import { TxLink } from "./TxLink";
+
+interface RegisterPanelProps {
+  label: string;
+  client: BaseNamesClient;
+  getWriteClient: () => Promise<BaseNamesClient>;
+  canWrite: boolean;
+  onRegistered?: () => void;
+}
+
+const formatEth = (wei: bigint) => `${Number(ethers.formatEther(wei)).toFixed(5)} ETH`;
+
+export const RegisterPanel = ({ label, client, getWriteClient, canWrite, onRegistered }: RegisterPanelProps) => {
+  const [available, setAvailable] = useState<boolean | null>(null);
+  const [years, setYears] = useState(1);
+  const [price, setPrice] = useState<RegistrationPrice | null>(null);
+  const [discounts, setDiscounts] = useState<RegistrationDiscount[]>([]);
+  const [setResolver, setSetResolver] = useState(true);
+  const [reverseRecord, setReverseRecord] = useState(true);
+  const [isRegistering, setIsRegistering] = useState(false);
+  const [status, setStatus] = useState<{type: 'success' | 'error', msg: string, txHash?: string} | null>(null);
+
+  useEffect(() => {
+    setAvailable(null);
+    setStatus(null);
+    client.isAvailable(label).then(setAvailable).catch(() => setAvailable(null));
+  }, [client, label]);
+
+  useEffect(() => {
+    if (!available) return;
+    let cancelled = false;
+    const duration = years * SECONDS_PER_YEAR;
+    setPrice(null);
+    Promise.all([
+      client.getRegistrationPrice(label, duration),
+      client.getDiscounts(label, duration).catch(() => [])
+    ]).then(([nextPrice, nextDiscounts]) => {
+      if (cancelled) return;
+      setPrice(nextPrice);
+      setDiscounts(nextDiscounts.filter(d => d.price < nextPrice.total));
+    }).catch(() => {
+      if (!cancelled) setStatus({ type: 'error', msg: "Could not load pricing." });
+    });
+    return () => { cancelled = true; };
+  }, [client, label, years, available]);
+
+  const handleRegister = async () => {
+    setStatus(null);
+    setIsRegistering(true);
+    try {
+      const writer = await getWriteClient();
+      const tx = await writer.register(label, {
+        durationSeconds: years * SECONDS_PER_YEAR,
+        setResolver,
+        reverseRecord: setResolver && reverseRecord
+      });
+      setStatus({ type: 'success', msg: `Registering ${label}.${client.network.rootName}...`, txHash: tx.hash });
+      await tx.wait();
+      setStatus({ type: 'success', msg: `${label}.${client.network.rootName} is yours!`, txHash: tx.hash });
+      onRegistered?.();
+    } catch (err: any) {
+      setStatus({ type: 'error', msg: describeTxError(err, "Registration failed.") });
+    } finally {
+      setIsRegistering(false);
+    }
+  };
+
+  if (available === null) {
+    return <Loader2 className="animate-spin text-base-blue" size={24}/>;
+  }
+
+  if (!available) {
+    return <p className="text-sm font-bold text-gray-500">This name is already registered.</p>;
+  }
+
+  const bestDiscount = discounts.reduce<RegistrationDiscount | null>((best, d) => !best || d.price < best.price ? d : best, null);
+
+  return (
+    <div className="space-y-6">
+      <DurationPicker years={years} onChange={setYears} disabled={isRegistering} />
+
+      <div className="space-y-2 text-sm font-bold">
+        {price ? (
+          <>
+            <div className="flex justify-between text-gray-500"><span>Registration</span><span className="font-mono">{formatEth(price.base)}</span></div>
+            {price.premium > 0n && (
+              <div className="flex justify-between text-amber-600"><span>Premium (recently expired)</span><span className="font-mono">{formatEth(price.premium)}</span></div>
+            )}
+            <div className="flex justify-between text-gray-900 text-lg pt-2 border-t border-gray-100"><span>Total</span><span className="font-mono">{formatEth(price.total)}</span></div>
+            {bestDiscount && (
+              <p className="text-xs text-green-600">Eligible wallets can register for {formatEth(bestDiscount.price)} with an active discount.</p>
+            )}
+          </>
+        ) : (
+          <Loader2 className="animate-spin text-gray-300" size={18}/>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <label className="flex items-center gap-3 text-xs font-bold text-gray-500 cursor-pointer select-none">
+          <input type="checkbox" checked={setResolver} onChange={(e) => setSetResolver(e.target.checked)} className="w-4 h-4 accent-[#0052FF]" />
+          Use the Base resolver and point the name at my wallet
+        </label>
+        <label className={`flex items-center gap-3 text-xs font-bold cursor-pointer select-none ${setResolver ? 'text-gray-500' : 'text-gray-300'}`}>
+          <input type="checkbox" checked={setResolver && reverseRecord} disabled={!setResolver} onChange={(e) => setReverseRecord(e.target.checked)} className="w-4 h-4 accent-[#0052FF]" />
+          Set as my primary name
+        </label>
+      </div>
+
+      {status && (
+        <div className={`p-4 rounded-2xl flex items-center gap-3 text-sm font-bold border break-all ${status.type === 'success' ? 'bg-green-50 text-green-700 border-green-100' : 'bg-red-50 text-red-600 border-red-100'}`}>
+          {status.type === 'success' ? <CheckCircle2 size={18} className="flex-shrink-0"/> : <AlertCircle size={18} className="flex-shrink-0"/>}
+          <span className="flex-1">{status.msg}</span>
+          <TxLink network={client.network} hash={status.txHash} />
+        </div>
+      )}
+
+      <button
+        onClick={handleRegister}
+        disabled={!canWrite || !price || isRegistering}
+        className="w-full h-14 bg-base-blue text-white rounded-2xl font-black uppercase tracking-widest text-xs hover:bg-blue-600 disabled:bg-gray-50 disabled:text-gray-300 transition-all flex items-center justify-center gap-3 shadow-2xl shadow-blue-500/20 active:scale-95"
+      >
+        {isRegistering ? <Loader2 className="animate-spin" size={20}/> : <Sparkles size={20}/>}
+        {isRegistering ? "Registering..." : canWrite ? "Register" : `Connect to ${client.network.name} to Register`}
+      </button>
+    </div>
+  );
+};
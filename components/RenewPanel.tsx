@@ -0,0 +1,77 @@
+import React, { useState, useEffect } from "react";
+import { ethers } from "ethers";
+import { AlertCircle, CalendarClock, CheckCircle2, Loader2 } from "lucide-react";
+import { BaseNamesClient, SECONDS_PER_YEAR, describeTxError } from "../lib";
+import { DurationPicker } from "./DurationPicker";
+
+interface RenewPanelProps {
+  name: string;
+  label: string;
+  client: BaseNamesClient;
+  getWriteClient: () => Promise<BaseNamesClient>;
+}
+
+export const RenewPanel = ({ name, label, client, getWriteClient }: RenewPanelProps) => {
+  const [expires, setExpires] = useState<number | null>(null);
+  const [years, setYears] = useState(1);
+  const [cost, setCost] = useState<bigint | null>(null);
+  const [isRenewing, setIsRenewing] = useState(false);
+  const [status, setStatus] = useState<{type: 'success' | 'error', msg: string} | null>(null);
+
+  useEffect(() => {
+    setStatus(null);
+    client.getExpiry(name).then(setExpires).catch(() => setExpires(null));
+  }, [client, name]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setCost(null);
+    client.getRegistrationPrice(label, years * SECONDS_PER_YEAR)
+      .then(price => { if (!cancelled) setCost(price.base); })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, [client, label, years]);
+
+  const handleRenew = async () => {
+    setStatus(null);
+    setIsRenewing(true);
+    try {
+      const writer = await getWriteClient();
+      const tx = await writer.renew(label, years * SECONDS_PER_YEAR);
+      await tx.wait();
+      setExpires(await client.getExpiry(name));
+      setStatus({ type: 'success', msg: `Renewed for ${years} year${years === 1 ? "" : "s"}.` });
+    } catch (err: any) {
+      setStatus({ type: 'error', msg: describeTxError(err, "Renewal failed.") });
+    } finally {
+      setIsRenewing(false);
+    }
+  };
+
+  const expiresSoon = expires !== null && expires * 1000 - Date.now() < 30 * 24 * 60 * 60 * 1000;
+
+  return (
+    <div className="space-y-6">
+      <div className={`flex items-center gap-3 text-sm font-bold ${expiresSoon ? 'text-amber-600' : 'text-gray-500'}`}>
+        <CalendarClock size={18}/>
+        {expires !== null ? `Expires ${new Date(expires * 1000).toLocaleDateString()}` : "Loading expiry..."}
+      </div>
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <DurationPicker years={years} onChange={setYears} disabled={isRenewing} />
+        <button
+          onClick={handleRenew}
+          disabled={isRenewing || cost === null}
+          className="h-12 px-8 bg-base-blue text-white rounded-2xl font-black uppercase tracking-widest text-xs hover:bg-blue-600 disabled:bg-gray-50 disabled:text-gray-200 transition-all flex items-center gap-3 shadow-xl shadow-blue-500/20 active:scale-95"
+        >
+          {isRenewing ? <Loader2 className="animate-spin" size={16}/> : <CalendarClock size={16}/>}
+          {isRenewing ? "Renewing..." : cost !== null ? `Renew · ${Number(ethers.formatEther(cost)).toFixed(5)} ETH` : "Renew"}
+        </button>
+      </div>
+      {status && (
+        <p className={`text-xs font-bold flex items-center gap-2 ${status.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+          {status.type === 'success' ? <CheckCircle2 size={14}/> : <AlertCircle size={14}/>} {status.msg}
+        </p>
+      )}
+    </div>
+  );
+};
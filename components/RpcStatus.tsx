@@ -0,0 +1,37 @@
+import React, { useState, useEffect } from "react";
+import { AlertTriangle, X } from "lucide-react";
+import { ResilientProvider, endpointHost } from "../lib";
+import type { EndpointFailure } from "../lib";
+
+// How long a failure stays visible after the last one was reported.
+const VISIBLE_MS = 15_000;
+
+/** Banner naming the RPC endpoint that last failed and why. */
+export const RpcStatus = ({ provider }: { provider: unknown }) => {
+  const [failure, setFailure] = useState<EndpointFailure | null>(null);
+
+  useEffect(() => {
+    setFailure(null);
+    if (!(provider instanceof ResilientProvider)) return;
+    return provider.onFailure(setFailure);
+  }, [provider]);
+
+  useEffect(() => {
+    if (!failure) return;
+    const timer = setTimeout(() => setFailure(null), VISIBLE_MS);
+    return () => clearTimeout(timer);
+  }, [failure]);
+
+  if (!failure || !(provider instanceof ResilientProvider)) return null;
+  const hasFallback = provider.urls.length > 1;
+
+  return (
+    <div className="p-4 bg-amber-50 text-amber-700 rounded-2xl flex items-center gap-3 border border-amber-100 text-xs font-bold">
+      <AlertTriangle size={16} className="flex-shrink-0"/>
+      <span className="flex-1">
+        {endpointHost(failure.url)} {failure.reason}{hasFallback ? "; retrying on fallback endpoints." : "."}
+      </span>
+      <button onClick={() => setFailure(null)} className="flex-shrink-0 hover:opacity-70"><X size={14}/></button>
+    </div>
+  );
+};
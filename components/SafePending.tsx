@@ -0,0 +1,59 @@
+import React, { useState, useEffect } from "react";
+import { ExternalLink, Loader2, Users } from "lucide-react";
+import { BaseNamesClient, SafeTransactionService, safeQueueUrl } from "../lib";
+import type { PendingSafeTransaction, SafeInfo } from "../lib";
+
+interface SafePendingProps {
+  safe: SafeInfo;
+  name: string;
+  client: BaseNamesClient;
+  /** Bump to reload after proposing. */
+  refreshKey?: number;
+}
+
+/** Multisig transactions touching `name` that its Safe hasn't executed yet. */
+export const SafePending = ({ safe, name, client, refreshKey = 0 }: SafePendingProps) => {
+  const [pending, setPending] = useState<PendingSafeTransaction[] | null>(null);
+
+  useEffect(() => {
+    if (!client.network.safe) return;
+    let cancelled = false;
+    setPending(null);
+    new SafeTransactionService(client).pending(safe, name)
+      .then(result => { if (!cancelled) setPending(result); })
+      .catch(err => {
+        console.error("Safe queue error:", err);
+        if (!cancelled) setPending([]);
+      });
+    return () => { cancelled = true; };
+  }, [client, safe, name, refreshKey]);
+
+  if (!client.network.safe) return null;
+  const queueUrl = safeQueueUrl(client, safe.address);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-[10px] font-black text-gray-400 uppercase tracking-[0.2em]">
+        <span className="flex items-center gap-2"><Users size={12}/> Pending in the Safe</span>
+        {queueUrl && (
+          <a href={queueUrl} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 hover:text-base-blue">Open queue <ExternalLink size={10}/></a>
+        )}
+      </div>
+      {pending === null ? (
+        <Loader2 className="animate-spin text-base-blue" size={16}/>
+      ) : pending.length === 0 ? (
+        <p className="text-xs font-bold text-gray-400">No pending transactions for {name}.</p>
+      ) : (
+        pending.map(tx => (
+          <div key={tx.safeTxHash} className="flex items-center gap-3 text-xs font-bold text-gray-600">
+            <span className="font-mono text-gray-400">#{tx.nonce}</span>
+            <span className="flex-1 font-mono truncate">{tx.safeTxHash}</span>
+            <span className={tx.confirmations >= tx.confirmationsRequired ? 'text-green-600' : 'text-amber-600'}>
+              {tx.confirmations} of {tx.confirmationsRequired} signed
+            </span>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,99 @@
+import React, { useState } from "react";
+import { AlertCircle, CheckCircle2, Download, ExternalLink, Loader2, Send, ShieldCheck, X } from "lucide-react";
+import { BaseNamesClient, SafeTransactionService, describeTxError, safeBatchFile, safeQueueUrl } from "../lib";
+import type { ContractCall, SafeInfo } from "../lib";
+import { SafePending } from "./SafePending";
+
+interface SafeProposalProps {
+  safe: SafeInfo;
+  /** Name the calls change; used for the batch file and the pending list. */
+  name: string;
+  calls: ContractCall[];
+  client: BaseNamesClient;
+  getWriteClient: () => Promise<BaseNamesClient>;
+  onClose: () => void;
+}
+
+/**
+ * Hands writes for a Safe-owned name to the Safe: as a Transaction Builder
+ * batch file, or as a proposal signed by the connected owner.
+ */
+export const SafeProposal = ({ safe, name, calls, client, getWriteClient, onClose }: SafeProposalProps) => {
+  const [isProposing, setIsProposing] = useState(false);
+  const [status, setStatus] = useState<{type: 'success' | 'error', msg: string} | null>(null);
+  const [proposals, setProposals] = useState(0);
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(safeBatchFile(client, safe, calls, name), null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${name}-safe-batch.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handlePropose = async () => {
+    setStatus(null);
+    setIsProposing(true);
+    try {
+      const writer = await getWriteClient();
+      const safeTxHash = await new SafeTransactionService(client).propose(writer.signer!, safe, calls);
+      const remaining = Math.max(0, safe.threshold - 1);
+      setStatus({
+        type: 'success',
+        msg: remaining > 0
+          ? `Proposed ${safeTxHash.slice(0, 10)}... with your signature. ${remaining} more owner${remaining === 1 ? "" : "s"} must sign before it can run.`
+          : `Proposed ${safeTxHash.slice(0, 10)}... It has enough signatures and can be executed from the Safe.`
+      });
+      setProposals(n => n + 1);
+    } catch (err: any) {
+      setStatus({ type: 'error', msg: describeTxError(err, "Proposing failed.") });
+    } finally {
+      setIsProposing(false);
+    }
+  };
+
+  const queueUrl = safeQueueUrl(client, safe.address);
+
+  return (
+    <div className="p-5 bg-gray-50 rounded-2xl border border-gray-100 space-y-4">
+      <div className="flex items-start justify-between gap-3">
+        <p className="text-xs font-bold text-gray-600 flex items-start gap-2">
+          <ShieldCheck size={16} className="flex-shrink-0 text-base-blue"/>
+          <span>
+            {name} is owned by the Safe <span className="font-mono break-all">{safe.address}</span>, which needs {safe.threshold} of {safe.owners.length} owners to sign. You are one of them, so this change runs as a Safe transaction.
+          </span>
+        </p>
+        <button onClick={onClose} disabled={isProposing} className="text-gray-400 hover:text-gray-900 flex-shrink-0"><X size={16}/></button>
+      </div>
+
+      <ol className="space-y-1 text-xs font-bold text-gray-500 list-decimal list-inside">
+        {calls.map((call, i) => <li key={i}>{call.description}</li>)}
+      </ol>
+
+      {status && (
+        <div className={`p-4 rounded-2xl flex items-center gap-3 text-sm font-bold border break-all ${status.type === 'success' ? 'bg-green-50 text-green-700 border-green-100' : 'bg-red-50 text-red-600 border-red-100'}`}>
+          {status.type === 'success' ? <CheckCircle2 size={18} className="flex-shrink-0"/> : <AlertCircle size={18} className="flex-shrink-0"/>}
+          <span className="flex-1">{status.msg}</span>
+          {status.type === 'success' && queueUrl && (
+            <a href={queueUrl} target="_blank" rel="noopener noreferrer" className="flex-shrink-0 hover:opacity-70"><ExternalLink size={16}/></a>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-3">
+        <button onClick={handleExport} className="h-11 px-5 rounded-2xl text-xs font-black uppercase tracking-widest text-gray-500 hover:bg-gray-100 flex items-center gap-2">
+          <Download size={14}/> Batch JSON
+        </button>
+        {client.network.safe && (
+          <button onClick={handlePropose} disabled={isProposing} className="h-11 px-6 bg-base-blue text-white rounded-2xl font-black uppercase tracking-widest text-xs hover:bg-blue-600 disabled:bg-gray-100 disabled:text-gray-300 transition-all flex items-center gap-2">
+            {isProposing ? <Loader2 className="animate-spin" size={14}/> : <Send size={14}/>} Propose to Safe
+          </button>
+        )}
+      </div>
+
+      <SafePending safe={safe} name={name} client={client} refreshKey={proposals} />
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import React, { useState, useEffect } from "react";
+import { AlertCircle, BadgeCheck, Loader2, LogIn, LogOut, User } from "lucide-react";
+import { AuthServer, BaseNamesClient, browserStore, describeTxError, sameAddress } from "../lib";
+import type { SiweSession } from "../lib";
+import { Avatar } from "./Avatar";
+
+interface SignInPanelProps {
+  auth: AuthServer;
+  getWriteClient: () => Promise<BaseNamesClient>;
+  connectedAddress?: string | null;
+}
+
+const tokenKey = (auth: AuthServer) => `basenames:siwe:${auth.url}`;
+
+/** Signs the connected wallet in with EIP-4361 and shows the identity the server verified. */
+export const SignInPanel = ({ auth, getWriteClient, connectedAddress }: SignInPanelProps) => {
+  const [session, setSession] = useState<SiweSession | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Restore the session a previous visit left behind.
+  useEffect(() => {
+    setSession(null);
+    const token = browserStore.get(tokenKey(auth));
+    if (!token) return;
+    auth.session(token)
+      .then(restored => {
+        if (!restored) browserStore.remove(tokenKey(auth));
+        setSession(restored);
+      })
+      .catch(err => console.error("Session restore error:", err));
+  }, [auth]);
+
+  const handleSignIn = async () => {
+    setError(null);
+    setIsBusy(true);
+    try {
+      const writer = await getWriteClient();
+      const { token, session } = await auth.signIn(writer.signer!, window.location.host, window.location.origin);
+      browserStore.set(tokenKey(auth), token);
+      setSession(session);
+    } catch (err: any) {
+      setError(describeTxError(err, "Sign-in failed."));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    setError(null);
+    const token = browserStore.get(tokenKey(auth));
+    browserStore.remove(tokenKey(auth));
+    setSession(null);
+    if (token) await auth.signOut(token).catch(() => {});
+  };
+
+  const identity = session?.identity?.verified ? session.identity : null;
+
+  return (
+    <div className="space-y-4">
+      {session ? (
+        <div className="flex items-center gap-5">
+          <div className="w-14 h-14 rounded-2xl overflow-hidden bg-gray-50 border border-gray-100 flex-shrink-0">
+            <Avatar
+              src={identity?.avatar}
+              iconSize={18}
+              fallback={<div className="w-full h-full flex items-center justify-center text-gray-300"><User size={24}/></div>}
+            />
+          </div>
+          <div className="flex-1 min-w-0">
+            <p className="text-xl font-black text-gray-900 tracking-tight truncate flex items-center gap-2">
+              {identity?.name ?? `${session.address.slice(0, 6)}...${session.address.slice(-4)}`}
+              {identity && <BadgeCheck size={18} className="text-base-blue flex-shrink-0"/>}
+            </p>
+            <p className="text-xs font-bold text-gray-400">
+              Signed in to {session.domain}{session.expirationTime ? ` until ${new Date(session.expirationTime).toLocaleString()}` : ""}
+            </p>
+          </div>
+          <button onClick={handleSignOut} title="Sign out" className="w-10 h-10 flex items-center justify-center rounded-full bg-gray-50 border border-gray-100 text-gray-400 hover:text-red-500 transition-all flex-shrink-0">
+            <LogOut size={16}/>
+          </button>
+        </div>
+      ) : (
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm font-bold text-gray-400">Prove you control this wallet and its primary name by signing a message. No transaction is sent.</p>
+          <button
+            onClick={handleSignIn}
+            disabled={isBusy || !connectedAddress}
+            className="h-12 px-6 bg-black text-white rounded-2xl text-xs font-black uppercase tracking-widest hover:bg-gray-800 disabled:opacity-40 transition-all flex items-center gap-3 flex-shrink-0 active:scale-95"
+          >
+            {isBusy ? <Loader2 className="animate-spin" size={16}/> : <LogIn size={16}/>} Sign In
+          </button>
+        </div>
+      )}
+
+      {session && connectedAddress && !sameAddress(session.address, connectedAddress) && (
+        <p className="text-xs font-bold text-amber-600 flex items-start gap-2">
+          <AlertCircle size={14} className="flex-shrink-0 mt-px"/> This session belongs to another wallet. Sign out to sign in with the connected one.
+        </p>
+      )}
+      {error && (
+        <p className="text-xs font-bold text-red-600 flex items-start gap-2">
+          <AlertCircle size={14} className="flex-shrink-0 mt-px"/> {error}
+        </p>
+      )}
+    </div>
+  );
+};
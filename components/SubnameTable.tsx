@@ -0,0 +1,239 @@
+import React, { useState, useEffect, useRef } from "react";
+import { ethers } from "ethers";
+import { AlertCircle, AlertTriangle, Ban, CheckCircle2, Loader2, RotateCcw, Server, UserCog, X } from "lucide-react";
+import {
+  BaseNamesClient,
+  clearSubnameScan,
+  describeTxError,
+  inspectName,
+  listSubnames,
+  loadLabels,
+  loadSubnameScan,
+  saveSubnameScan,
+  sameAddress,
+  scanSubnamesPage,
+  toNodeHash
+} from "../lib";
+import type { SubnameEntry, SubnameScan } from "../lib";
+import { TxLink } from "./TxLink";
+
+interface SubnameTableProps {
+  parent: string;
+  client: BaseNamesClient;
+  getWriteClient: () => Promise<BaseNamesClient>;
+  connectedAddress?: string | null;
+  /** Bump to re-read owners after subnames were issued elsewhere. */
+  refreshKey?: number;
+}
+
+type SubnameAction = { entry: SubnameEntry; kind: 'reassign' | 'revoke' | 'resolver'; value: string };
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+export const SubnameTable = ({ parent, client, getWriteClient, connectedAddress, refreshKey = 0 }: SubnameTableProps) => {
+  const cleanParent = parent.trim() ? inspectName(parent).normalized ?? "" : "";
+  const [entries, setEntries] = useState<SubnameEntry[]>([]);
+  const [parentOwner, setParentOwner] = useState<string | null>(null);
+  const [scan, setScan] = useState<SubnameScan | null>(null);
+  const [headBlock, setHeadBlock] = useState<number | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const [runId, setRunId] = useState(0);
+  const [action, setAction] = useState<SubnameAction | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const [status, setStatus] = useState<{type: 'success' | 'error', msg: string, txHash?: string} | null>(null);
+  const scanRef = useRef<SubnameScan | null>(null);
+
+  const relist = async (current: SubnameScan) => {
+    setEntries(await listSubnames(client, cleanParent, current, loadLabels()));
+  };
+
+  useEffect(() => {
+    setEntries([]);
+    setParentOwner(null);
+    setScan(null);
+    setAction(null);
+    setStatus(null);
+    scanRef.current = null;
+  }, [client, cleanParent]);
+
+  useEffect(() => {
+    if (!cleanParent) return;
+    let cancelled = false;
+
+    const run = async () => {
+      // Wait for typing to settle before scanning a parent that may not exist.
+      await new Promise(resolve => setTimeout(resolve, 500));
+      if (cancelled) return;
+      setIsScanning(true);
+      try {
+        const owner: string = await client.registry().owner(toNodeHash(cleanParent));
+        if (cancelled) return;
+        setParentOwner(owner);
+        if (owner === ethers.ZeroAddress) return;
+
+        const head = await client.provider.getBlockNumber();
+        if (cancelled) return;
+        setHeadBlock(head);
+
+        let current = scanRef.current ?? loadSubnameScan(client, cleanParent);
+        await relist(current);
+        while (!cancelled && current.nextBlock <= head) {
+          current = await scanSubnamesPage(client, current, { toBlock: head });
+          if (cancelled) return;
+          saveSubnameScan(client, current);
+          scanRef.current = current;
+          setScan(current);
+        }
+        if (!cancelled) await relist(current);
+      } catch (err: any) {
+        if (!cancelled) setStatus({ type: 'error', msg: err.shortMessage || err.message || "Scanning logs failed." });
+      } finally {
+        if (!cancelled) setIsScanning(false);
+      }
+    };
+
+    run();
+    return () => { cancelled = true; };
+  }, [client, cleanParent, runId, refreshKey]);
+
+  const handleRescan = () => {
+    clearSubnameScan(client, cleanParent);
+    scanRef.current = null;
+    setScan(null);
+    setEntries([]);
+    setRunId(id => id + 1);
+  };
+
+  const handleConfirm = async () => {
+    if (!action) return;
+    setStatus(null);
+    setIsSending(true);
+    try {
+      const writer = await getWriteClient();
+      const { entry, kind, value } = action;
+      const tx = kind === 'reassign'
+        ? await writer.setSubnameOwner(cleanParent, entry.labelHash, value)
+        : kind === 'revoke'
+          ? await writer.revokeSubname(cleanParent, entry.labelHash)
+          : await writer.setSubnameResolver(cleanParent, entry.labelHash, value);
+      setStatus({ type: 'success', msg: `Updating ${entry.name}...`, txHash: tx.hash });
+      await tx.wait();
+      setStatus({ type: 'success', msg: `${entry.name} updated.`, txHash: tx.hash });
+      setAction(null);
+      if (scanRef.current) await relist(scanRef.current);
+    } catch (err: any) {
+      setStatus({ type: 'error', msg: describeTxError(err, "Update failed.") });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  if (!cleanParent) return null;
+
+  const canManage = !!connectedAddress && !!parentOwner && sameAddress(parentOwner, connectedAddress);
+  const total = headBlock !== null ? headBlock - client.startBlock + 1 : 0;
+  const progress = scan && total > 0 ? Math.min(100, Math.floor(((scan.nextBlock - client.startBlock) / total) * 100)) : 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex-1">
+          <div className="flex items-center justify-between text-[10px] font-black text-gray-400 uppercase tracking-[0.2em] mb-2">
+            <span>
+              {parentOwner === ethers.ZeroAddress ? `${cleanParent} is not registered`
+                : isScanning ? "Scanning subnames"
+                : `${entries.length} subnames of ${cleanParent}`}
+            </span>
+            <span>{isScanning && headBlock !== null ? `${progress}%` : ""}</span>
+          </div>
+          <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div className="h-full bg-base-blue transition-all duration-500" style={{ width: `${isScanning ? progress : 100}%` }}></div>
+          </div>
+        </div>
+        <button onClick={handleRescan} disabled={isScanning} title="Rescan from the start" className="w-10 h-10 flex items-center justify-center rounded-full bg-gray-50 border border-gray-100 text-gray-400 hover:text-base-blue disabled:opacity-40">
+          <RotateCcw size={16}/>
+        </button>
+      </div>
+
+      {entries.length > 0 && (
+        <div className="max-h-96 overflow-auto border border-gray-100 rounded-2xl">
+          <table className="w-full text-xs">
+            <thead className="bg-gray-50 text-[10px] font-black text-gray-400 uppercase tracking-[0.15em] sticky top-0">
+              <tr>
+                <th className="text-left px-4 py-3">Name</th>
+                <th className="text-left px-4 py-3">Owner</th>
+                <th className="text-left px-4 py-3">Resolver</th>
+                <th className="text-right px-4 py-3">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map(entry => {
+                const revoked = entry.owner === ethers.ZeroAddress;
+                return (
+                  <tr key={entry.node} className="border-t border-gray-100">
+                    <td className={`px-4 py-3 font-bold break-all ${revoked ? 'text-gray-300 line-through' : 'text-gray-900'}`}>{entry.name}</td>
+                    <td className="px-4 py-3 font-mono text-gray-500">{revoked ? "Revoked" : shortAddress(entry.owner)}</td>
+                    <td className="px-4 py-3 font-mono text-gray-500">{entry.resolver === ethers.ZeroAddress ? "None" : shortAddress(entry.resolver)}</td>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center justify-end gap-2">
+                        <button onClick={() => setAction({ entry, kind: 'reassign', value: "" })} disabled={!canManage || isSending} title="Reassign" className="w-8 h-8 flex items-center justify-center rounded-full bg-gray-50 border border-gray-100 text-gray-400 hover:text-base-blue disabled:opacity-40"><UserCog size={14}/></button>
+                        <button onClick={() => setAction({ entry, kind: 'resolver', value: client.addresses.resolver })} disabled={!canManage || isSending || revoked} title="Set resolver" className="w-8 h-8 flex items-center justify-center rounded-full bg-gray-50 border border-gray-100 text-gray-400 hover:text-base-blue disabled:opacity-40"><Server size={14}/></button>
+                        <button onClick={() => setAction({ entry, kind: 'revoke', value: "" })} disabled={!canManage || isSending || revoked} title="Revoke" className="w-8 h-8 flex items-center justify-center rounded-full bg-gray-50 border border-gray-100 text-gray-400 hover:text-red-500 disabled:opacity-40"><Ban size={14}/></button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {action && (
+        <div className="p-5 bg-gray-50 rounded-2xl border border-gray-100 space-y-4">
+          <div className="flex items-center justify-between text-xs font-black text-gray-900">
+            <span>
+              {action.kind === 'reassign' ? "Reassign" : action.kind === 'revoke' ? "Revoke" : "Set resolver for"} {action.entry.name}
+            </span>
+            <button onClick={() => setAction(null)} disabled={isSending} className="text-gray-400 hover:text-gray-900"><X size={16}/></button>
+          </div>
+          {action.kind !== 'revoke' && (
+            <input
+              type="text"
+              value={action.value}
+              onChange={(e) => setAction({ ...action, value: e.target.value })}
+              placeholder={action.kind === 'reassign' ? "New owner 0x..." : "Resolver 0x..."}
+              className="w-full bg-white border border-gray-100 rounded-2xl px-5 py-3 text-sm font-mono font-bold outline-none focus:border-base-blue transition-all"
+            />
+          )}
+          {action.kind !== 'resolver' && action.entry.owner !== ethers.ZeroAddress && (
+            <p className="text-xs font-bold text-amber-600 flex items-start gap-2">
+              <AlertTriangle size={14} className="flex-shrink-0 mt-px"/>
+              {action.kind === 'revoke'
+                ? `${shortAddress(action.entry.owner)} will lose control of ${action.entry.name}. Its records stay on the resolver.`
+                : `This replaces the current owner ${shortAddress(action.entry.owner)}.`}
+            </p>
+          )}
+          <div className="flex justify-end">
+            <button
+              onClick={handleConfirm}
+              disabled={isSending || (action.kind !== 'revoke' && !ethers.isAddress(action.value.trim()))}
+              className={`h-11 px-6 text-white rounded-2xl font-black uppercase tracking-widest text-xs transition-all flex items-center gap-2 disabled:bg-gray-100 disabled:text-gray-300 ${action.kind === 'revoke' ? 'bg-red-500 hover:bg-red-600' : 'bg-base-blue hover:bg-blue-600'}`}
+            >
+              {isSending && <Loader2 className="animate-spin" size={14}/>}
+              Confirm
+            </button>
+          </div>
+        </div>
+      )}
+
+      {status && (
+        <div className={`p-4 rounded-2xl flex items-center gap-3 text-sm font-bold border break-all ${status.type === 'success' ? 'bg-green-50 text-green-700 border-green-100' : 'bg-red-50 text-red-600 border-red-100'}`}>
+          {status.type === 'success' ? <CheckCircle2 size={18} className="flex-shrink-0"/> : <AlertCircle size={18} className="flex-shrink-0"/>}
+          <span className="flex-1">{status.msg}</span>
+          <TxLink network={client.network} hash={status.txHash} />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,160 @@
+import React, { useState, useEffect } from "react";
+import { CheckCircle2, AlertCircle, Loader2, Plus, Save, Undo2, X } from "lucide-react";
+import { BaseNamesClient, TEXT_RECORD_KEYS, describeTxError, diffTextRecords } from "../lib";
+import type { ContractCall, SafeInfo } from "../lib";
+import { SafeProposal } from "./SafeProposal";
+
+interface TextRecordEditorProps {
+  name: string;
+  resolver: string;
+  client: BaseNamesClient;
+  getWriteClient: () => Promise<BaseNamesClient>;
+  /** Safe that owns `name`; saving then drafts a Safe transaction instead of sending one. */
+  safe?: SafeInfo | null;
+  onSaved?: () => void;
+}
+
+export const TextRecordEditor = ({ name, resolver, client, getWriteClient, safe, onSaved }: TextRecordEditorProps) => {
+  const [original, setOriginal] = useState<Record<string, string>>({});
+  const [draft, setDraft] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [newKey, setNewKey] = useState("");
+  const [status, setStatus] = useState<{type: 'success' | 'error', msg: string} | null>(null);
+  const [safeCalls, setSafeCalls] = useState<ContractCall[] | null>(null);
+
+  const load = async () => {
+    setIsLoading(true);
+    try {
+      const records = await client.getTextRecords(name, TEXT_RECORD_KEYS, resolver);
+      setOriginal(records);
+      setDraft(records);
+    } catch (err) {
+      setStatus({ type: 'error', msg: "Could not load text records." });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setStatus(null);
+    load();
+  }, [name, resolver]);
+
+  const changes = diffTextRecords(original, draft);
+
+  const addCustomKey = () => {
+    const key = newKey.trim();
+    if (!key || key in draft) return;
+    setDraft(prev => ({ ...prev, [key]: "" }));
+    setNewKey("");
+  };
+
+  const removeCustomKey = (key: string) => {
+    setDraft(prev => {
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    setStatus(null);
+    if (safe) {
+      setSafeCalls([client.recordsCall(name, { texts: changes }, resolver)]);
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const writer = await getWriteClient();
+      const tx = await writer.setTextRecords(name, changes, resolver);
+      await tx.wait();
+      setOriginal(draft);
+      setStatus({ type: 'success', msg: `Saved ${changes.length} record${changes.length === 1 ? "" : "s"}.` });
+      onSaved?.();
+    } catch (err: any) {
+      setStatus({ type: 'error', msg: describeTxError(err, "Saving records failed.") });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-3 text-gray-400 text-xs font-black uppercase tracking-widest py-6">
+        <Loader2 className="animate-spin" size={16}/> Loading records
+      </div>
+    );
+  }
+
+  const customKeys = Object.keys(draft).filter(key => !TEXT_RECORD_KEYS.includes(key));
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {[...TEXT_RECORD_KEYS, ...customKeys].map(key => (
+          <label key={key} className="block">
+            <span className="text-[10px] font-black text-gray-400 uppercase tracking-[0.2em] flex items-center justify-between mb-2">
+              {key}
+              {customKeys.includes(key) && !(key in original) && (
+                <button type="button" onClick={() => removeCustomKey(key)} className="text-gray-300 hover:text-red-500"><X size={12}/></button>
+              )}
+            </span>
+            <input
+              type="text"
+              value={draft[key] ?? ""}
+              onChange={(e) => setDraft(prev => ({ ...prev, [key]: e.target.value }))}
+              className={`w-full bg-gray-50 border rounded-2xl px-4 py-3 text-sm font-bold outline-none focus:border-base-blue focus:bg-white transition-all ${(draft[key] ?? "") !== (original[key] ?? "") ? 'border-base-blue/50' : 'border-gray-100'}`}
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-3">
+        <input
+          type="text"
+          value={newKey}
+          onChange={(e) => setNewKey(e.target.value)}
+          placeholder="Custom key (e.g. com.farcaster)"
+          className="flex-1 bg-gray-50 border border-gray-100 rounded-2xl px-4 py-3 text-sm font-bold outline-none focus:border-base-blue focus:bg-white transition-all"
+        />
+        <button type="button" onClick={addCustomKey} disabled={!newKey.trim()} className="h-11 px-5 bg-gray-100 rounded-2xl text-xs font-black uppercase tracking-widest text-gray-600 hover:bg-gray-200 disabled:opacity-50 flex items-center gap-2">
+          <Plus size={14}/> Add
+        </button>
+      </div>
+
+      {changes.length > 0 && (
+        <div className="bg-gray-50 border border-gray-100 rounded-2xl p-5 space-y-2">
+          <span className="text-[10px] font-black text-gray-400 uppercase tracking-[0.2em] block mb-2">Pending Changes</span>
+          {changes.map(change => (
+            <div key={change.key} className="text-xs font-mono break-all">
+              <span className="font-bold text-gray-900">{change.key}</span>
+              {change.from && <span className="text-red-500 line-through ml-3">{change.from}</span>}
+              {change.to ? <span className="text-green-600 ml-3">{change.to}</span> : <span className="text-gray-400 ml-3">(cleared)</span>}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {safe && safeCalls && (
+        <SafeProposal safe={safe} name={name} calls={safeCalls} client={client} getWriteClient={getWriteClient} onClose={() => setSafeCalls(null)} />
+      )}
+
+      {status && (
+        <div className={`p-4 rounded-2xl flex items-center gap-3 text-sm font-bold border ${status.type === 'success' ? 'bg-green-50 text-green-700 border-green-100' : 'bg-red-50 text-red-600 border-red-100'}`}>
+          {status.type === 'success' ? <CheckCircle2 size={18}/> : <AlertCircle size={18}/>} {status.msg}
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-3">
+        <button type="button" onClick={() => setDraft(original)} disabled={changes.length === 0 || isSaving} className="h-12 px-6 rounded-2xl text-xs font-black uppercase tracking-widest text-gray-500 hover:bg-gray-100 disabled:opacity-40 flex items-center gap-2">
+          <Undo2 size={16}/> Reset
+        </button>
+        <button type="button" onClick={handleSave} disabled={changes.length === 0 || isSaving} className="h-12 px-8 bg-base-blue text-white rounded-2xl font-black uppercase tracking-widest text-xs hover:bg-blue-600 disabled:bg-gray-50 disabled:text-gray-200 transition-all flex items-center gap-3 shadow-xl shadow-blue-500/20 active:scale-95">
+          {isSaving ? <Loader2 className="animate-spin" size={16}/> : <Save size={16}/>}
+          {isSaving ? "Saving..." : `Save ${changes.length || ""} Change${changes.length === 1 ? "" : "s"}`}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,49 @@
+import React from "react";
+import { ethers } from "ethers";
+import { ShieldCheck, X } from "lucide-react";
+import type { NetworkConfig, TxPreview } from "../lib";
+
+interface TxConfirmProps {
+  preview: TxPreview;
+  network: NetworkConfig;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// Base fees are fractions of a cent, so show significant digits rather than fixed decimals.
+const formatEth = (wei: bigint) =>
+  `${Number(ethers.formatEther(wei)).toLocaleString(undefined, { maximumSignificantDigits: 3 })} ETH`;
+
+/** Shows a simulated write and its estimated cost before the wallet prompt. */
+export const TxConfirm = ({ preview, network, onConfirm, onCancel }: TxConfirmProps) => (
+  <div className="fixed inset-0 z-[60] bg-black/30 backdrop-blur-sm flex items-center justify-center p-6" onClick={onCancel}>
+    <div className="w-full max-w-sm bg-white rounded-[1.5rem] p-6 shadow-xl space-y-5" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center justify-between">
+        <h3 className="font-black text-lg text-gray-900">Confirm transaction</h3>
+        <button onClick={onCancel} className="text-gray-400 hover:text-gray-900"><X size={18}/></button>
+      </div>
+      <div>
+        <p className="font-bold text-gray-900 break-all">{preview.description}</p>
+        <p className="text-xs font-bold text-green-600 flex items-center gap-1.5 mt-2">
+          <ShieldCheck size={14}/> Simulation succeeded on {network.name}
+        </p>
+      </div>
+      <div className="p-4 bg-gray-50 rounded-2xl border border-gray-100 space-y-2 text-sm font-bold">
+        {preview.value > 0n && (
+          <div className="flex justify-between text-gray-500"><span>Payment</span><span className="font-mono">{formatEth(preview.value)}</span></div>
+        )}
+        <div className="flex justify-between text-gray-500"><span>L2 execution fee</span><span className="font-mono">{formatEth(preview.l2Fee)}</span></div>
+        <div className="flex justify-between text-gray-500">
+          <span>L1 data fee</span>
+          <span className="font-mono">{preview.l1Fee !== null ? formatEth(preview.l1Fee) : "Unavailable"}</span>
+        </div>
+        <div className="flex justify-between text-gray-900 pt-2 border-t border-gray-100"><span>Estimated total</span><span className="font-mono">{formatEth(preview.total)}</span></div>
+      </div>
+      <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">{preview.gasLimit.toString()} gas · fees are estimates</p>
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="h-11 px-5 rounded-2xl font-black uppercase tracking-widest text-xs bg-gray-50 border border-gray-100 text-gray-500 hover:text-gray-900">Cancel</button>
+        <button onClick={onConfirm} className="h-11 px-6 rounded-2xl font-black uppercase tracking-widest text-xs bg-base-blue text-white hover:bg-blue-600">Continue in wallet</button>
+      </div>
+    </div>
+  </div>
+);
@@ -0,0 +1,11 @@
+import React from "react";
+import { ExternalLink } from "lucide-react";
+import { txUrl } from "../lib";
+import type { NetworkConfig } from "../lib";
+
+/** Explorer link for `hash`; renders nothing on networks without an explorer. */
+export const TxLink = ({ network, hash, size = 16, className = "flex-shrink-0 hover:opacity-70" }: { network: NetworkConfig, hash?: string, size?: number, className?: string }) => {
+  const url = hash ? txUrl(network, hash) : null;
+  if (!url) return null;
+  return <a href={url} target="_blank" className={className}><ExternalLink size={size}/></a>;
+};
@@ -0,0 +1,47 @@
+import React from "react";
+import { Wallet, X } from "lucide-react";
+import type { WalletConnector } from "../lib";
+
+interface WalletPickerProps {
+  wallets: WalletConnector[];
+  /** Id of the wallet currently being connected, if any. */
+  connectingId?: string | null;
+  onSelect: (wallet: WalletConnector) => void;
+  onClose: () => void;
+}
+
+/** Modal listing the wallets discovered in the browser. */
+export const WalletPicker = ({ wallets, connectingId, onSelect, onClose }: WalletPickerProps) => (
+  <div className="fixed inset-0 z-[60] bg-black/30 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+    <div className="w-full max-w-sm bg-white rounded-[1.5rem] p-6 shadow-xl space-y-4" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center justify-between">
+        <h3 className="font-black text-lg text-gray-900">Connect a wallet</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-900"><X size={18}/></button>
+      </div>
+      {wallets.length === 0 ? (
+        <p className="text-sm font-medium text-gray-500 leading-relaxed">
+          No browser wallet was detected. Install a wallet such as{" "}
+          <a href="https://www.coinbase.com/wallet" target="_blank" className="text-base-blue font-bold hover:underline">Coinbase Wallet</a>{" "}
+          and reload the page.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {wallets.map(wallet => (
+            <button
+              key={wallet.id}
+              onClick={() => onSelect(wallet)}
+              disabled={!!connectingId}
+              className="w-full flex items-center gap-3 p-3 rounded-2xl border border-gray-100 bg-gray-50 hover:border-base-blue hover:bg-blue-50 transition-all disabled:opacity-50 text-left"
+            >
+              <div className="w-9 h-9 rounded-xl overflow-hidden bg-white border border-gray-100 flex items-center justify-center flex-shrink-0">
+                {wallet.icon ? <img src={wallet.icon} alt="" className="w-full h-full object-contain"/> : <Wallet size={18} className="text-gray-400"/>}
+              </div>
+              <span className="flex-1 font-bold text-sm text-gray-900">{wallet.name}</span>
+              {connectingId === wallet.id && <span className="text-[10px] font-black text-base-blue uppercase tracking-widest">Connecting</span>}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  </div>
+);
@@ -0,0 +1,194 @@
+import React, { useState, useEffect } from "react";
+import { AlertCircle, CheckCircle2, Loader2, Package, ShieldCheck } from "lucide-react";
+import { BaseNamesClient, FUSE_DESCRIPTIONS, childFuseError, describeTxError, encodeFuses, inspectLabel, inspectName, rememberName, sameAddress } from "../lib";
+import type { FuseName, WrappedState } from "../lib";
+import { NameIssues } from "./NameIssues";
+import { TxLink } from "./TxLink";
+
+interface WrappedSubnameIssuerProps {
+  parent: string;
+  client: BaseNamesClient;
+  getWriteClient: () => Promise<BaseNamesClient>;
+  connectedAddress?: string | null;
+  onIssued?: () => void;
+}
+
+// Fuses a parent may burn on a subname, in the order they unlock.
+const CHILD_FUSES: FuseName[] = [
+  "PARENT_CANNOT_CONTROL",
+  "CANNOT_UNWRAP",
+  "CANNOT_TRANSFER",
+  "CANNOT_SET_RESOLVER",
+  "CANNOT_SET_TTL",
+  "CANNOT_CREATE_SUBDOMAIN",
+  "CANNOT_APPROVE",
+  "CANNOT_BURN_FUSES",
+  "CAN_EXTEND_EXPIRY"
+];
+
+// Clamped to the last date an <input type="date"> accepts; unexpiring
+// names report the maximum uint64.
+const toDateInput = (seconds: number) => new Date(Math.min(seconds, 253402214400) * 1000).toISOString().slice(0, 10);
+
+export const WrappedSubnameIssuer = ({ parent, client, getWriteClient, connectedAddress, onIssued }: WrappedSubnameIssuerProps) => {
+  const cleanParent = parent.trim() ? inspectName(parent).normalized ?? "" : "";
+  const [parentState, setParentState] = useState<WrappedState | null | undefined>(undefined);
+  const [label, setLabel] = useState("");
+  const [owner, setOwner] = useState("");
+  const [fuses, setFuses] = useState<FuseName[]>(["PARENT_CANNOT_CONTROL", "CANNOT_UNWRAP"]);
+  const [expiry, setExpiry] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [status, setStatus] = useState<{type: 'success' | 'error', msg: string, txHash?: string} | null>(null);
+
+  const loadParent = async () => {
+    const state = await client.getWrappedState(cleanParent).catch(() => null);
+    setParentState(state);
+    if (state) setExpiry(toDateInput(state.expiry));
+  };
+
+  useEffect(() => {
+    setParentState(undefined);
+    setStatus(null);
+    if (cleanParent) loadParent();
+  }, [client, cleanParent]);
+
+  const toggleFuse = (fuse: FuseName) => {
+    setFuses(prev => prev.includes(fuse) ? prev.filter(f => f !== fuse) : [...prev, fuse]);
+  };
+
+  const handleWrap = async () => {
+    setStatus(null);
+    setIsSending(true);
+    try {
+      const writer = await getWriteClient();
+      const tx = await writer.wrapName(cleanParent, (msg, stepTx) => setStatus({ type: 'success', msg, txHash: stepTx.hash }));
+      setStatus({ type: 'success', msg: `Wrapping ${cleanParent}...`, txHash: tx.hash });
+      await tx.wait();
+      setStatus({ type: 'success', msg: `${cleanParent} is wrapped.`, txHash: tx.hash });
+      await loadParent();
+    } catch (err: any) {
+      setStatus({ type: 'error', msg: describeTxError(err, "Wrapping failed.") });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleIssue = async () => {
+    setStatus(null);
+    setIsSending(true);
+    try {
+      const writer = await getWriteClient();
+      const tx = await writer.createWrappedSubname(cleanParent, label, owner, {
+        fuses: encodeFuses(fuses),
+        expiry: expiry ? Math.floor(Date.parse(expiry) / 1000) : undefined
+      });
+      const fullName = `${inspectLabel(label).normalized}.${cleanParent}`;
+      setStatus({ type: 'success', msg: `Issuing ${fullName}...`, txHash: tx.hash });
+      await tx.wait();
+      rememberName(fullName);
+      setStatus({ type: 'success', msg: `Issued ${fullName}.`, txHash: tx.hash });
+      setLabel("");
+      onIssued?.();
+    } catch (err: any) {
+      setStatus({ type: 'error', msg: describeTxError(err, "Issuing failed.") });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  if (!client.hasNameWrapper) {
+    return (
+      <div className="flex items-start gap-3 text-sm font-bold text-gray-500">
+        <Package size={18} className="flex-shrink-0 mt-0.5"/>
+        No NameWrapper is configured for this network, so subnames can only be issued unwrapped.
+      </div>
+    );
+  }
+
+  if (!cleanParent || parentState === undefined) {
+    return cleanParent ? <Loader2 className="animate-spin text-base-blue" size={24}/> : (
+      <p className="text-sm font-bold text-gray-400">Enter a parent name to issue wrapped subnames.</p>
+    );
+  }
+
+  const labelReport = label.trim() ? inspectLabel(label) : null;
+  const fuseError = parentState ? childFuseError(encodeFuses(fuses), parentState.fuses) : null;
+  const isParentOwner = !!parentState && sameAddress(parentState.owner, connectedAddress);
+
+  return (
+    <div className="space-y-6">
+      {!parentState ? (
+        <div className="space-y-4">
+          <p className="text-sm font-bold text-gray-500">{cleanParent} is not wrapped yet. Wrapping it lets you issue subnames with fuses the parent cannot override.</p>
+          <button onClick={handleWrap} disabled={isSending || !connectedAddress} className="h-12 px-8 bg-base-blue text-white rounded-2xl font-black uppercase tracking-widest text-xs hover:bg-blue-600 disabled:bg-gray-50 disabled:text-gray-200 transition-all flex items-center gap-3">
+            {isSending ? <Loader2 className="animate-spin" size={16}/> : <Package size={16}/>} Wrap {cleanParent}
+          </button>
+        </div>
+      ) : (
+        <>
+          <div className="flex items-center">
+            <input
+              type="text"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="e.g. brew"
+              className="flex-1 bg-gray-50 border border-gray-100 rounded-l-2xl px-5 py-4 text-lg font-bold outline-none focus:border-base-blue focus:bg-white transition-all"
+            />
+            <div className="bg-gray-100 border border-l-0 border-gray-100 px-6 py-4 rounded-r-2xl text-gray-400 text-sm font-black uppercase tracking-widest">.{cleanParent}</div>
+          </div>
+          <NameIssues report={labelReport} />
+          <input
+            type="text"
+            value={owner}
+            onChange={(e) => setOwner(e.target.value)}
+            placeholder="Owner 0x..."
+            className="w-full bg-gray-50 border border-gray-100 rounded-2xl px-5 py-4 text-sm font-mono font-bold outline-none focus:border-base-blue focus:bg-white transition-all"
+          />
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {CHILD_FUSES.map(fuse => (
+              <label key={fuse} title={fuse} className="flex items-center gap-3 text-xs font-bold text-gray-500 cursor-pointer select-none">
+                <input type="checkbox" checked={fuses.includes(fuse)} onChange={() => toggleFuse(fuse)} className="w-4 h-4 accent-[#0052FF]" />
+                {FUSE_DESCRIPTIONS[fuse]}
+              </label>
+            ))}
+          </div>
+
+          <label className="flex items-center justify-between gap-4 text-xs font-bold text-gray-500">
+            Expires
+            <input
+              type="date"
+              value={expiry}
+              max={toDateInput(parentState.expiry)}
+              onChange={(e) => setExpiry(e.target.value)}
+              className="bg-gray-50 border border-gray-100 rounded-xl px-4 py-2 font-mono outline-none focus:border-base-blue"
+            />
+          </label>
+
+          {fuseError && (
+            <p className="text-xs font-bold text-amber-600 flex items-start gap-2"><AlertCircle size={14} className="flex-shrink-0 mt-px"/> {fuseError}</p>
+          )}
+
+          <div className="flex justify-end">
+            <button
+              onClick={handleIssue}
+              disabled={isSending || !isParentOwner || !labelReport?.normalized || !owner || !!fuseError}
+              className="h-14 px-12 bg-base-blue text-white rounded-2xl font-black uppercase tracking-widest text-xs hover:bg-blue-600 disabled:bg-gray-50 disabled:text-gray-200 transition-all flex items-center gap-3 shadow-2xl shadow-blue-500/20 active:scale-95"
+            >
+              {isSending ? <Loader2 className="animate-spin" size={20}/> : <ShieldCheck size={20}/>}
+              {isSending ? "Processing..." : "Issue Wrapped Subname"}
+            </button>
+          </div>
+        </>
+      )}
+
+      {status && (
+        <div className={`p-4 rounded-2xl flex items-center gap-3 text-sm font-bold border break-all ${status.type === 'success' ? 'bg-green-50 text-green-700 border-green-100' : 'bg-red-50 text-red-600 border-red-100'}`}>
+          {status.type === 'success' ? <CheckCircle2 size={18} className="flex-shrink-0"/> : <AlertCircle size={18} className="flex-shrink-0"/>}
+          <span className="flex-1">{status.msg}</span>
+          <TxLink network={client.network} hash={status.txHash} />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import { EMBED_RESIZE_MESSAGE, routePath } from "./lib/paths";
+
+// Built to `/embed.js`. Host pages load it as a module script and use
+// `<base-name-card name="alice.base.eth"></base-name-card>`.
+const APP_ORIGIN = new URL(import.meta.url).origin;
+
+/**
+ * `<base-name-card name="...">`: the app's `/embed/:name` card in an
+ * iframe, resized to fit its content.
+ */
+class BaseNameCard extends HTMLElement {
+  static observedAttributes = ["name"];
+
+  #frame: HTMLIFrameElement;
+
+  constructor() {
+    super();
+    this.#frame = document.createElement("iframe");
+    this.#frame.title = "Base name profile";
+    this.#frame.loading = "lazy";
+    this.#frame.style.cssText = "display:block;width:100%;height:140px;border:0;background:transparent;color-scheme:normal;";
+    const shadow = this.attachShadow({ mode: "open" });
+    const style = document.createElement("style");
+    style.textContent = ":host{display:block;max-width:480px;}";
+    shadow.append(style, this.#frame);
+  }
+
+  connectedCallback() {
+    window.addEventListener("message", this.#handleMessage);
+    this.#update();
+  }
+
+  disconnectedCallback() {
+    window.removeEventListener("message", this.#handleMessage);
+  }
+
+  attributeChangedCallback() {
+    this.#update();
+  }
+
+  #update() {
+    const name = this.getAttribute("name")?.trim();
+    const src = name ? `${APP_ORIGIN}${routePath({ page: "embed", name })}` : "about:blank";
+    if (this.#frame.src !== src) this.#frame.src = src;
+  }
+
+  #handleMessage = (event: MessageEvent) => {
+    if (event.source !== this.#frame.contentWindow || event.origin !== APP_ORIGIN) return;
+    if (event.data?.type === EMBED_RESIZE_MESSAGE && typeof event.data.height === "number") {
+      this.#frame.style.height = `${Math.ceil(event.data.height)}px`;
+    }
+  };
+}
+
+if (!customElements.get("base-name-card")) customElements.define("base-name-card", BaseNameCard);
@@ -0,0 +1,202 @@
+import type { IncomingMessage, Server } from "node:http";
+import { ethers } from "ethers";
+import {
+  BaseNamesClient,
+  ISSUE_SUBNAME_TYPES,
+  MAX_SIGNATURE_AGE_SECONDS,
+  REVOKE_SUBNAME_TYPES,
+  UPDATE_RECORDS_TYPES,
+  answerResolverCall,
+  encodeResolveResponse,
+  gatewayDomain,
+  normalizeLabel,
+  normalizeName,
+  offchainResponseHash,
+  parseResolveRequest,
+  sameAddress,
+  toNodeHash
+} from "../lib";
+import type { OffchainSubname } from "../lib";
+import { HttpError, createJsonServer, readBody } from "../server/http";
+import type { SubnameDatabase } from "./database";
+
+export interface GatewayOptions {
+  /** Client for the chain whose registry decides who may issue subnames. */
+  client: BaseNamesClient;
+  db: SubnameDatabase;
+  /** Key the offchain resolver trusts as its signer. */
+  signingKey: ethers.SigningKey;
+  /** How long a signed answer stays valid onchain. */
+  ttlSeconds: bigint;
+}
+
+/**
+ * HTTP server for the subname API and the CCIP-Read endpoint offchain
+ * resolvers call. It is returned unstarted; call `listen` on it.
+ */
+export const createGatewayServer = ({ client, db, signingKey, ttlSeconds }: GatewayOptions): Server => {
+  const checkTimestamp = (timestamp: unknown): number => {
+    const value = Number(timestamp);
+    if (!Number.isInteger(value) || Math.abs(Date.now() / 1000 - value) > MAX_SIGNATURE_AGE_SECONDS) {
+      throw new HttpError(400, "The signature has expired. Sign the request again.");
+    }
+    return value;
+  };
+
+  const recoverSigner = (types: Record<string, ethers.TypedDataField[]>, message: Record<string, unknown>, signature: unknown): string => {
+    try {
+      return ethers.verifyTypedData(gatewayDomain(client.chainId), types, message, String(signature));
+    } catch {
+      throw new HttpError(400, "Invalid signature.");
+    }
+  };
+
+  // Owner of `name` onchain, looking through the NameWrapper when it holds the name.
+  const onchainOwner = async (name: string): Promise<string> => {
+    const wrapped = await client.getWrappedState(name).catch(() => null);
+    if (wrapped) return wrapped.owner;
+    return client.registry().owner(toNodeHash(name));
+  };
+
+  const requireParentOwner = async (parent: string, signer: string): Promise<void> => {
+    if (!sameAddress(await onchainOwner(parent), signer)) throw new HttpError(403, `The signer doesn't own ${parent}.`);
+  };
+
+  // Normalizes a name from the URL; an invalid one is the client's error.
+  const nameParam = (input: string): string => {
+    try {
+      return normalizeName(input);
+    } catch (err: any) {
+      throw new HttpError(400, err.message);
+    }
+  };
+
+  const requireSubname = (name: string): OffchainSubname => {
+    const entry = db.get(name);
+    if (!entry) throw new HttpError(404, `${name} is not served by this gateway.`);
+    return entry;
+  };
+
+  const issue = async (body: any): Promise<OffchainSubname> => {
+    const timestamp = checkTimestamp(body.timestamp);
+    let parent: string, label: string;
+    try {
+      parent = normalizeName(String(body.parent ?? ""));
+      label = normalizeLabel(String(body.label ?? ""));
+    } catch (err: any) {
+      throw new HttpError(400, err.message);
+    }
+    if (!ethers.isAddress(body.owner)) throw new HttpError(400, "Invalid owner address.");
+    const owner = ethers.getAddress(body.owner);
+    const signer = recoverSigner(ISSUE_SUBNAME_TYPES, { parent, label, owner, timestamp }, body.signature);
+    await requireParentOwner(parent, signer);
+
+    const name = `${label}.${parent}`;
+    if (timestamp <= db.lastChange(name)) throw new HttpError(409, "A newer change to this subname exists.");
+    // The onchain registry wins: a subname issued there can't be shadowed offchain.
+    if ((await client.getSubnameOwner(parent, label)) !== ethers.ZeroAddress) {
+      throw new HttpError(409, `${name} is already issued onchain.`);
+    }
+
+    const entry: OffchainSubname = {
+      name,
+      parent,
+      label,
+      owner,
+      records: { address: owner, texts: {} },
+      issuedAt: timestamp,
+      updatedAt: timestamp
+    };
+    db.put(entry);
+    return entry;
+  };
+
+  const updateRecords = (name: string, body: any): OffchainSubname => {
+    const entry = requireSubname(name);
+    const timestamp = checkTimestamp(body.timestamp);
+    if (!ethers.isAddress(body.addr)) throw new HttpError(400, "Invalid address.");
+    if (!Array.isArray(body.texts) || !body.texts.every((t: any) => typeof t?.key === "string" && typeof t?.value === "string")) {
+      throw new HttpError(400, "Invalid text records.");
+    }
+    const texts: { key: string; value: string }[] = body.texts;
+    const addr = ethers.getAddress(body.addr);
+    const signer = recoverSigner(UPDATE_RECORDS_TYPES, { name, addr, texts, timestamp }, body.signature);
+    if (!sameAddress(signer, entry.owner)) throw new HttpError(403, `The signer doesn't own ${name}.`);
+    if (timestamp <= entry.updatedAt) throw new HttpError(409, "A newer change to this subname exists.");
+
+    const updated: OffchainSubname = {
+      ...entry,
+      records: {
+        address: addr === ethers.ZeroAddress ? "" : addr,
+        texts: Object.fromEntries(texts.filter(({ value }) => value !== "").map(({ key, value }) => [key, value]))
+      },
+      updatedAt: timestamp
+    };
+    db.put(updated);
+    return updated;
+  };
+
+  const revoke = async (name: string, body: any): Promise<void> => {
+    const entry = requireSubname(name);
+    const timestamp = checkTimestamp(body.timestamp);
+    const signer = recoverSigner(REVOKE_SUBNAME_TYPES, { name, timestamp }, body.signature);
+    await requireParentOwner(entry.parent, signer);
+    if (timestamp <= entry.updatedAt) throw new HttpError(409, "A newer change to this subname exists.");
+    db.delete(name, timestamp);
+  };
+
+  /**
+   * Answers an EIP-3668 request from an offchain resolver at `sender`:
+   * resolves the wrapped call from the database and signs the result so
+   * the resolver's `resolveWithProof` accepts it until it expires.
+   */
+  const lookup = (sender: string, callData: string): { data: string } => {
+    if (!ethers.isAddress(sender) || !ethers.isHexString(callData)) throw new HttpError(400, "Invalid CCIP-Read request.");
+    let request: { name: string; data: string };
+    try {
+      request = parseResolveRequest(callData);
+      request.name = normalizeName(request.name);
+    } catch {
+      throw new HttpError(400, "Unsupported CCIP-Read request.");
+    }
+    const entry = db.get(request.name);
+    const result = answerResolverCall(entry?.records ?? null, request.data, client.chainId);
+    if (result === null) throw new HttpError(404, "Unsupported resolver function.");
+
+    const expires = BigInt(Math.floor(Date.now() / 1000)) + ttlSeconds;
+    const signature = signingKey.sign(offchainResponseHash(sender, expires, callData, result)).serialized;
+    return { data: encodeResolveResponse(result, expires, signature) };
+  };
+
+  const route = async (req: IncomingMessage): Promise<[number, unknown]> => {
+    const url = new URL(req.url ?? "/", "http://gateway");
+    const parts = url.pathname.split("/").filter(Boolean).map(decodeURIComponent);
+
+    if (req.method === "GET" && parts[0] === "subnames") {
+      if (parts.length === 1) return [200, db.list(nameParam(url.searchParams.get("parent") ?? ""))];
+      if (parts.length === 2) return [200, requireSubname(nameParam(parts[1]))];
+    }
+    if (req.method === "POST" && parts[0] === "subnames") {
+      const body = await readBody(req);
+      if (parts.length === 1) return [201, await issue(body)];
+      if (parts.length === 3 && parts[2] === "records") return [200, updateRecords(nameParam(parts[1]), body)];
+      if (parts.length === 3 && parts[2] === "revoke") {
+        const name = nameParam(parts[1]);
+        await revoke(name, body);
+        return [200, { name }];
+      }
+    }
+    // CCIP-Read: `GET /{sender}/{data}.json`, or a POST of `{ sender, data }`
+    // when the resolver's URL has no `{data}` placeholder.
+    if (req.method === "GET" && parts.length === 2 && parts[1].endsWith(".json")) {
+      return [200, lookup(parts[0], parts[1].slice(0, -5))];
+    }
+    if (req.method === "POST" && parts.length <= 1) {
+      const body = await readBody(req);
+      return [200, lookup(body.sender, body.data)];
+    }
+    throw new HttpError(404, "Not found.");
+  };
+
+  return createJsonServer(route);
+};
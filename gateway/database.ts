@@ -0,0 +1,61 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import type { OffchainSubname } from "../lib";
+
+/**
+ * Offchain subnames kept in one JSON file, keyed by normalized name. Every
+ * change rewrites the file through a temporary copy so a crash mid-write
+ * never leaves it truncated. A revoked name keeps the timestamp of its
+ * revoke, so signed requests from before it can't be replayed.
+ */
+export class SubnameDatabase {
+  readonly #path: string;
+  readonly #entries: Map<string, OffchainSubname>;
+  readonly #revoked: Map<string, number>;
+
+  constructor(path: string) {
+    this.#path = path;
+    const stored = existsSync(path) ? JSON.parse(readFileSync(path, "utf8")) : {};
+    // Files written before revokes were tracked hold a bare array of entries.
+    const { entries = [], revoked = {} }: { entries?: OffchainSubname[]; revoked?: Record<string, number> } =
+      Array.isArray(stored) ? { entries: stored } : stored;
+    this.#entries = new Map(entries.map(entry => [entry.name, entry]));
+    this.#revoked = new Map(Object.entries(revoked));
+  }
+
+  get(name: string): OffchainSubname | null {
+    return this.#entries.get(name) ?? null;
+  }
+
+  /** Subnames directly under `parent`, sorted by label. */
+  list(parent: string): OffchainSubname[] {
+    return [...this.#entries.values()]
+      .filter(entry => entry.parent === parent)
+      .sort((a, b) => a.label.localeCompare(b.label));
+  }
+
+  /** Timestamp of the last signed change to `name`, its revoke included; 0 if it never had one. */
+  lastChange(name: string): number {
+    return this.#entries.get(name)?.updatedAt ?? this.#revoked.get(name) ?? 0;
+  }
+
+  put(entry: OffchainSubname): void {
+    this.#entries.set(entry.name, entry);
+    this.#revoked.delete(entry.name);
+    this.#save();
+  }
+
+  /** Removes `name`, remembering the `timestamp` of the revoke that removed it. */
+  delete(name: string, timestamp: number): void {
+    this.#entries.delete(name);
+    this.#revoked.set(name, timestamp);
+    this.#save();
+  }
+
+  #save(): void {
+    mkdirSync(dirname(this.#path), { recursive: true });
+    const temp = `${this.#path}.tmp`;
+    writeFileSync(temp, JSON.stringify({ entries: [...this.#entries.values()], revoked: Object.fromEntries(this.#revoked) }, null, 2));
+    renameSync(temp, this.#path);
+  }
+}
@@ -0,0 +1,31 @@
+import { ethers } from "ethers";
+import { BaseNamesClient, NETWORKS, ResilientProvider } from "../lib";
+import { createGatewayServer } from "./app";
+import { SubnameDatabase } from "./database";
+
+// --- Configuration ---
+const PORT = Number(process.env.GATEWAY_PORT ?? 8080);
+const DB_PATH = process.env.GATEWAY_DB ?? "gateway/data/subnames.json";
+// How long a signed answer stays valid onchain.
+const TTL_SECONDS = BigInt(process.env.GATEWAY_TTL ?? 300);
+
+if (!process.env.GATEWAY_PRIVATE_KEY) {
+  console.error("GATEWAY_PRIVATE_KEY is required: the key the offchain resolver trusts as its signer.");
+  process.exit(1);
+}
+const signingKey = new ethers.SigningKey(process.env.GATEWAY_PRIVATE_KEY);
+
+const network = NETWORKS[process.env.GATEWAY_NETWORK ?? "base"];
+if (!network) {
+  console.error(`Unknown GATEWAY_NETWORK; expected one of ${Object.keys(NETWORKS).join(", ")}.`);
+  process.exit(1);
+}
+const rpcUrls = process.env.GATEWAY_RPC_URL ? [process.env.GATEWAY_RPC_URL, ...network.rpcUrls] : network.rpcUrls;
+const client = new BaseNamesClient({ network, provider: new ResilientProvider(rpcUrls, network.chainId) });
+const db = new SubnameDatabase(DB_PATH);
+
+const server = createGatewayServer({ client, db, signingKey, ttlSeconds: TTL_SECONDS });
+
+server.listen(PORT, () => {
+  console.log(`Subname gateway for ${network.name} listening on :${PORT}, signing as ${ethers.computeAddress(signingKey.publicKey)}.`);
+});
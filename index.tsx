@@ -1,6 +1,6 @@
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useMemo, useRef } from "react";
 import { createRoot } from "react-dom/client";
-import { ethers, BrowserProvider, Contract, JsonRpcProvider } from "ethers";
+import { BrowserProvider, ZeroAddress, getAddress, isAddress } from "ethers";
 import { 
   Search, 
   User, 
@@ -12,8 +12,6 @@ import {
   CornerDownRight,
   Wallet,
   Loader2,
-  Box,
-  ExternalLink,
   Sparkles,
   ShieldAlert,
   Settings,
@@ -22,72 +20,67 @@ import {
   History,
   IdCard,
   Layers,
+  LogOut,
+  Share2,
   Zap
 } from "lucide-react";
-
-// Add declaration for window.ethereum
-declare global {
-  interface Window {
-    ethereum?: any;
-  }
-}
-
-// --- Configuration ---
-const BASE_CHAIN_ID_HEX = "0x2105"; // 8453
-const BASE_CHAIN_ID_DECIMAL = 8453;
-const BASE_RPC_URL = "https://mainnet.base.org"; 
-const BASE_EXPLORER = "https://basescan.org";
-
-const REGISTRY_ADDRESS = ethers.getAddress("0xb94704422c2a1e396835a571837aa5ae53285a95".toLowerCase());
-const RESOLVER_ADDRESS = ethers.getAddress("0xC6d566A56A1aFf6508b41f6c90ff131615583BCD".toLowerCase());
-const REGISTRAR_ADDRESS = ethers.getAddress("0xedB58850756783A09633D62624B5178619E63B48".toLowerCase()); 
-
-const toNodeHash = (name: string): string => {
-  if (!name) return ethers.ZeroHash;
-  return ethers.namehash(name.toLowerCase().trim());
-};
-
-const resolveAvatarUrl = (name: string, record: string): string => {
-  if (!record) return "";
-  if (record.startsWith("http")) return record;
-  if (record.startsWith("ipfs://")) {
-    return record.replace("ipfs://", "https://ipfs.io/ipfs/");
-  }
-  return `https://metadata.ens.domains/mainnet/avatar/${name}`;
-};
-
-// --- ABIs ---
-const REGISTRY_ABI = [
-  "function owner(bytes32 node) view returns (address)",
-  "function resolver(bytes32 node) view returns (address)",
-  "function setSubnodeOwner(bytes32 node, bytes32 label, address owner) external"
-];
-
-const RESOLVER_ABI = [
-  "function text(bytes32 node, string key) view returns (string)",
-  "function addr(bytes32 node) view returns (address)"
-];
-
-const REGISTRAR_ABI = [
-  "function balanceOf(address owner) view returns (uint256)"
-];
-
-// --- Types ---
-interface ProfileData {
-  owner: string;
-  resolver: string;
-  avatar?: string;
-  twitter?: string;
-  url?: string;
-  address?: string;
-  isMine: boolean;
-}
-
-interface MintedName {
-  name: string;
-  txHash: string;
-  timestamp: number;
-}
+import {
+  ActivityTracker,
+  AuthServer,
+  BaseNamesClient,
+  NETWORKS,
+  SubnameGateway,
+  baseLabelOf,
+  browserStore,
+  coinLabel,
+  contenthashUrl,
+  describeRpcError,
+  describeTxError,
+  discoverWallets,
+  findSafeOwner,
+  getNetwork,
+  inspectLabel,
+  inspectName,
+  isUnsettled,
+  loadWalletChoice,
+  normalizeLabel,
+  normalizeName,
+  parseRoute,
+  rememberName,
+  requestAccount,
+  requestNetwork,
+  revokeAccess,
+  routePath,
+  sameAddress,
+  saveWalletChoice
+} from "./lib";
+import type { ContractCall, Identity, NameLookup, NetworkConfig, OffchainSubname, Route, SafeInfo, TrackedTx, TxPreview, WalletConnector } from "./lib";
+import { Card } from "./components/Card";
+import { TextRecordEditor } from "./components/TextRecordEditor";
+import { AddressRecordEditor } from "./components/AddressRecordEditor";
+import { ContenthashEditor } from "./components/ContenthashEditor";
+import { RecordBackup } from "./components/RecordBackup";
+import { Portfolio } from "./components/Portfolio";
+import { BulkIssuer } from "./components/BulkIssuer";
+import { SubnameTable } from "./components/SubnameTable";
+import { NameIssues } from "./components/NameIssues";
+import { RegisterPanel } from "./components/RegisterPanel";
+import { RenewPanel } from "./components/RenewPanel";
+import { FuseState } from "./components/FuseState";
+import { WrappedSubnameIssuer } from "./components/WrappedSubnameIssuer";
+import { GaslessSubnameIssuer } from "./components/GaslessSubnameIssuer";
+import { OffchainRecordEditor } from "./components/OffchainRecordEditor";
+import { TxLink } from "./components/TxLink";
+import { RpcStatus } from "./components/RpcStatus";
+import { WalletPicker } from "./components/WalletPicker";
+import { TxConfirm } from "./components/TxConfirm";
+import { ActivityLog } from "./components/ActivityLog";
+import { Avatar } from "./components/Avatar";
+import { PublicProfile } from "./components/PublicProfile";
+import { EmbedCard } from "./components/EmbedCard";
+import { SignInPanel } from "./components/SignInPanel";
+import { SafeProposal } from "./components/SafeProposal";
+import { SafePending } from "./components/SafePending";
 
 // --- Components ---
 
@@ -97,12 +90,6 @@ const BaseLogo = () => (
   </div>
 );
 
-const Card = ({ children, className = "" }: { children?: React.ReactNode, className?: string }) => (
-  <div className={`bg-white border border-gray-100 rounded-[1.5rem] p-6 shadow-sm hover:shadow-md transition-shadow duration-300 ${className}`}>
-    {children}
-  </div>
-);
-
 const PixelSolarSystem = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const requestRef = useRef<number>(0);
@@ -303,70 +290,109 @@ const AdBanner = () => (
     </div>
 );
 
+// VITE_NETWORK picks the default network; VITE_RPC_URL, VITE_START_BLOCK and
+// VITE_NAME_WRAPPER override its RPC, log-scan start and NameWrapper.
+// VITE_IPFS_GATEWAY serves IPFS avatars.
+const ENV_NETWORK: NetworkConfig = (() => {
+  const network = getNetwork(import.meta.env.VITE_NETWORK);
+  const rpcUrl = import.meta.env.VITE_RPC_URL;
+  const startBlock = import.meta.env.VITE_START_BLOCK;
+  const nameWrapper = import.meta.env.VITE_NAME_WRAPPER;
+  return {
+    ...network,
+    rpcUrls: rpcUrl ? [rpcUrl, ...network.rpcUrls] : network.rpcUrls,
+    startBlock: startBlock ? Number(startBlock) : network.startBlock,
+    addresses: nameWrapper ? { ...network.addresses, nameWrapper: getAddress(nameWrapper) } : network.addresses
+  };
+})();
+
+const NETWORK_KEY = "basenames:network";
+
+const networkFor = (key: string | null): NetworkConfig =>
+  key === ENV_NETWORK.key || !key || !NETWORKS[key] ? ENV_NETWORK : NETWORKS[key];
+
 const App = () => {
-  const [provider, setProvider] = useState<BrowserProvider | null>(null);
+  const [networkKey, setNetworkKey] = useState(() => networkFor(browserStore.get(NETWORK_KEY)).key);
+  const network = networkFor(networkKey);
+  // Shared read-only client against the selected network's RPC.
+  const readClient = useMemo(() => new BaseNamesClient({ network, ipfsGateway: import.meta.env.VITE_IPFS_GATEWAY }), [networkKey]);
+  const gateway = useMemo(() => import.meta.env.VITE_GATEWAY_URL ? new SubnameGateway(import.meta.env.VITE_GATEWAY_URL, readClient) : null, [readClient]);
+  const auth = useMemo(() => import.meta.env.VITE_AUTH_URL ? new AuthServer(import.meta.env.VITE_AUTH_URL, readClient) : null, [readClient]);
+
+  const [wallets, setWallets] = useState<WalletConnector[]>([]);
+  const [connector, setConnector] = useState<WalletConnector | null>(null);
+  const [isPickingWallet, setIsPickingWallet] = useState(false);
+  const [connectingId, setConnectingId] = useState<string | null>(null);
+  const [pendingTx, setPendingTx] = useState<{ preview: TxPreview, resolve: (confirmed: boolean) => void } | null>(null);
   const [address, setAddress] = useState<string | null>(null);
   const [chainId, setChainId] = useState<number | null>(null);
-  const [userProfile, setUserProfile] = useState<{name?: string, avatar?: string} | null>(null);
+  const [userProfile, setUserProfile] = useState<Identity | null>(null);
   const [rootNameBalance, setRootNameBalance] = useState<number>(0);
-  const [recentMints, setRecentMints] = useState<MintedName[]>([]);
+  const [activity, setActivity] = useState<TrackedTx[]>([]);
   const [isRefreshing, setIsRefreshing] = useState(false);
 
   const [searchTerm, setSearchTerm] = useState("");
   const [isSearching, setIsSearching] = useState(false);
-  const [searchResult, setSearchResult] = useState<{name: string, available: boolean, data?: ProfileData} | null>(null);
+  const [searchResult, setSearchResult] = useState<NameLookup | null>(null);
   const [searchError, setSearchError] = useState<string | null>(null);
+  const [searchWarnings, setSearchWarnings] = useState<string[]>([]);
+  const [offchainEntry, setOffchainEntry] = useState<OffchainSubname | null>(null);
+  const [addressResult, setAddressResult] = useState<{ address: string, identity: Identity | null } | null>(null);
+  const [route, setRoute] = useState<Route>(() => parseRoute(window.location.pathname));
 
   const [parentName, setParentName] = useState("");
   const [subLabel, setSubLabel] = useState("");
   const [targetAddress, setTargetAddress] = useState("");
+  const [primaryInput, setPrimaryInput] = useState("");
+  const [isSettingPrimary, setIsSettingPrimary] = useState(false);
+  const [primaryStatus, setPrimaryStatus] = useState<{type: 'success' | 'error', msg: string} | null>(null);
+
+  const [subnameMode, setSubnameMode] = useState<'single' | 'wrapped' | 'batch' | 'gasless'>('single');
+  const [setAddressOnMint, setSetAddressOnMint] = useState(true);
   const [isMinting, setIsMinting] = useState(false);
   const [mintStatus, setMintStatus] = useState<{type: 'success' | 'error', msg: string, txHash?: string} | null>(null);
+  const [overwriteOwner, setOverwriteOwner] = useState<string | null>(null);
+  const [subnamesVersion, setSubnamesVersion] = useState(0);
+  const [parentSafe, setParentSafe] = useState<SafeInfo | null>(null);
+  const [mintSafeCalls, setMintSafeCalls] = useState<ContractCall[] | null>(null);
+  const [searchSafe, setSearchSafe] = useState<SafeInfo | null>(null);
 
   const subnameRef = useRef<HTMLElement>(null);
+  const manageRef = useRef<HTMLDivElement>(null);
 
-  const connectWallet = async () => {
-    if (!window.ethereum) return alert("Please install a Web3 wallet like Coinbase Wallet");
+  const connectWallet = async (wallet: WalletConnector) => {
+    setConnectingId(wallet.id);
     try {
-      const p = new BrowserProvider(window.ethereum);
-      const accounts = await p.send("eth_requestAccounts", []);
-      const net = await p.getNetwork();
-      
-      setProvider(p);
-      setAddress(accounts[0]);
-      setChainId(Number(net.chainId));
+      const account = await requestAccount(wallet.provider);
+      saveWalletChoice(browserStore, wallet.id);
+      setConnector(wallet);
+      setAddress(account);
+      setIsPickingWallet(false);
     } catch (err) {
       console.error(err);
+    } finally {
+      setConnectingId(null);
     }
   };
 
+  const disconnectWallet = async () => {
+    if (connector) await revokeAccess(connector.provider);
+    saveWalletChoice(browserStore, null);
+    setConnector(null);
+    setAddress(null);
+    setChainId(null);
+    setUserProfile(null);
+    setRootNameBalance(0);
+  };
+
   const fetchIdentityData = async () => {
     if (!address) return;
     setIsRefreshing(true);
-    const activeProvider = new JsonRpcProvider(BASE_RPC_URL);
     
     try {
-      const name = await activeProvider.lookupAddress(address);
-      if (name && (name.toLowerCase().endsWith('.base.eth') || name.toLowerCase().endsWith('.eth'))) {
-        const node = ethers.namehash(name);
-        const registry = new Contract(REGISTRY_ADDRESS, REGISTRY_ABI, activeProvider);
-        const resolverAddr = await registry.resolver(node).catch(() => RESOLVER_ADDRESS);
-        
-        let avatar = "";
-        if (resolverAddr !== ethers.ZeroAddress) {
-          const resolver = new Contract(resolverAddr, RESOLVER_ABI, activeProvider);
-          const avatarRecord = await resolver.text(node, "avatar").catch(() => "");
-          avatar = resolveAvatarUrl(name, avatarRecord);
-        }
-        setUserProfile({ name, avatar });
-      } else {
-        setUserProfile(null);
-      }
-
-      const registrar = new Contract(REGISTRAR_ADDRESS, REGISTRAR_ABI, activeProvider);
-      const balance = await registrar.balanceOf(address);
-      setRootNameBalance(Number(balance));
-
+      const [profile, balance] = await Promise.all([readClient.reverseLookup(address), readClient.balanceOf(address)]);
+      setUserProfile(profile);
+      setRootNameBalance(balance);
     } catch (err) {
       console.error("Identity fetch error:", err);
     } finally {
@@ -376,137 +402,262 @@ const App = () => {
 
   useEffect(() => {
     if (address) fetchIdentityData();
-  }, [address]);
+  }, [address, readClient]);
 
+  // Names issued through the gateway are edited there rather than onchain.
   useEffect(() => {
-    if (window.ethereum) {
-      const handleChainChanged = (hexChainId: string) => setChainId(parseInt(hexChainId, 16));
-      const handleAccountsChanged = (accounts: string[]) => setAddress(accounts[0] || null);
-      
-      window.ethereum.on('chainChanged', handleChainChanged);
-      window.ethereum.on('accountsChanged', handleAccountsChanged);
-      
-      window.ethereum.request({ method: 'eth_chainId' }).then((hex: string) => setChainId(parseInt(hex, 16)));
-      window.ethereum.request({ method: 'eth_accounts' }).then((accounts: string[]) => setAddress(accounts[0] || null));
+    setOffchainEntry(null);
+    if (!gateway || !searchResult?.name || searchResult.available) return;
+    let cancelled = false;
+    gateway.get(searchResult.name)
+      .then(entry => { if (!cancelled) setOffchainEntry(entry); })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, [gateway, searchResult?.name, searchResult?.available]);
+
+  // Names held by a Safe the wallet signs for are changed through Safe transactions.
+  useEffect(() => {
+    setSearchSafe(null);
+    if (!address || !searchResult?.name || searchResult.available) return;
+    let cancelled = false;
+    findSafeOwner(readClient, searchResult.name, address)
+      .then(safe => { if (!cancelled) setSearchSafe(safe); })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, [readClient, address, searchResult?.name, searchResult?.available]);
+
+  // Transactions of the connected wallet on the selected network, kept across reloads.
+  const tracker = useMemo(() => address ? new ActivityTracker(readClient, address) : null, [readClient, address]);
 
-      return () => {
-        window.ethereum.removeListener('chainChanged', handleChainChanged);
-        window.ethereum.removeListener('accountsChanged', handleAccountsChanged);
-      };
-    }
-  }, []);
+  useEffect(() => {
+    setActivity(tracker?.entries ?? []);
+    if (!tracker) return;
+    const unsubscribe = tracker.subscribe(setActivity);
+    const stop = tracker.watch();
+    return () => {
+      unsubscribe();
+      stop();
+    };
+  }, [tracker]);
+
+  const selectNetwork = (key: string) => {
+    browserStore.set(NETWORK_KEY, key);
+    setNetworkKey(key);
+    setSearchResult(null);
+    setUserProfile(null);
+  };
+
+  useEffect(() => {
+    setOverwriteOwner(null);
+  }, [parentName, subLabel]);
 
-  const switchToBase = async () => {
-    if (!window.ethereum) return;
+  useEffect(() => discoverWallets(setWallets), []);
+
+  // Reconnect to the remembered wallet once it has announced itself.
+  useEffect(() => {
+    if (connector) return;
+    const remembered = loadWalletChoice(browserStore);
+    const wallet = remembered ? wallets.find(w => w.id === remembered) : undefined;
+    if (wallet) setConnector(wallet);
+  }, [wallets]);
+
+  useEffect(() => {
+    if (!connector) return;
+    const { provider } = connector;
+    const handleChainChanged = (hexChainId: string) => setChainId(parseInt(hexChainId, 16));
+    const handleAccountsChanged = (accounts: string[]) => setAddress(accounts[0] || null);
+
+    provider.on?.('chainChanged', handleChainChanged);
+    provider.on?.('accountsChanged', handleAccountsChanged);
+
+    provider.request({ method: 'eth_chainId' }).then((hex: string) => setChainId(parseInt(hex, 16)));
+    provider.request({ method: 'eth_accounts' }).then((accounts: string[]) => setAddress(accounts[0] || null));
+
+    return () => {
+      provider.removeListener?.('chainChanged', handleChainChanged);
+      provider.removeListener?.('accountsChanged', handleAccountsChanged);
+    };
+  }, [connector]);
+
+  const switchToNetwork = async () => {
+    if (!connector) return;
     try {
-      await window.ethereum.request({
-        method: 'wallet_switchEthereumChain',
-        params: [{ chainId: BASE_CHAIN_ID_HEX }],
-      });
-    } catch (e: any) {
-      if (e.code === 4902) {
-        await window.ethereum.request({
-          method: 'wallet_addEthereumChain',
-          params: [{
-            chainId: BASE_CHAIN_ID_HEX,
-            chainName: 'Base',
-            nativeCurrency: { name: 'ETH', symbol: 'ETH', decimals: 18 },
-            rpcUrls: [BASE_RPC_URL],
-            blockExplorerUrls: [BASE_EXPLORER],
-          }],
-        });
-      }
+      await requestNetwork(connector.provider, network);
+    } catch (err) {
+      console.error("Network switch error:", err);
     }
   };
 
-  const handleSearch = async (e?: React.FormEvent) => {
-    if (e) e.preventDefault();
-    let query = searchTerm.trim().toLowerCase();
+  const lookupName = async (term: string) => {
+    let query = term.trim();
     if (!query) return;
-    if (!query.includes('.')) query += ".base.eth";
+    if (!query.includes('.')) query += `.${network.rootName}`;
+
+    const report = inspectName(query);
+    setSearchWarnings(report.warnings);
+    setSearchResult(null);
+    if (report.normalized === null) {
+      setSearchError(`Invalid name ${report.error}`);
+      return;
+    }
+    query = report.normalized;
     
-    const activeProvider = new JsonRpcProvider(BASE_RPC_URL);
     setIsSearching(true);
     setSearchError(null);
-    setSearchResult(null);
 
     try {
-      const node = toNodeHash(query);
-      const resolver = new Contract(RESOLVER_ADDRESS, RESOLVER_ABI, activeProvider);
-      const resolvedAddress = await resolver.addr(node);
-
-      if (!resolvedAddress || resolvedAddress === ethers.ZeroAddress) {
-        setSearchResult({ name: query, available: true });
-      } else {
-        const registry = new Contract(REGISTRY_ADDRESS, REGISTRY_ABI, activeProvider);
-        let owner = await registry.owner(node).catch(() => ethers.ZeroAddress);
-
-        const [avatarRecord, twitter, url] = await Promise.all([
-          resolver.text(node, "avatar").catch(() => ""),
-          resolver.text(node, "com.twitter").catch(() => ""),
-          resolver.text(node, "url").catch(() => "")
-        ]);
-
-        const avatar = resolveAvatarUrl(query, avatarRecord);
-        const isMine = (address?.toLowerCase() === owner.toLowerCase()) || (address?.toLowerCase() === resolvedAddress.toLowerCase());
-
-        setSearchResult({ 
-          name: query, 
-          available: false, 
-          data: { 
-            owner, 
-            resolver: RESOLVER_ADDRESS, 
-            avatar, 
-            twitter, 
-            url, 
-            address: resolvedAddress,
-            isMine 
-          } 
-        });
-      }
+      const result = await readClient.getProfile(query, address);
+      rememberName(query);
+      setSearchResult(result);
     } catch (err) {
-      setSearchError("Resolution failed. Please check your connection.");
+      setSearchError(describeRpcError(err, "Resolution failed. Please check your connection."));
     } finally {
       setIsSearching(false);
     }
   };
 
-  const handleMintSubname = async () => {
-    if (!window.ethereum) {
-        alert('Please install a Web3 wallet.');
-        return;
+  const lookupAddress = async (target: string) => {
+    setSearchResult(null);
+    setSearchWarnings([]);
+    setSearchError(null);
+    setIsSearching(true);
+    try {
+      setAddressResult({ address: target, identity: await readClient.reverseLookup(target) });
+    } catch (err) {
+      setSearchError(describeRpcError(err, "Lookup failed. Please check your connection."));
+    } finally {
+      setIsSearching(false);
     }
+  };
 
-    setMintStatus(null);
-    setIsMinting(true);
+  const navigate = (next: Route) => {
+    window.history.pushState(null, "", routePath(next));
+    setRoute(next);
+  };
 
+  useEffect(() => {
+    const handlePopState = () => setRoute(parseRoute(window.location.pathname));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  // Every route loads its own data on entry, including on back/forward.
+  useEffect(() => {
+    if (route.page !== "address") setAddressResult(null);
+    switch (route.page) {
+      case "name":
+      case "manage":
+        setSearchTerm(route.name);
+        lookupName(route.name).then(() => {
+          if (route.page === "manage") manageRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+        });
+        window.scrollTo({ top: 0, behavior: 'smooth' });
+        break;
+      case "address":
+        setSearchTerm(route.address);
+        lookupAddress(route.address);
+        break;
+      case "subnames":
+        setParentName(route.name);
+        subnameRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+        break;
+      case "profile":
+        // PublicProfile loads its own data; the search keeps its state for going back.
+        window.scrollTo({ top: 0, behavior: 'smooth' });
+        break;
+      default:
+        setSearchTerm("");
+        setSearchResult(null);
+        setSearchError(null);
+        setSearchWarnings([]);
+    }
+  }, [route, readClient]);
+
+  const handleSearch = async (e?: React.FormEvent) => {
+    if (e) e.preventDefault();
+    const term = searchTerm.trim();
+    if (!term) return;
+    if (isAddress(term)) {
+      navigate({ page: "address", address: getAddress(term) });
+      return;
+    }
+    const normalized = inspectName(term.includes('.') ? term : `${term}.${network.rootName}`).normalized;
+    // Invalid names stay on the current page and show why.
+    if (normalized === null) await lookupName(term);
+    else navigate({ page: "name", name: normalized });
+  };
+
+  const selectName = (name: string) => navigate({ page: "name", name });
+
+  const isProfilePage = route.page === "profile";
+
+  const refreshSearchResult = async () => {
+    if (!searchResult) return;
     try {
-      const tempProvider = new ethers.BrowserProvider(window.ethereum);
-      const freshSigner = await tempProvider.getSigner();
-      const currentNet = await tempProvider.getNetwork();
+      setSearchResult(await readClient.getProfile(searchResult.name, address));
+    } catch (err) {
+      console.error("Refresh error:", err);
+    }
+  };
 
-      if (Number(currentNet.chainId) !== BASE_CHAIN_ID_DECIMAL) {
-          throw new Error("Please switch to Base Mainnet.");
-      }
+  // A deep link may load before the wallet reconnects; recheck ownership once it does.
+  useEffect(() => {
+    refreshSearchResult();
+  }, [address]);
 
-      const cleanParent = parentName.toLowerCase().trim();
-      const cleanLabel = subLabel.toLowerCase().trim();
-      const cleanTarget = targetAddress.trim();
-      
-      if (!cleanParent || !cleanLabel || !cleanTarget) throw new Error("Missing fields.");
-      if (!ethers.isAddress(cleanTarget)) throw new Error("Invalid address.");
+  // Every write pauses here with its simulated cost until the user decides.
+  const confirmTransaction = (preview: TxPreview) =>
+    new Promise<boolean>(resolve => setPendingTx({ preview, resolve }));
 
-      const parentNode = toNodeHash(cleanParent);
-      const labelHash = ethers.id(cleanLabel);
-      
-      const registry = new Contract(REGISTRY_ADDRESS, REGISTRY_ABI, freshSigner);
-      const owner = await registry.owner(parentNode);
-      
-      if (owner.toLowerCase() !== address?.toLowerCase()) {
-        throw new Error(`You don't own ${cleanParent}.`);
-      }
+  const settlePendingTx = (confirmed: boolean) => {
+    pendingTx?.resolve(confirmed);
+    setPendingTx(null);
+  };
+
+  const getWriteClient = async () => {
+    if (!connector) throw new Error("Please connect a wallet.");
+    const tempProvider = new BrowserProvider(connector.provider);
+    return readClient.withSigner(await tempProvider.getSigner(), {
+      confirm: confirmTransaction,
+      onSubmitted: (tx, preview) => { tracker?.add(tx, preview.description); }
+    });
+  };
+
+  const handleMintSubname = async (confirmOverwrite = false) => {
+    if (!connector) {
+      setIsPickingWallet(true);
+      return;
+    }
+
+    setMintStatus(null);
+    setOverwriteOwner(null);
+    setMintSafeCalls(null);
+    setIsMinting(true);
 
-      const tx = await registry.setSubnodeOwner(parentNode, labelHash, ethers.getAddress(cleanTarget));
+    try {
+      const client = await getWriteClient();
+
+      const cleanParent = normalizeName(parentName);
+      const cleanLabel = normalizeLabel(subLabel);
+      if (!confirmOverwrite) {
+        const existing = await client.getSubnameOwner(cleanParent, cleanLabel);
+        if (existing !== ZeroAddress) {
+          setOverwriteOwner(existing);
+          return;
+        }
+      }
+      const safe = await findSafeOwner(readClient, cleanParent, address!);
+      if (safe) {
+        setParentSafe(safe);
+        setMintSafeCalls(readClient.subnameCalls(cleanParent, cleanLabel, targetAddress, safe.address, {
+          address: setAddressOnMint ? targetAddress : undefined
+        }));
+        return;
+      }
+      const tx = await client.createSubname(cleanParent, cleanLabel, targetAddress, {
+        address: setAddressOnMint ? targetAddress : undefined,
+        onStep: (msg, stepTx) => setMintStatus({ type: 'success', msg, txHash: stepTx.hash })
+      });
       
       setMintStatus({ 
         type: 'success', 
@@ -515,6 +666,7 @@ const App = () => {
       });
 
       await tx.wait();
+      rememberName(`${cleanLabel}.${cleanParent}`);
       
       setMintStatus({ 
         type: 'success', 
@@ -522,74 +674,135 @@ const App = () => {
         txHash: tx.hash
       });
 
-      setRecentMints(prev => [{
-        name: `${cleanLabel}.${cleanParent}`,
-        txHash: tx.hash,
-        timestamp: Date.now()
-      }, ...prev]);
-      
       fetchIdentityData();
+      setSubnamesVersion(v => v + 1);
       setSubLabel("");
     } catch (err: any) {
-      setMintStatus({ type: 'error', msg: err.reason || err.message || "Minting failed." });
+      setMintStatus({ type: 'error', msg: describeTxError(err, "Minting failed.") });
     } finally {
       setIsMinting(false);
     }
   };
 
-  const isOnBase = chainId === BASE_CHAIN_ID_DECIMAL;
+  const handleSetPrimary = async (name: string) => {
+    setPrimaryStatus(null);
+    setIsSettingPrimary(true);
+
+    try {
+      const client = await getWriteClient();
+      const tx = await client.setPrimaryName(name);
+      setPrimaryStatus({ type: 'success', msg: `Setting ${name} as primary...` });
+      await tx.wait();
+      setPrimaryStatus({ type: 'success', msg: `${name} is now your primary name.` });
+      setPrimaryInput("");
+      fetchIdentityData();
+    } catch (err: any) {
+      setPrimaryStatus({ type: 'error', msg: describeTxError(err, "Setting primary name failed.") });
+    } finally {
+      setIsSettingPrimary(false);
+    }
+  };
+
+  const isOnNetwork = chainId === network.chainId;
+  const parentReport = parentName.trim() ? inspectName(parentName) : null;
+  const cleanParentName = parentReport?.normalized ?? "";
+
+  // Shows a Safe-owned parent's pending multisig transactions as soon as it's entered.
+  useEffect(() => {
+    setParentSafe(null);
+    setMintSafeCalls(null);
+    if (!address || !cleanParentName) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      findSafeOwner(readClient, cleanParentName, address)
+        .then(safe => { if (!cancelled) setParentSafe(safe); })
+        .catch(() => {});
+    }, 500);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [readClient, address, cleanParentName]);
+  const labelReport = subLabel.trim() ? inspectLabel(subLabel) : null;
 
   const scrollToSubname = () => {
-    if (searchResult?.name) setParentName(searchResult.name);
-    subnameRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    if (searchResult?.name) navigate({ page: "subnames", name: searchResult.name });
+  };
+
+  // Keeps the parent being managed in the URL without adding history entries.
+  const changeParentName = (value: string) => {
+    setParentName(value);
+    if (route.page === "subnames") window.history.replaceState(null, "", routePath({ page: "subnames", name: value.trim() }));
   };
 
   return (
     <div className="min-h-screen bg-gray-50 text-black font-sans selection:bg-base-blue selection:text-white pb-20 overflow-x-hidden">
       <nav className="w-full bg-white border-b border-gray-200 sticky top-0 z-50">
         <div className="max-w-4xl mx-auto px-6 h-20 flex justify-between items-center">
-          <div className="flex items-center gap-3">
+          <a href="/" onClick={(e) => { e.preventDefault(); navigate({ page: "home" }); }} className="flex items-center gap-3">
             <BaseLogo />
             <span className="font-bold text-xl tracking-tight text-black">Base Names</span>
-          </div>
+          </a>
           <div className="flex items-center gap-3">
-            {address && (
-              isOnBase ? (
-                <div className="hidden md:flex items-center gap-2 px-3 py-1.5 rounded-full text-xs font-bold uppercase tracking-wide bg-blue-50 text-base-blue border border-blue-100">
-                  <div className="w-2 h-2 rounded-full bg-base-blue"></div>Base
-                </div>
-              ) : (
-                <button onClick={switchToBase} className="flex items-center gap-2 px-3 py-1.5 rounded-full text-xs font-bold uppercase tracking-wide bg-red-50 text-red-600 border border-red-100 hover:bg-red-100 animate-pulse">
-                  <ShieldAlert size={14} />Switch to Base
-                </button>
-              )
+            <label className={`flex items-center gap-2 px-3 py-1.5 rounded-full text-xs font-bold uppercase tracking-wide border ${network.testnet ? 'bg-amber-50 text-amber-700 border-amber-100' : 'bg-blue-50 text-base-blue border-blue-100'}`}>
+              <div className={`w-2 h-2 rounded-full ${network.testnet ? 'bg-amber-500' : 'bg-base-blue'}`}></div>
+              <select 
+                value={network.key} 
+                onChange={(e) => selectNetwork(e.target.value)} 
+                className="bg-transparent outline-none uppercase tracking-wide cursor-pointer"
+              >
+                {Object.values(NETWORKS).map(n => <option key={n.key} value={n.key}>{n.name}</option>)}
+              </select>
+            </label>
+            {address && !isOnNetwork && (
+              <button onClick={switchToNetwork} className="flex items-center gap-2 px-3 py-1.5 rounded-full text-xs font-bold uppercase tracking-wide bg-red-50 text-red-600 border border-red-100 hover:bg-red-100 animate-pulse">
+                <ShieldAlert size={14} />Switch to {network.name}
+              </button>
             )}
-            <button onClick={address ? undefined : connectWallet} className={`flex items-center gap-3 rounded-full font-bold transition-all active:scale-95 ${address ? "bg-gray-100 text-black pr-1 pl-4 py-1 border border-gray-200 hover:bg-gray-200" : "bg-black text-white px-6 py-2.5 hover:bg-gray-800 shadow-sm"}`}>
+            <button onClick={address ? undefined : () => setIsPickingWallet(true)} className={`flex items-center gap-3 rounded-full font-bold transition-all active:scale-95 ${address ? "bg-gray-100 text-black pr-1 pl-4 py-1 border border-gray-200 hover:bg-gray-200" : "bg-black text-white px-6 py-2.5 hover:bg-gray-800 shadow-sm"}`}>
               <span className="text-xs sm:text-sm font-bold">{address ? `${address.slice(0,6)}...${address.slice(-4)}` : "Connect Wallet"}</span>
               {address && (
                 <div className="w-8 h-8 rounded-full overflow-hidden bg-white border border-gray-200 flex items-center justify-center flex-shrink-0 shadow-sm">
-                  {userProfile?.avatar ? <img src={userProfile.avatar} className="w-full h-full object-cover" /> : <div className="w-full h-full bg-base-blue flex items-center justify-center text-white text-[10px]">{address.slice(2,4).toUpperCase()}</div>}
+                  <Avatar 
+                    src={userProfile?.avatar} 
+                    iconSize={14} 
+                    fallback={<div className="w-full h-full bg-base-blue flex items-center justify-center text-white text-[10px]">{address.slice(2,4).toUpperCase()}</div>} 
+                  />
                 </div>
               )}
             </button>
+            {connector && address && (
+              <button onClick={disconnectWallet} title={`Disconnect ${connector.name}`} className="w-10 h-10 flex items-center justify-center rounded-full bg-gray-50 border border-gray-100 text-gray-400 hover:text-red-500 transition-all">
+                <LogOut size={16}/>
+              </button>
+            )}
           </div>
         </div>
       </nav>
 
       <main className="max-w-4xl mx-auto px-6 py-12 space-y-4">
+        <RpcStatus provider={readClient.provider} />
         {/* Ad Block at Top for Visual impact */}
         <AdBanner />
 
-        <section className="pt-8 pb-12">
+        {isProfilePage && (
+          <section className="pt-8 pb-12">
+            <PublicProfile 
+              name={route.name} 
+              client={readClient} 
+              gateway={gateway} 
+              onSelect={(name) => navigate({ page: "profile", name })} 
+            />
+          </section>
+        )}
+
+        <section className={`pt-8 pb-12 ${isProfilePage ? 'hidden' : ''}`}>
           <div className="text-center mb-12 animate-in fade-in slide-in-from-top-4 duration-1000">
             <div className="inline-flex items-center gap-2 px-3 py-1 rounded-full bg-blue-50 text-base-blue text-[10px] font-black uppercase tracking-[0.2em] mb-4 border border-blue-100">
-              <Zap size={12} className="fill-current"/> ENS on Base
+              <Zap size={12} className="fill-current"/> ENS on {network.name}
             </div>
             <h1 className="text-6xl md:text-7xl font-[900] tracking-tighter mb-6 selection:bg-base-blue selection:text-white leading-[0.9]">
               Secure your <br/><span className="text-base-blue">Digital Identity.</span>
             </h1>
             <p className="text-gray-400 text-lg md:text-xl font-medium max-w-2xl mx-auto leading-relaxed">
-              Register, manage, and resolve .base.eth names natively on L2.
+              Register, manage, and resolve .{network.rootName} names natively on L2.
             </p>
           </div>
           
@@ -605,7 +818,7 @@ const App = () => {
                 type="text" 
                 value={searchTerm} 
                 onChange={(e) => setSearchTerm(e.target.value)} 
-                placeholder="Search names (e.g. coffee.base.eth)" 
+                placeholder={`Search names (e.g. coffee.${network.rootName})`} 
                 className="w-full h-16 pl-4 pr-4 bg-transparent focus:outline-none text-xl md:text-2xl font-bold placeholder:text-gray-200 placeholder:font-medium selection:bg-blue-100" 
               />
               <button 
@@ -625,22 +838,79 @@ const App = () => {
             </div>
           )}
 
+          {!searchError && searchWarnings.length > 0 && (
+            <div className="max-w-2xl mx-auto mt-8 p-4 bg-amber-50 text-amber-700 rounded-2xl space-y-1 animate-in fade-in slide-in-from-bottom-2 border border-amber-100 text-sm font-bold">
+              {searchWarnings.map(warning => (
+                <p key={warning} className="flex items-start gap-3"><AlertCircle size={18} className="flex-shrink-0"/> {warning}</p>
+              ))}
+            </div>
+          )}
+
+          {addressResult && (
+            <div className="max-w-4xl mx-auto mt-12 animate-in fade-in slide-in-from-bottom-4 duration-700">
+              <Card className="p-10 space-y-8">
+                <div className="flex items-center gap-6">
+                  <div className="w-20 h-20 rounded-[1.75rem] overflow-hidden bg-gray-50 border border-gray-100 flex-shrink-0">
+                    <Avatar 
+                      src={addressResult.identity?.avatar} 
+                      className="rounded-[1.75rem]" 
+                      iconSize={28} 
+                      fallback={<div className="w-full h-full flex items-center justify-center text-gray-200"><Wallet size={32} /></div>} 
+                    />
+                  </div>
+                  <div className="min-w-0">
+                    {addressResult.identity?.verified ? (
+                      <button onClick={() => selectName(addressResult.identity!.name)} className="text-3xl font-black text-gray-900 tracking-tighter hover:text-base-blue truncate max-w-full block text-left">
+                        {addressResult.identity.name}
+                      </button>
+                    ) : (
+                      <h3 className="text-3xl font-black text-gray-300 tracking-tighter">No primary name</h3>
+                    )}
+                    <p className="text-xs font-mono font-bold text-gray-400 break-all mt-1">{addressResult.address}</p>
+                  </div>
+                </div>
+                <div className="pt-8 border-t border-gray-100">
+                  <span className="text-[10px] font-black text-gray-400 uppercase tracking-[0.25em] block mb-6">Owned Names</span>
+                  <Portfolio 
+                    client={readClient} 
+                    owner={addressResult.address} 
+                    primaryName={addressResult.identity?.verified ? addressResult.identity.name : null} 
+                    onSelect={selectName} 
+                  />
+                </div>
+              </Card>
+            </div>
+          )}
+
           {searchResult && (
             <div className="max-w-4xl mx-auto mt-12 animate-in fade-in slide-in-from-bottom-4 duration-700">
               {searchResult.available ? (
-                <Card className="flex items-center justify-between bg-green-50/50 border-green-100 border-2 overflow-hidden relative p-10">
+                <Card className="bg-green-50/50 border-green-100 border-2 overflow-hidden relative p-10">
                   <div className="absolute top-0 right-0 w-64 h-64 bg-green-200/20 rounded-full -mr-24 -mt-24 blur-3xl"></div>
-                  <div className="z-10">
-                    <h3 className="text-4xl font-black text-gray-900 mb-2 tracking-tighter">{searchResult.name}</h3>
-                    <p className="text-green-600 font-black flex items-center gap-2 text-lg uppercase tracking-widest"><CheckCircle2 size={24} /> Available to Mint</p>
+                  <div className="flex items-center justify-between">
+                    <div className="z-10">
+                      <h3 className="text-4xl font-black text-gray-900 mb-2 tracking-tighter">{searchResult.name}</h3>
+                      <p className="text-green-600 font-black flex items-center gap-2 text-lg uppercase tracking-widest"><CheckCircle2 size={24} /> Available to Mint</p>
+                    </div>
+                    <div className="z-10 p-6 bg-white rounded-3xl shadow-xl shadow-green-900/5"><Sparkles className="text-base-blue animate-pulse" size={48} /></div>
                   </div>
-                  <div className="z-10 p-6 bg-white rounded-3xl shadow-xl shadow-green-900/5"><Sparkles className="text-base-blue animate-pulse" size={48} /></div>
+                  {baseLabelOf(searchResult.name, network.rootName) && (
+                    <div className="relative z-10 mt-8 pt-8 border-t border-green-100 max-w-xl">
+                      <RegisterPanel 
+                        label={baseLabelOf(searchResult.name, network.rootName)!} 
+                        client={readClient} 
+                        getWriteClient={getWriteClient} 
+                        canWrite={!!address && isOnNetwork} 
+                        onRegistered={() => { rememberName(searchResult.name); fetchIdentityData(); refreshSearchResult(); }} 
+                      />
+                    </div>
+                  )}
                 </Card>
               ) : (
                 <div className={`bg-white rounded-[3rem] shadow-2xl overflow-hidden border ${searchResult.data?.isMine ? 'border-base-blue/50 ring-[12px] ring-blue-50' : 'border-gray-100'}`}>
                   <div className={`h-48 relative ${searchResult.data?.isMine ? 'bg-gradient-to-r from-base-blue via-blue-500 to-indigo-500' : 'bg-gradient-to-r from-gray-200 to-gray-300'}`}>
                      <div className="absolute inset-0 opacity-10" style={{backgroundImage: 'radial-gradient(circle, #fff 1px, transparent 1px)', backgroundSize: '24px 24px'}}></div>
-                     {searchResult.data?.isMine && (
+                     {searchResult.data?.isMine && userProfile?.name === searchResult.name && (
                        <div className="absolute top-6 right-8 bg-white/20 backdrop-blur-md px-4 py-1.5 rounded-full text-white text-[10px] font-black uppercase tracking-[0.2em] border border-white/30 flex items-center gap-2">
                          <User size={14}/> Primary Identity
                        </div>
@@ -649,20 +919,135 @@ const App = () => {
                   <div className="px-12 pb-12 relative">
                     <div className="relative -mt-16 mb-8 flex justify-between items-end">
                       <div className="w-32 h-32 rounded-[2.5rem] bg-white p-2 shadow-2xl inline-block border border-gray-100">
-                        {searchResult.data?.avatar ? <img src={searchResult.data.avatar} className="w-full h-full object-cover rounded-[2rem]" /> : <div className="w-full h-full bg-gray-50 rounded-[2rem] flex items-center justify-center text-gray-200"><User size={56} /></div>}
+                        <Avatar 
+                          src={searchResult.data?.avatar} 
+                          className="rounded-[2rem]" 
+                          iconSize={40} 
+                          fallback={<div className="w-full h-full bg-gray-50 rounded-[2rem] flex items-center justify-center text-gray-200"><User size={56} /></div>} 
+                        />
                       </div>
                       {searchResult.data?.isMine && (
-                        <button onClick={scrollToSubname} className="bg-base-blue text-white h-12 px-6 rounded-2xl text-xs font-black uppercase tracking-widest hover:bg-blue-700 transition-all flex items-center gap-3 group shadow-xl shadow-blue-500/30 active:scale-95 mb-2">
-                          <Settings size={18} className="group-hover:rotate-90 transition-transform duration-500"/> Manage Subnames
-                        </button>
+                        <div className="flex items-center gap-3 mb-2">
+                          {userProfile?.name !== searchResult.name && (
+                            <button onClick={() => handleSetPrimary(searchResult.name)} disabled={isSettingPrimary} className="bg-white text-base-blue h-12 px-6 rounded-2xl text-xs font-black uppercase tracking-widest border border-blue-100 hover:bg-blue-50 transition-all flex items-center gap-3 active:scale-95 disabled:opacity-50">
+                              {isSettingPrimary ? <Loader2 className="animate-spin" size={18}/> : <IdCard size={18}/>} Set as Primary
+                            </button>
+                          )}
+                          <button onClick={scrollToSubname} className="bg-base-blue text-white h-12 px-6 rounded-2xl text-xs font-black uppercase tracking-widest hover:bg-blue-700 transition-all flex items-center gap-3 group shadow-xl shadow-blue-500/30 active:scale-95">
+                            <Settings size={18} className="group-hover:rotate-90 transition-transform duration-500"/> Manage Subnames
+                          </button>
+                        </div>
                       )}
                     </div>
                     <div className="mb-10">
                       <h2 className="text-5xl font-black tracking-tighter text-gray-900 mb-4 selection:bg-base-blue selection:text-white">{searchResult.name}</h2>
                       <div className="flex items-center gap-4">
-                        <span className="px-4 py-2 bg-gray-50 rounded-xl text-xs font-mono font-bold text-gray-500 flex items-center gap-2 border border-gray-100"><Wallet size={14} className="text-base-blue"/> {searchResult.data?.address}</span>
+                        <span className="px-4 py-2 bg-gray-50 rounded-xl text-xs font-mono font-bold text-gray-500 flex items-center gap-2 border border-gray-100"><Wallet size={14} className="text-base-blue"/> {searchResult.data?.address ?? (searchResult.data?.resolver === ZeroAddress ? "No resolver set" : "No address record")}</span>
+                        <a 
+                          href={routePath({ page: "profile", name: searchResult.name })} 
+                          onClick={(e) => { e.preventDefault(); navigate({ page: "profile", name: searchResult.name }); }} 
+                          className="px-4 py-2 rounded-xl text-xs font-black uppercase tracking-widest text-base-blue flex items-center gap-2 border border-blue-100 hover:bg-blue-50"
+                        >
+                          <Share2 size={14}/> Public Profile
+                        </a>
                       </div>
+                      {!!searchResult.data?.coinAddresses?.length && (
+                        <div className="mt-6 space-y-2">
+                          {searchResult.data.coinAddresses.map(({ coinType, address: coinAddress }) => (
+                            <div key={coinType} className="flex items-center gap-3 text-xs font-mono font-bold text-gray-500">
+                              <span className="w-24 text-[10px] font-sans font-black text-gray-400 uppercase tracking-[0.2em]">{coinLabel(coinType)}</span>
+                              {coinAddress}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      {searchResult.data?.contenthash && (
+                        <div className="mt-6 flex items-center gap-3 text-xs font-mono font-bold text-gray-500">
+                          <span className="w-24 text-[10px] font-sans font-black text-gray-400 uppercase tracking-[0.2em]">Website</span>
+                          <a href={contenthashUrl(searchResult.data.contenthash, readClient.ipfsGateway)} target="_blank" rel="noopener noreferrer" className="text-base-blue hover:underline flex items-center gap-2 truncate">
+                            <Globe size={14} className="flex-shrink-0"/> {searchResult.data.contenthash.uri}
+                          </a>
+                        </div>
+                      )}
                     </div>
+                    <div ref={manageRef} className="scroll-mt-24" />
+                    <FuseState name={searchResult.name} client={readClient} className="pb-10 mb-10 border-b border-gray-100" />
+                    {searchResult.data?.isMine && baseLabelOf(searchResult.name, network.rootName) && (
+                      <div className="pb-10 mb-10 border-b border-gray-100">
+                        <span className="text-[10px] font-black text-gray-400 uppercase tracking-[0.25em] block mb-6">Registration</span>
+                        <RenewPanel 
+                          name={searchResult.name} 
+                          label={baseLabelOf(searchResult.name, network.rootName)!} 
+                          client={readClient} 
+                          getWriteClient={getWriteClient} 
+                        />
+                      </div>
+                    )}
+                    {(searchResult.data?.isMine || searchSafe) && searchResult.data?.resolver !== ZeroAddress && !offchainEntry && (
+                      <div className="pt-10 border-t border-gray-100">
+                        <span className="text-[10px] font-black text-gray-400 uppercase tracking-[0.25em] block mb-6">Text Records</span>
+                        <TextRecordEditor 
+                          name={searchResult.name} 
+                          resolver={searchResult.data.resolver} 
+                          client={readClient} 
+                          getWriteClient={getWriteClient} 
+                          safe={searchSafe} 
+                          onSaved={refreshSearchResult}
+                        />
+                      </div>
+                    )}
+                    {(searchResult.data?.isMine || searchSafe) && searchResult.data?.resolver !== ZeroAddress && !offchainEntry && (
+                      <div className="pt-10 mt-10 border-t border-gray-100">
+                        <span className="text-[10px] font-black text-gray-400 uppercase tracking-[0.25em] block mb-6">Address Records</span>
+                        <AddressRecordEditor 
+                          name={searchResult.name} 
+                          resolver={searchResult.data.resolver} 
+                          client={readClient} 
+                          getWriteClient={getWriteClient} 
+                          safe={searchSafe} 
+                          connectedAddress={address}
+                          onSaved={refreshSearchResult}
+                        />
+                      </div>
+                    )}
+                    {(searchResult.data?.isMine || searchSafe) && searchResult.data?.resolver !== ZeroAddress && !offchainEntry && (
+                      <div className="pt-10 mt-10 border-t border-gray-100">
+                        <span className="text-[10px] font-black text-gray-400 uppercase tracking-[0.25em] block mb-6">Website</span>
+                        <ContenthashEditor 
+                          name={searchResult.name} 
+                          resolver={searchResult.data.resolver} 
+                          client={readClient} 
+                          getWriteClient={getWriteClient} 
+                          safe={searchSafe} 
+                          onSaved={refreshSearchResult}
+                        />
+                      </div>
+                    )}
+                    {searchResult.data && searchResult.data.resolver !== ZeroAddress && !offchainEntry && (
+                      <div className="pt-10 mt-10 border-t border-gray-100">
+                        <span className="text-[10px] font-black text-gray-400 uppercase tracking-[0.25em] block mb-6">Backup</span>
+                        <RecordBackup 
+                          name={searchResult.name} 
+                          resolver={searchResult.data.resolver} 
+                          client={readClient} 
+                          getWriteClient={getWriteClient} 
+                          canWrite={!!(searchResult.data.isMine || searchSafe)} 
+                          safe={searchSafe} 
+                          onSaved={refreshSearchResult}
+                        />
+                      </div>
+                    )}
+                    {offchainEntry && gateway && sameAddress(offchainEntry.owner, address) && (
+                      <div className="pt-10 border-t border-gray-100">
+                        <span className="text-[10px] font-black text-gray-400 uppercase tracking-[0.25em] block mb-6">Offchain Records</span>
+                        <OffchainRecordEditor 
+                          entry={offchainEntry} 
+                          gateway={gateway} 
+                          getWriteClient={getWriteClient} 
+                          onSaved={(entry) => { setOffchainEntry(entry); refreshSearchResult(); }}
+                        />
+                      </div>
+                    )}
                   </div>
                 </div>
               )}
@@ -670,25 +1055,67 @@ const App = () => {
           )}
         </section>
 
-        <section ref={subnameRef} className="max-w-4xl mx-auto pt-16 border-t border-gray-200 scroll-mt-24">
+        <section ref={subnameRef} className={`max-w-4xl mx-auto pt-16 border-t border-gray-200 scroll-mt-24 ${isProfilePage ? 'hidden' : ''}`}>
            <div className="flex flex-col md:flex-row md:items-center justify-between mb-10 gap-4">
              <div>
                <h2 className="text-4xl font-[900] tracking-tight">Subname Manager</h2>
                <p className="text-gray-400 font-medium">Instantly provision L2 subnames for domains you own.</p>
              </div>
+             <div className="flex items-center bg-gray-100 rounded-full p-1 self-start md:self-auto">
+               {(gateway ? ['single', 'wrapped', 'batch', 'gasless'] as const : ['single', 'wrapped', 'batch'] as const).map(mode => (
+                 <button 
+                   key={mode} 
+                   onClick={() => setSubnameMode(mode)} 
+                   className={`px-5 py-2 rounded-full text-[10px] font-black uppercase tracking-widest transition-all ${subnameMode === mode ? 'bg-white text-base-blue shadow-sm' : 'text-gray-400 hover:text-gray-600'}`}
+                 >
+                   {mode === 'single' ? 'Single' : mode === 'wrapped' ? 'Wrapped' : mode === 'batch' ? 'Batch CSV' : 'Gasless'}
+                 </button>
+               ))}
+             </div>
            </div>
            
-           <div className={`grid grid-cols-1 md:grid-cols-3 gap-8 ${!address || !isOnBase ? 'opacity-50 pointer-events-none grayscale' : ''}`}>
+           <div className={`grid grid-cols-1 md:grid-cols-3 gap-8 ${!address || !isOnNetwork ? 'opacity-50 pointer-events-none grayscale' : ''}`}>
               <Card className="relative overflow-hidden group p-8">
                 <input 
                   type="text" 
                   value={parentName} 
-                  onChange={(e) => setParentName(e.target.value)} 
-                  placeholder="e.g. coffee.base.eth" 
+                  onChange={(e) => changeParentName(e.target.value)} 
+                  placeholder={`e.g. coffee.${network.rootName}`} 
                   className="w-full bg-gray-50 border border-gray-100 rounded-2xl px-5 py-4 text-lg font-bold outline-none focus:border-base-blue focus:bg-white focus:shadow-inner transition-all mb-4" 
                 />
+                <NameIssues report={parentReport} />
               </Card>
 
+              {subnameMode === 'wrapped' ? (
+                <Card className="relative md:col-span-2 p-8">
+                  <WrappedSubnameIssuer
+                    parent={parentName}
+                    client={readClient}
+                    getWriteClient={getWriteClient}
+                    connectedAddress={address}
+                    onIssued={() => { fetchIdentityData(); setSubnamesVersion(v => v + 1); }}
+                  />
+                </Card>
+              ) : subnameMode === 'gasless' && gateway ? (
+                <Card className="relative md:col-span-2 p-8">
+                  <GaslessSubnameIssuer
+                    parent={parentName}
+                    gateway={gateway}
+                    client={readClient}
+                    getWriteClient={getWriteClient}
+                    connectedAddress={address}
+                  />
+                </Card>
+              ) : subnameMode === 'batch' ? (
+                <Card className="relative md:col-span-2 p-8">
+                  <BulkIssuer 
+                    parent={parentName} 
+                    client={readClient} 
+                    getWriteClient={getWriteClient} 
+                    onComplete={() => { fetchIdentityData(); setSubnamesVersion(v => v + 1); }} 
+                  />
+                </Card>
+              ) : (
               <Card className="relative md:col-span-2 flex flex-col h-full p-8">
                 <div className="flex flex-col gap-8 flex-grow">
                    <div className="w-full">
@@ -701,9 +1128,10 @@ const App = () => {
                          className="flex-1 bg-gray-50 border border-gray-100 rounded-l-2xl px-5 py-4 text-lg font-bold outline-none focus:border-base-blue focus:bg-white transition-all" 
                        />
                        <div className="bg-gray-100 border border-l-0 border-gray-100 px-6 py-4 rounded-r-2xl text-gray-400 text-sm font-black uppercase tracking-widest">
-                         .{parentName || 'base.eth'}
+                         .{parentName || network.rootName}
                        </div>
                      </div>
+                     <NameIssues report={labelReport} className="mt-3" />
                    </div>
                    
                    <div className="w-full">
@@ -714,12 +1142,51 @@ const App = () => {
                         placeholder="0x..." 
                         className="w-full bg-gray-50 border border-gray-100 rounded-2xl px-5 py-4 text-sm font-mono font-bold outline-none focus:border-base-blue focus:bg-white transition-all" 
                       />
+                     <label className="flex items-center gap-3 mt-4 text-xs font-bold text-gray-500 cursor-pointer select-none">
+                       <input 
+                         type="checkbox" 
+                         checked={setAddressOnMint} 
+                         onChange={(e) => setSetAddressOnMint(e.target.checked)} 
+                         className="w-4 h-4 accent-[#0052FF]" 
+                       />
+                       Also resolve the subname to this address
+                     </label>
                    </div>
 
+                   {overwriteOwner && (
+                     <div className="p-4 bg-amber-50 text-amber-700 rounded-2xl flex items-center gap-3 border border-amber-100 text-sm font-bold">
+                       <AlertCircle size={18} className="flex-shrink-0"/>
+                       <span className="flex-1 break-all">{subLabel}.{parentName} is already owned by {overwriteOwner}. Issuing it again replaces that owner.</span>
+                       <button onClick={() => setOverwriteOwner(null)} className="flex-shrink-0 px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-amber-700 hover:bg-amber-100">Cancel</button>
+                       <button onClick={() => handleMintSubname(true)} className="flex-shrink-0 px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-amber-500 text-white hover:bg-amber-600">Overwrite</button>
+                     </div>
+                   )}
+
+                   {parentSafe && (mintSafeCalls ? (
+                     <SafeProposal 
+                       safe={parentSafe} 
+                       name={cleanParentName} 
+                       calls={mintSafeCalls} 
+                       client={readClient} 
+                       getWriteClient={getWriteClient} 
+                       onClose={() => setMintSafeCalls(null)} 
+                     />
+                   ) : (
+                     <SafePending safe={parentSafe} name={cleanParentName} client={readClient} />
+                   ))}
+
+                   {mintStatus && (
+                     <div className={`p-4 rounded-2xl flex items-center gap-3 text-sm font-bold border break-all ${mintStatus.type === 'success' ? 'bg-green-50 text-green-700 border-green-100' : 'bg-red-50 text-red-600 border-red-100'}`}>
+                       {mintStatus.type === 'success' ? <CheckCircle2 size={18} className="flex-shrink-0"/> : <AlertCircle size={18} className="flex-shrink-0"/>}
+                       <span className="flex-1">{mintStatus.msg}</span>
+                       <TxLink network={network} hash={mintStatus.txHash} />
+                     </div>
+                   )}
+
                    <div className="flex items-center justify-end mt-4 pt-6 border-t border-gray-50">
                      <button 
-                       onClick={handleMintSubname} 
-                       disabled={isMinting || !subLabel || !parentName || !targetAddress} 
+                       onClick={() => handleMintSubname()} 
+                       disabled={isMinting || !subLabel || !parentName || !targetAddress || !!labelReport?.error || !!parentReport?.error} 
                        className="h-14 px-12 bg-base-blue text-white rounded-2xl font-black uppercase tracking-widest text-xs hover:bg-blue-600 disabled:bg-gray-50 disabled:text-gray-200 transition-all flex items-center gap-3 shadow-2xl shadow-blue-500/20 active:scale-95"
                      >
                        {isMinting ? <Loader2 className="animate-spin" size={20}/> : <Sparkles size={20}/>}
@@ -728,10 +1195,23 @@ const App = () => {
                    </div>
                 </div>
               </Card>
+              )}
            </div>
+
+           {parentName && !parentReport?.error && (
+             <Card className="mt-8 p-8">
+               <SubnameTable
+                 parent={parentName}
+                 client={readClient}
+                 getWriteClient={getWriteClient}
+                 connectedAddress={address}
+                 refreshKey={subnamesVersion}
+               />
+             </Card>
+           )}
         </section>
 
-        {address && (
+        {address && !isProfilePage && (
           <section className="max-w-4xl mx-auto pt-20 space-y-8 animate-in fade-in slide-in-from-bottom-6 duration-1000">
             <div className="flex items-center justify-between">
                 <div className="flex items-center gap-4">
@@ -761,6 +1241,33 @@ const App = () => {
                          {userProfile?.name || "Unidentified Wallet"}
                        </h3>
                      </div>
+                     {userProfile && !userProfile.verified && (
+                       <div className="mt-4 p-4 bg-amber-50 text-amber-700 rounded-2xl flex items-start gap-3 border border-amber-100 text-xs font-bold">
+                         <AlertCircle size={16} className="flex-shrink-0 mt-0.5"/>
+                         <span>{userProfile.name} no longer resolves to this wallet. Update its address record or set a different primary name.</span>
+                       </div>
+                     )}
+                     {(!userProfile || !userProfile.verified) && (
+                       <div className="mt-4 flex items-center gap-2">
+                         <input 
+                           type="text" 
+                           value={primaryInput} 
+                           onChange={(e) => setPrimaryInput(e.target.value)} 
+                           placeholder={`Name you own (e.g. coffee.${network.rootName})`} 
+                           className="flex-1 min-w-0 bg-gray-50 border border-gray-100 rounded-2xl px-4 py-3 text-sm font-bold outline-none focus:border-base-blue focus:bg-white transition-all" 
+                         />
+                         <button 
+                           onClick={() => handleSetPrimary(primaryInput)} 
+                           disabled={isSettingPrimary || !primaryInput.trim() || !isOnNetwork} 
+                           className="h-11 px-5 bg-base-blue text-white rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-blue-600 disabled:bg-gray-50 disabled:text-gray-300 transition-all flex items-center gap-2 flex-shrink-0"
+                         >
+                           {isSettingPrimary ? <Loader2 className="animate-spin" size={14}/> : <IdCard size={14}/>} Set Primary
+                         </button>
+                       </div>
+                     )}
+                     {primaryStatus && (
+                       <p className={`mt-3 text-xs font-bold ${primaryStatus.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>{primaryStatus.msg}</p>
+                     )}
                    </div>
                    
                    <div className="flex items-center justify-between pt-8 border-t border-gray-100 relative z-10">
@@ -777,39 +1284,34 @@ const App = () => {
                 </Card>
 
                 <Card className="flex flex-col min-h-[300px] p-10">
-                   <span className="text-[10px] font-black text-gray-400 uppercase tracking-[0.25em] block mb-8">Session Activity Log</span>
-                   <div className="flex-grow space-y-4">
-                     {recentMints.length === 0 ? (
-                       <div className="flex flex-col items-center justify-center h-full text-gray-300 py-10 text-center">
-                         <div className="w-20 h-20 rounded-[2rem] bg-gray-50 flex items-center justify-center mb-6 shadow-inner border border-gray-100/50">
-                            <Sparkles size={40} className="opacity-30 text-base-blue"/>
-                         </div>
-                         <p className="text-[10px] font-black text-gray-400 uppercase tracking-[0.2em]">Activity Empty</p>
-                       </div>
-                     ) : (
-                       recentMints.map((mint, i) => (
-                         <div key={i} className="flex items-center justify-between p-5 bg-gray-50 rounded-3xl border border-gray-100 group hover:border-blue-200 hover:bg-white transition-all duration-300">
-                           <div className="flex items-center gap-4">
-                             <div className="w-12 h-12 rounded-2xl bg-white flex items-center justify-center shadow-sm border border-gray-100 group-hover:bg-blue-50 group-hover:border-blue-100 transition-all">
-                               <Box size={22} className="text-base-blue"/>
-                             </div>
-                             <div className="flex flex-col">
-                                <span className="text-lg font-black text-gray-900 leading-tight">{mint.name}</span>
-                             </div>
-                           </div>
-                           <a 
-                             href={`${BASE_EXPLORER}/tx/${mint.txHash}`} 
-                             target="_blank" 
-                             className="w-12 h-12 flex items-center justify-center bg-transparent hover:bg-gray-100 rounded-2xl transition-all text-gray-300 hover:text-base-blue"
-                           >
-                             <ExternalLink size={20}/>
-                           </a>
-                         </div>
-                       ))
+                   <div className="flex items-center justify-between mb-8">
+                     <span className="text-[10px] font-black text-gray-400 uppercase tracking-[0.25em]">Recent Activity</span>
+                     {activity.some(entry => !isUnsettled(entry)) && (
+                       <button onClick={() => tracker?.clearSettled()} className="text-[10px] font-black text-gray-300 uppercase tracking-[0.2em] hover:text-gray-900">Clear</button>
                      )}
                    </div>
+                   <div className="flex-grow space-y-4">
+                     <ActivityLog entries={activity} network={network} />
+                   </div>
                 </Card>
             </div>
+
+            {auth && (
+              <Card className="p-10">
+                 <span className="text-[10px] font-black text-gray-400 uppercase tracking-[0.25em] block mb-8">Sign-In with Ethereum</span>
+                 <SignInPanel auth={auth} getWriteClient={getWriteClient} connectedAddress={address} />
+              </Card>
+            )}
+
+            <Card className="p-10">
+               <span className="text-[10px] font-black text-gray-400 uppercase tracking-[0.25em] block mb-8">Owned Names</span>
+               <Portfolio 
+                 client={readClient} 
+                 owner={address} 
+                 primaryName={userProfile?.verified ? userProfile.name : null} 
+                 onSelect={(name) => navigate({ page: "manage", name })} 
+               />
+            </Card>
           </section>
         )}
       </main>
@@ -820,10 +1322,37 @@ const App = () => {
             <p className="text-[10px] font-black uppercase tracking-[0.4em] text-gray-400">Powered by Base L2 & ENS</p>
          </div>
       </footer>
+
+      {isPickingWallet && (
+        <WalletPicker
+          wallets={wallets}
+          connectingId={connectingId}
+          onSelect={connectWallet}
+          onClose={() => setIsPickingWallet(false)}
+        />
+      )}
+
+      {pendingTx && (
+        <TxConfirm
+          preview={pendingTx.preview}
+          network={network}
+          onConfirm={() => settlePendingTx(true)}
+          onCancel={() => settlePendingTx(false)}
+        />
+      )}
     </div>
   );
 };
 
+// `/embed/:name` renders only the profile card, on the default network,
+// for <base-name-card> iframes on other sites.
+const renderEmbed = (name: string) => {
+  document.body.style.background = "transparent";
+  const client = new BaseNamesClient({ network: ENV_NETWORK, ipfsGateway: import.meta.env.VITE_IPFS_GATEWAY });
+  return <EmbedCard name={name} client={client} />;
+};
+
+const initialRoute = parseRoute(window.location.pathname);
 const container = document.getElementById("root");
 const root = createRoot(container!);
-root.render(<App />);
\ No newline at end of file
+root.render(initialRoute.page === "embed" ? renderEmbed(initialRoute.name) : <App />);
\ No newline at end of file
@@ -0,0 +1,98 @@
+// --- ABIs ---
+export const REGISTRY_ABI = [
+  "function owner(bytes32 node) view returns (address)",
+  "function resolver(bytes32 node) view returns (address)",
+  "function setSubnodeOwner(bytes32 node, bytes32 label, address owner) external",
+  "function setSubnodeRecord(bytes32 node, bytes32 label, address owner, address resolver, uint64 ttl) external",
+  "function setOwner(bytes32 node, address owner) external",
+  "function setResolver(bytes32 node, address resolver) external",
+  "function setApprovalForAll(address operator, bool approved) external",
+  "function isApprovedForAll(address owner, address operator) view returns (bool)",
+  "event NewOwner(bytes32 indexed node, bytes32 indexed label, address owner)",
+  "event Transfer(bytes32 indexed node, address owner)",
+  "error Unauthorized()"
+];
+
+export const RESOLVER_ABI = [
+  "function text(bytes32 node, string key) view returns (string)",
+  "function name(bytes32 node) view returns (string)",
+  "function addr(bytes32 node) view returns (address)",
+  "function addr(bytes32 node, uint256 coinType) view returns (bytes)",
+  "function setAddr(bytes32 node, address a) external",
+  "function setAddr(bytes32 node, uint256 coinType, bytes a) external",
+  "function setText(bytes32 node, string key, string value) external",
+  "function contenthash(bytes32 node) view returns (bytes)",
+  "function setContenthash(bytes32 node, bytes hash) external",
+  "function multicall(bytes[] data) external returns (bytes[] results)",
+  "function resolve(bytes name, bytes data) view returns (bytes)",
+  "function supportsInterface(bytes4 interfaceId) view returns (bool)",
+  "event AddressChanged(bytes32 indexed node, uint256 coinType, bytes newAddress)",
+  "event TextChanged(bytes32 indexed node, string indexed indexedKey, string key, string value)"
+];
+
+// Interface a CCIP-Read gateway answers for an offchain resolver (ENS's
+// reference `IResolverService`).
+export const RESOLVER_SERVICE_ABI = [
+  "function resolve(bytes name, bytes data) view returns (bytes result, uint64 expires, bytes sig)"
+];
+
+export const REGISTRAR_ABI = [
+  "function balanceOf(address owner) view returns (uint256)",
+  "function ownerOf(uint256 tokenId) view returns (address)",
+  "function nameExpires(uint256 id) view returns (uint256)",
+  "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)"
+];
+
+export const REVERSE_REGISTRAR_ABI = [
+  "function setName(string name) returns (bytes32)"
+];
+
+export const CONTROLLER_ABI = [
+  "function available(string name) view returns (bool)",
+  "function rentPrice(string name, uint256 duration) view returns (tuple(uint256 base, uint256 premium) price)",
+  "function registerPrice(string name, uint256 duration) view returns (uint256)",
+  "function discountedRegisterPrice(string name, uint256 duration, bytes32 discountKey) view returns (uint256)",
+  "function getActiveDiscounts() view returns (tuple(bool active, address discountValidator, bytes32 key, uint256 discount)[])",
+  "function register(tuple(string name, address owner, uint256 duration, address resolver, bytes[] data, bool reverseRecord) request) payable",
+  "function renew(string name, uint256 duration) payable",
+  "error AlreadyRegisteredWithDiscount(address sender)",
+  "error DurationTooShort(uint256 duration)",
+  "error InactiveDiscount(bytes32 key)",
+  "error InsufficientValue()",
+  "error InvalidDiscount(bytes32 key, bytes data)",
+  "error NameNotAvailable(string name)",
+  "error ResolverRequiredWhenDataSupplied()",
+  "error TransferFailed()"
+];
+
+export const NAME_WRAPPER_ABI = [
+  "function getData(uint256 id) view returns (address owner, uint32 fuses, uint64 expiry)",
+  "function wrap(bytes name, address wrappedOwner, address resolver) external",
+  "function setSubnodeRecord(bytes32 parentNode, string label, address owner, address resolver, uint64 ttl, uint32 fuses, uint64 expiry) external returns (bytes32)",
+  "error Unauthorised(bytes32 node, address addr)",
+  "error IncompatibleParent()",
+  "error IncorrectTargetOwner(address owner)",
+  "error LabelTooLong(string label)",
+  "error OperationProhibited(bytes32 node)"
+];
+
+// OP Stack predeploy that prices the L1 data component of a Base transaction.
+export const GAS_PRICE_ORACLE_ABI = [
+  "function getL1Fee(bytes data) view returns (uint256)"
+];
+
+// EIP-1271 signature check for contract accounts such as smart wallets and Safes.
+export const ERC1271_ABI = [
+  "function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)"
+];
+
+export const SAFE_ABI = [
+  "function getOwners() view returns (address[])",
+  "function getThreshold() view returns (uint256)",
+  "function nonce() view returns (uint256)",
+  "function VERSION() view returns (string)"
+];
+
+export const MULTI_SEND_ABI = [
+  "function multiSend(bytes transactions) payable"
+];
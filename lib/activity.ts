@@ -0,0 +1,202 @@
+import { ethers } from "ethers";
+import type { TransactionResponse } from "ethers";
+import type { BaseNamesClient } from "./client";
+import { KeyValueStore, browserStore, readJson, writeJson } from "./storage";
+
+export type TrackedTxStatus = "pending" | "confirmed" | "failed" | "replaced" | "cancelled" | "dropped";
+
+export interface TrackedTx {
+  hash: string;
+  /** What the transaction does, e.g. "Register alice.base.eth". */
+  description: string;
+  from: string;
+  nonce: number;
+  to: string | null;
+  /** keccak256 of the calldata, to recognise a sped-up copy of the same call. */
+  dataHash: string;
+  status: TrackedTxStatus;
+  submittedAt: number;
+  /** Head block when the transaction was sent; replacement searches start here. */
+  submittedBlock: number;
+  blockNumber?: number;
+  confirmations: number;
+  /** The transaction that took this one's nonce, for "replaced" and "cancelled". */
+  replacedBy?: string;
+}
+
+/** Confirmations after which a transaction is no longer re-checked for reorgs. */
+export const FINAL_CONFIRMATIONS = 12;
+
+const MAX_ENTRIES = 50;
+// A transaction no node knows about and whose nonce is still free is given
+// this long to reappear before it is reported as dropped.
+const DROP_AFTER_MS = 10 * 60 * 1000;
+
+const activityKey = (chainId: number, account: string) => `basenames:activity:${chainId}:${account.toLowerCase()}`;
+
+export const loadActivity = (client: BaseNamesClient, account: string, store: KeyValueStore = browserStore): TrackedTx[] =>
+  readJson<TrackedTx[]>(store, activityKey(client.chainId, account), []);
+
+export const saveActivity = (client: BaseNamesClient, account: string, entries: TrackedTx[], store: KeyValueStore = browserStore): void =>
+  writeJson(store, activityKey(client.chainId, account), entries.slice(0, MAX_ENTRIES));
+
+/** Whether `entry` can still change and so needs polling. */
+export const isUnsettled = (entry: TrackedTx): boolean =>
+  entry.status === "pending" || ((entry.status === "confirmed" || entry.status === "failed") && entry.confirmations < FINAL_CONFIRMATIONS);
+
+/**
+ * Persistent log of the transactions one account sent on the client's
+ * chain. Pending hashes are picked up again after a reload; `refresh`
+ * follows them to their receipt, counts confirmations, moves a mined
+ * transaction back to pending when a reorg drops its receipt and, once
+ * its nonce is taken by another transaction, reports it as replaced
+ * (sped up), cancelled or dropped.
+ */
+export class ActivityTracker {
+  readonly account: string;
+  #entries: TrackedTx[];
+  #refreshing: Promise<void> | null = null;
+  readonly #listeners = new Set<(entries: TrackedTx[]) => void>();
+
+  constructor(private readonly client: BaseNamesClient, account: string, private readonly store: KeyValueStore = browserStore) {
+    this.account = ethers.getAddress(account);
+    this.#entries = loadActivity(client, this.account, store);
+  }
+
+  /** Tracked transactions, newest first. */
+  get entries(): TrackedTx[] {
+    return this.#entries;
+  }
+
+  /** Subscribes to changes; returns an unsubscribe function. */
+  subscribe(listener: (entries: TrackedTx[]) => void): () => void {
+    this.#listeners.add(listener);
+    return () => { this.#listeners.delete(listener); };
+  }
+
+  /** Starts tracking a transaction that was just sent. */
+  async add(tx: TransactionResponse, description: string): Promise<void> {
+    if (this.#entries.some(entry => entry.hash === tx.hash)) return;
+    const submittedBlock = await this.client.provider.getBlockNumber().catch(() => 0);
+    this.#update([{
+      hash: tx.hash,
+      description,
+      from: tx.from,
+      nonce: tx.nonce,
+      to: tx.to,
+      dataHash: ethers.keccak256(tx.data),
+      status: "pending",
+      submittedAt: Date.now(),
+      submittedBlock,
+      confirmations: 0
+    }, ...this.#entries]);
+  }
+
+  /** Removes settled transactions from the log. */
+  clearSettled(): void {
+    this.#update(this.#entries.filter(isUnsettled));
+  }
+
+  /**
+   * Polls unsettled transactions every `intervalMs` until stopped. Returns
+   * a function that stops polling.
+   */
+  watch(intervalMs = 4000): () => void {
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout>;
+    const tick = async () => {
+      await this.refresh().catch(() => {});
+      if (!stopped) timer = setTimeout(tick, intervalMs);
+    };
+    tick();
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }
+
+  /** Re-checks every unsettled transaction once. Concurrent calls share one pass. */
+  refresh(): Promise<void> {
+    if (!this.#refreshing) {
+      this.#refreshing = this.#refresh().finally(() => { this.#refreshing = null; });
+    }
+    return this.#refreshing;
+  }
+
+  async #refresh(): Promise<void> {
+    if (!this.#entries.some(isUnsettled)) return;
+    const provider = this.client.provider;
+    const head = await provider.getBlockNumber();
+    // Fetched at most once per pass, and only if some entry has no receipt.
+    let nonce: Promise<number> | null = null;
+    const latestNonce = () => nonce ??= provider.getTransactionCount(this.account, "latest");
+    const added: TrackedTx[] = [];
+
+    const next = await Promise.all(this.#entries.map(async entry => {
+      if (!isUnsettled(entry)) return entry;
+
+      const receipt = await provider.getTransactionReceipt(entry.hash);
+      if (receipt) {
+        return {
+          ...entry,
+          status: receipt.status === 1 ? "confirmed" : "failed",
+          blockNumber: receipt.blockNumber,
+          confirmations: Math.max(1, head - receipt.blockNumber + 1)
+        } as TrackedTx;
+      }
+
+      // Mined earlier but its block is gone: a reorg put it back in the pool.
+      if (entry.status !== "pending") return { ...entry, status: "pending", blockNumber: undefined, confirmations: 0 } as TrackedTx;
+
+      if (await latestNonce() > entry.nonce) {
+        const replacement = await this.#findReplacement(entry, head);
+        if (!replacement) {
+          // A node that lags behind may not have the receipt yet.
+          return await provider.getTransaction(entry.hash) ? entry : { ...entry, status: "dropped" } as TrackedTx;
+        }
+        // Mined since the receipt check; the next pass picks it up.
+        if (replacement.hash === entry.hash) return entry;
+        const sameCall = replacement.to === entry.to && ethers.keccak256(replacement.data) === entry.dataHash;
+        if (sameCall && !this.#entries.some(e => e.hash === replacement.hash)) {
+          added.push({ ...entry, hash: replacement.hash, status: "pending", confirmations: 0, blockNumber: undefined });
+        }
+        return { ...entry, status: sameCall ? "replaced" : "cancelled", replacedBy: replacement.hash } as TrackedTx;
+      }
+
+      if (Date.now() - entry.submittedAt > DROP_AFTER_MS && !(await provider.getTransaction(entry.hash))) {
+        return { ...entry, status: "dropped" } as TrackedTx;
+      }
+      return entry;
+    }));
+
+    // Entries added while this pass ran are kept as they are.
+    const updated = new Map(next.map(entry => [entry.hash, entry]));
+    this.#update([...added, ...this.#entries.map(entry => updated.get(entry.hash) ?? entry)]);
+  }
+
+  // Looks for the mined transaction that used `entry`'s nonce, once the
+  // latest nonce has moved past it. The account's nonce at past blocks
+  // narrows the search to the one block that used it, so only that block
+  // is fetched with its transactions, however far back it is.
+  async #findReplacement(entry: TrackedTx, head: number): Promise<ethers.TransactionResponse | null> {
+    const provider = this.client.provider;
+    const nonceAt = (block: number) => provider.getTransactionCount(this.account, block);
+    let low = entry.submittedBlock;
+    let high = head;
+    if (await nonceAt(high) <= entry.nonce) return null;
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2);
+      if (await nonceAt(mid) > entry.nonce) high = mid;
+      else low = mid + 1;
+    }
+    const block = await provider.getBlock(high, true);
+    return block?.prefetchedTransactions.find(tx =>
+      tx.nonce === entry.nonce && tx.from.toLowerCase() === this.account.toLowerCase()) ?? null;
+  }
+
+  #update(entries: TrackedTx[]): void {
+    this.#entries = entries.slice(0, MAX_ENTRIES);
+    saveActivity(this.client, this.account, this.#entries, this.store);
+    this.#listeners.forEach(listener => listener(this.#entries));
+  }
+}
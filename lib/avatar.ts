@@ -0,0 +1,128 @@
+import { ethers, Contract, FetchRequest } from "ethers";
+import type { Provider } from "ethers";
+import type { BaseNamesClient } from "./client";
+import { BASE_CHAIN_ID_DECIMAL, BASE_RPC_URL } from "./config";
+import { ResilientProvider } from "./rpc";
+
+export const DEFAULT_IPFS_GATEWAY = "https://ipfs.io";
+export const ARWEAVE_GATEWAY = "https://arweave.net";
+
+// Public RPCs for chains NFT avatars commonly live on, for clients on another chain.
+const NFT_CHAIN_RPCS: Record<number, string[]> = {
+  1: ["https://ethereum-rpc.publicnode.com", "https://eth.llamarpc.com"],
+  [BASE_CHAIN_ID_DECIMAL]: [BASE_RPC_URL, "https://base-rpc.publicnode.com"]
+};
+
+const NFT_ABI = [
+  "function ownerOf(uint256 tokenId) view returns (address)",
+  "function tokenURI(uint256 tokenId) view returns (string)",
+  "function balanceOf(address account, uint256 id) view returns (uint256)",
+  "function uri(uint256 id) view returns (string)"
+];
+
+const METADATA_TIMEOUT_MS = 5000;
+
+export interface NftAvatar {
+  chainId: number;
+  standard: "erc721" | "erc1155";
+  contract: string;
+  tokenId: bigint;
+}
+
+/** Parses an ENSIP-12 `eip155:<chain>/<erc721|erc1155>:<contract>/<tokenId>` record. */
+export const parseNftAvatar = (record: string): NftAvatar | null => {
+  const match = record.trim().match(/^eip155:(\d+)\/(erc721|erc1155):(0x[0-9a-f]{40})\/(\d+)$/i);
+  if (!match) return null;
+  return {
+    chainId: Number(match[1]),
+    standard: match[2].toLowerCase() as NftAvatar["standard"],
+    contract: ethers.getAddress(match[3].toLowerCase()),
+    tokenId: BigInt(match[4])
+  };
+};
+
+/**
+ * Turns an `http(s)`, `ipfs://`, `ipns://`, `ar://` or `data:` URI, or a
+ * bare IPFS CID, into something a browser can load. Returns null for
+ * anything else.
+ */
+export const resolveMediaUri = (uri: string, ipfsGateway: string = DEFAULT_IPFS_GATEWAY): string | null => {
+  const value = uri.trim();
+  const gateway = ipfsGateway.replace(/\/+$/, "");
+  if (/^data:/i.test(value)) return value;
+  if (/^https?:\/\//i.test(value)) return value;
+  if (/^ipfs:\/\//i.test(value)) return `${gateway}/ipfs/${value.slice(7).replace(/^ipfs\//i, "")}`;
+  if (/^ipns:\/\//i.test(value)) return `${gateway}/ipns/${value.slice(7)}`;
+  if (/^ar:\/\//i.test(value)) return `${ARWEAVE_GATEWAY}/${value.slice(5)}`;
+  if (/^(Qm[1-9A-HJ-NP-Za-km-z]{44}|b[a-z2-7]{58,})(\/.*)?$/.test(value)) return `${gateway}/ipfs/${value}`;
+  return null;
+};
+
+const nftProviders = new Map<number, Provider>();
+
+// The client's own provider when the NFT lives on its chain, otherwise a
+// shared provider over the chain's public RPCs.
+const providerForChain = (client: BaseNamesClient, chainId: number): Provider | null => {
+  if (chainId === client.chainId) return client.provider;
+  if (!NFT_CHAIN_RPCS[chainId]) return null;
+  let provider = nftProviders.get(chainId);
+  if (!provider) {
+    provider = new ResilientProvider(NFT_CHAIN_RPCS[chainId], chainId);
+    nftProviders.set(chainId, provider);
+  }
+  return provider;
+};
+
+/**
+ * Resolves an NFT avatar to its image URL. The NFT must be held by
+ * `owner`, the address the name resolves to, as ENSIP-12 requires;
+ * otherwise, or when the metadata has no usable image, returns null.
+ */
+export const resolveNftAvatar = async (client: BaseNamesClient, nft: NftAvatar, owner: string): Promise<string | null> => {
+  const provider = providerForChain(client, nft.chainId);
+  if (!provider) return null;
+  const token = new Contract(nft.contract, NFT_ABI, provider);
+
+  let metadataUri: string;
+  if (nft.standard === "erc721") {
+    const [holder, uri] = await Promise.all([token.ownerOf(nft.tokenId), token.tokenURI(nft.tokenId)]);
+    if (!ethers.isAddress(holder) || holder.toLowerCase() !== owner.toLowerCase()) return null;
+    metadataUri = uri;
+  } else {
+    const [balance, uri] = await Promise.all([token.balanceOf(owner, nft.tokenId), token.uri(nft.tokenId)]);
+    if (balance === 0n) return null;
+    // ERC-1155 substitutes `{id}` with the zero-padded hex token id.
+    metadataUri = uri.replace(/\{id\}/gi, nft.tokenId.toString(16).padStart(64, "0"));
+  }
+
+  const metadataUrl = resolveMediaUri(metadataUri, client.ipfsGateway);
+  if (!metadataUrl) return null;
+  const request = new FetchRequest(metadataUrl);
+  request.timeout = METADATA_TIMEOUT_MS;
+  const response = await request.send();
+  if (!response.ok()) return null;
+  const metadata = response.bodyJson;
+
+  const image: string = metadata?.image ?? metadata?.image_url ?? "";
+  if (image) return resolveMediaUri(image, client.ipfsGateway);
+  if (typeof metadata?.image_data === "string" && metadata.image_data.trim().startsWith("<svg")) {
+    return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(metadata.image_data)}`;
+  }
+  return null;
+};
+
+/**
+ * Resolves an ENSIP-12 `avatar` text record to a loadable image URL, or ""
+ * when the record is empty, unsupported or an NFT `owner` doesn't hold.
+ */
+export const resolveAvatar = async (client: BaseNamesClient, record: string, owner?: string | null): Promise<string> => {
+  if (!record?.trim()) return "";
+  const nft = parseNftAvatar(record);
+  if (!nft) return resolveMediaUri(record, client.ipfsGateway) ?? "";
+  if (!owner) return "";
+  try {
+    return await resolveNftAvatar(client, nft, owner) ?? "";
+  } catch {
+    return "";
+  }
+};
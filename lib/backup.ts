@@ -0,0 +1,190 @@
+import { ethers } from "ethers";
+import type { BaseNamesClient } from "./client";
+import { COIN_TYPES, CoinAddress, encodeCoinRecord, formatCoinRecord } from "./coins";
+import { decodeContenthash, encodeContenthash } from "./contenthash";
+import type { ScanPageOptions } from "./portfolio";
+import { RecordChange, RecordUpdate, TEXT_RECORD_KEYS, diffTextRecords } from "./records";
+import type { ResolverInfo } from "./resolution";
+import { KeyValueStore, browserStore, readJson, writeJson } from "./storage";
+import type { SubnameEntry } from "./subnames";
+import { sameAddress, toNodeHash } from "./utils";
+
+/** Every record of a name, as exported to a JSON file and imported back. */
+export interface RecordSet {
+  version: 1;
+  name: string;
+  chainId: number;
+  exportedAt: string;
+  /** Resolver the records were read from. */
+  resolver: string;
+  /** Address records: checksummed for EVM coin types, the raw record bytes as hex for others. */
+  addresses: CoinAddress[];
+  /** Text records by key. An empty value clears the key on import. */
+  texts: Record<string, string>;
+  /** Contenthash URI, or "" when unset. */
+  contenthash: string;
+  /** Subnames and their owners at export time. Informational; not imported. */
+  subnames: { name: string; owner: string }[];
+}
+
+/** Progress of a log scan for the text keys and coin types ever set on one node of one resolver. */
+export interface RecordKeyScan {
+  resolver: string;
+  node: string;
+  nextBlock: number;
+  textKeys: string[];
+  coinTypes: number[];
+}
+
+/** How a record set differs from the records a name has live. */
+export interface RecordSetDiff {
+  texts: RecordChange[];
+  addresses: { coinType: number; from: string; to: string }[];
+  contenthash: { from: string; to: string } | null;
+}
+
+const DEFAULT_CHUNK_SIZE = 10_000;
+
+const scanKey = (chainId: number, resolver: string, node: string) => `basenames:records:${chainId}:${resolver.toLowerCase()}:${node}`;
+
+export const loadRecordKeyScan = (client: BaseNamesClient, name: string, resolver: string, store: KeyValueStore = browserStore): RecordKeyScan => {
+  const node = toNodeHash(name);
+  return readJson<RecordKeyScan>(store, scanKey(client.chainId, resolver, node), {
+    resolver,
+    node,
+    nextBlock: client.startBlock,
+    textKeys: [],
+    coinTypes: []
+  });
+};
+
+export const saveRecordKeyScan = (client: BaseNamesClient, scan: RecordKeyScan, store: KeyValueStore = browserStore): void =>
+  writeJson(store, scanKey(client.chainId, scan.resolver, scan.node), scan);
+
+/** Scans one chunk of `TextChanged` and `AddressChanged` logs for `scan.node` starting at `scan.nextBlock`. */
+export const scanRecordKeysPage = async (client: BaseNamesClient, scan: RecordKeyScan, options: ScanPageOptions): Promise<RecordKeyScan> => {
+  const fromBlock = scan.nextBlock;
+  const endBlock = Math.min(options.toBlock, fromBlock + (options.chunkSize ?? DEFAULT_CHUNK_SIZE) - 1);
+  if (fromBlock > endBlock) return scan;
+
+  const resolver = client.resolver(scan.resolver).interface;
+  const textTopic = resolver.getEvent("TextChanged")!.topicHash;
+  const addressTopic = resolver.getEvent("AddressChanged")!.topicHash;
+  const logs = await client.provider.getLogs({
+    address: scan.resolver,
+    topics: [[textTopic, addressTopic], scan.node],
+    fromBlock,
+    toBlock: endBlock
+  });
+
+  const textKeys = new Set(scan.textKeys);
+  const coinTypes = new Set(scan.coinTypes);
+  logs.forEach(log => {
+    const event = resolver.parseLog(log);
+    if (event?.name === "TextChanged") textKeys.add(event.args.key);
+    if (event?.name === "AddressChanged") coinTypes.add(Number(event.args.coinType));
+  });
+  return { ...scan, nextBlock: endBlock + 1, textKeys: [...textKeys], coinTypes: [...coinTypes] };
+};
+
+/**
+ * Reads every record of `name` from `resolver`: the well-known text keys
+ * and coin types plus those a scan found in its logs. Unset records are
+ * left out.
+ */
+export const exportRecordSet = async (client: BaseNamesClient, name: string, resolver: ResolverInfo, scan: RecordKeyScan, subnames: SubnameEntry[] = []): Promise<RecordSet> => {
+  const keys = [...new Set([...TEXT_RECORD_KEYS, ...scan.textKeys])];
+  const coinTypes = [...new Set([...COIN_TYPES.map(c => c.coinType), ...scan.coinTypes])];
+  const [texts, addresses, contenthash] = await Promise.all([
+    client.getTextRecords(name, keys, resolver),
+    client.getRawAddresses(name, coinTypes, resolver),
+    client.getContenthash(name, resolver)
+  ]);
+  return {
+    version: 1,
+    name,
+    chainId: client.chainId,
+    exportedAt: new Date().toISOString(),
+    resolver: resolver.address,
+    addresses: addresses
+      .map(({ coinType, data }) => ({ coinType, address: formatCoinRecord(coinType, data) }))
+      .filter(entry => entry.address),
+    texts: Object.fromEntries(Object.entries(texts).filter(([, value]) => value !== "")),
+    contenthash: contenthash?.uri ?? "",
+    subnames: subnames
+      .filter(entry => entry.owner !== ethers.ZeroAddress)
+      .map(({ name, owner }) => ({ name, owner }))
+  };
+};
+
+/** Parses and checks an exported record set. Throws on anything that can't be imported. */
+export const parseRecordSet = (json: string): RecordSet => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  if (data?.version !== 1 || typeof data.name !== "string") throw new Error("The file is not a record set export.");
+
+  const texts = data.texts ?? {};
+  if (typeof texts !== "object" || Array.isArray(texts) || Object.values(texts).some(value => typeof value !== "string")) {
+    throw new Error("Text records must map keys to strings.");
+  }
+  const addresses = data.addresses ?? [];
+  if (!Array.isArray(addresses)) throw new Error("Address records must be a list.");
+  addresses.forEach((entry: any) => {
+    if (!Number.isInteger(entry?.coinType) || typeof entry.address !== "string") throw new Error("Address records need a coinType and an address.");
+    encodeCoinRecord(entry.coinType, entry.address);
+  });
+  const contenthash = data.contenthash ?? "";
+  if (typeof contenthash !== "string") throw new Error("The contenthash must be a URI.");
+  encodeContenthash(contenthash);
+
+  return {
+    version: 1,
+    name: data.name,
+    chainId: Number(data.chainId ?? 0),
+    exportedAt: String(data.exportedAt ?? ""),
+    resolver: String(data.resolver ?? ""),
+    addresses: addresses.map(({ coinType, address }: CoinAddress) => ({ coinType, address })),
+    texts,
+    contenthash,
+    subnames: Array.isArray(data.subnames) ? data.subnames : []
+  };
+};
+
+/**
+ * Compares `records` with what `name` has on `resolverAddress`. Only the
+ * records the set lists are compared, so others on the name are kept.
+ */
+export const diffRecordSet = async (client: BaseNamesClient, name: string, records: RecordSet, resolverAddress: string): Promise<RecordSetDiff> => {
+  const keys = Object.keys(records.texts);
+  const coinTypes = records.addresses.map(entry => entry.coinType);
+  const [texts, addresses, contenthash] = await Promise.all([
+    client.getTextRecords(name, keys, resolverAddress),
+    client.getRawAddresses(name, coinTypes, resolverAddress),
+    client.getContenthash(name, resolverAddress)
+  ]);
+
+  const liveContenthash = contenthash?.uri ?? "";
+  const nextContenthash = decodeContenthash(encodeContenthash(records.contenthash))?.uri ?? "";
+  return {
+    texts: diffTextRecords(texts, records.texts),
+    addresses: records.addresses
+      .map(({ coinType, address }) => ({
+        coinType,
+        from: formatCoinRecord(coinType, addresses.find(entry => entry.coinType === coinType)?.data ?? "0x"),
+        to: address
+      }))
+      .filter(({ from, to }) => (from || to) && !sameAddress(from, to)),
+    contenthash: liveContenthash !== nextContenthash ? { from: liveContenthash, to: nextContenthash } : null
+  };
+};
+
+/** The `setRecords` update that applies a diff. */
+export const recordSetUpdate = (diff: RecordSetDiff): RecordUpdate => ({
+  texts: diff.texts,
+  addresses: diff.addresses.map(({ coinType, to }) => ({ coinType, address: to })),
+  contenthash: diff.contenthash ? diff.contenthash.to : undefined
+});
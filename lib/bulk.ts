@@ -0,0 +1,253 @@
+import { ethers } from "ethers";
+import type { BaseNamesClient, SubnameStep } from "./client";
+import { inspectLabel } from "./normalize";
+import { describeTxError } from "./simulate";
+import { KeyValueStore, browserStore, readJson, writeJson } from "./storage";
+import { sameAddress, toNodeHash } from "./utils";
+
+export type BulkRowStatus = "pending" | "done" | "failed";
+
+export interface BulkRow {
+  line: number;
+  label: string;
+  owner: string;
+  address?: string;
+  texts: Record<string, string>;
+  errors: string[];
+  warnings: string[];
+  status: BulkRowStatus;
+  /** Last transaction sent for the row. */
+  txHash?: string;
+  /** The issuance step `txHash` performs. */
+  step?: SubnameStep;
+  error?: string;
+}
+
+export interface BulkJob {
+  parent: string;
+  rows: BulkRow[];
+}
+
+const splitCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        current += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      fields.push(current.trim());
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+};
+
+const escapeCsv = (value: string): string =>
+  /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Parses `label,owner[,address][,text records]`. With a header row naming
+ * `label` and `owner`, any other column is read as a text record key.
+ * Without one, columns after the address take the form `key=value`.
+ */
+export const parseSubnameCsv = (text: string): BulkRow[] => {
+  const lines = text.split(/\r?\n/).map((raw, i) => ({ raw, line: i + 1 })).filter(({ raw }) => raw.trim() && !raw.trim().startsWith("#"));
+  if (lines.length === 0) return [];
+
+  const first = splitCsvLine(lines[0].raw).map(h => h.toLowerCase());
+  const header = first.includes("label") && first.includes("owner") ? first : null;
+  const body = header ? lines.slice(1) : lines;
+
+  return body.map(({ raw, line }) => {
+    const fields = splitCsvLine(raw);
+    const row: BulkRow = { line, label: "", owner: "", texts: {}, errors: [], warnings: [], status: "pending" };
+
+    if (header) {
+      header.forEach((key, i) => {
+        const value = fields[i] ?? "";
+        if (key === "label") row.label = value;
+        else if (key === "owner") row.owner = value;
+        else if (key === "address") row.address = value || undefined;
+        else if (key && value) row.texts[key] = value;
+      });
+    } else {
+      const [label = "", owner = "", address = "", ...rest] = fields;
+      row.label = label;
+      row.owner = owner;
+      row.address = address || undefined;
+      rest.forEach(field => {
+        const eq = field.indexOf("=");
+        if (eq > 0) row.texts[field.slice(0, eq).trim()] = field.slice(eq + 1).trim();
+        else if (field) row.errors.push(`Unrecognised column "${field}". Use key=value for text records.`);
+      });
+    }
+    return row;
+  });
+};
+
+// ethers rejects mixed-case addresses with a bad checksum, so only
+// all-lowercase input can pass without being checksummed.
+const checkAddress = (value: string, field: string, errors: string[], warnings: string[]): void => {
+  if (!ethers.isAddress(value)) {
+    errors.push(`Invalid or badly checksummed ${field.toLowerCase()} address.`);
+  } else if (value !== ethers.getAddress(value)) {
+    warnings.push(`${field} address is not checksummed.`);
+  }
+};
+
+/**
+ * Normalizes labels and checks every row: address checksums, duplicate
+ * labels and subnames that already have an owner under `parent`.
+ */
+export const validateBulkRows = async (client: BaseNamesClient, parent: string, rows: BulkRow[]): Promise<BulkRow[]> => {
+  const seen = new Map<string, number>();
+  const checked = rows.map(row => {
+    const errors = row.errors.filter(e => e.startsWith("Unrecognised column"));
+    const warnings: string[] = [];
+    const report = inspectLabel(row.label);
+    const label = report.normalized ?? row.label.trim();
+
+    if (!row.label.trim()) errors.push("Missing label.");
+    else if (report.error) errors.push(`Invalid label ${report.error}.`);
+    else {
+      if (label !== row.label) warnings.push(`Normalized from "${row.label}".`);
+      warnings.push(...report.labels[0].warnings);
+    }
+
+    if (!row.owner) errors.push("Missing owner.");
+    else checkAddress(row.owner, "Owner", errors, warnings);
+    if (row.address) checkAddress(row.address, "Record", errors, warnings);
+
+    if (label && seen.has(label)) errors.push(`Duplicate of line ${seen.get(label)}.`);
+    else if (label) seen.set(label, row.line);
+
+    return { ...row, label, errors, warnings };
+  });
+
+  const registry = client.registry();
+  return Promise.all(checked.map(async row => {
+    if (row.errors.length > 0 || row.status === "done" || row.txHash) return row;
+    const owner: string = await registry.owner(toNodeHash(`${row.label}.${parent}`)).catch(() => ethers.ZeroAddress);
+    if (owner !== ethers.ZeroAddress) {
+      return { ...row, errors: [...row.errors, `Already owned by ${owner}.`] };
+    }
+    return row;
+  }));
+};
+
+export interface BulkRunOptions {
+  onRowUpdate?: (row: BulkRow, index: number) => void;
+  shouldStop?: () => boolean;
+}
+
+// Step whose transaction finishes issuing `row` when sent by `self`; matches `createSubname`.
+const finalStep = (row: BulkRow, self: string): SubnameStep => {
+  const hasRecords = row.address !== undefined || Object.values(row.texts).some(value => value !== "");
+  if (!hasRecords) return "issue";
+  return sameAddress(row.owner, self) ? "records" : "transfer";
+};
+
+/**
+ * Whether a transaction left by an earlier run succeeded, waiting for it
+ * while it is still in the mempool. Null when the network no longer knows
+ * it, e.g. because it was dropped.
+ */
+const settle = async (client: BaseNamesClient, hash: string): Promise<boolean | null> => {
+  let receipt = await client.provider.getTransactionReceipt(hash);
+  if (!receipt && await client.provider.getTransaction(hash)) {
+    receipt = await client.provider.waitForTransaction(hash);
+  }
+  return receipt ? receipt.status === 1 : null;
+};
+
+/**
+ * Issues every pending, valid row in order. The registry has no multicall,
+ * so each row is its own transaction (or sequence, when records are set).
+ * Every transaction is stored on its row with the step it performs, so a
+ * rerun first settles it and then continues after the last mined step. A
+ * failed row is recorded and the run moves on.
+ */
+export const runBulkIssuance = async (client: BaseNamesClient, parent: string, rows: BulkRow[], options: BulkRunOptions = {}): Promise<BulkRow[]> => {
+  if (!client.signer) throw new Error("A signer is required for this action.");
+  const self = await client.signer.getAddress();
+  const result = [...rows];
+  const update = (i: number, row: BulkRow) => {
+    result[i] = row;
+    options.onRowUpdate?.(row, i);
+  };
+
+  for (let i = 0; i < result.length; i++) {
+    if (options.shouldStop?.()) break;
+    const row = result[i];
+    if (row.status === "done" || row.errors.length > 0) continue;
+    const last = finalStep(row, self);
+
+    try {
+      let resumeAfter: "create" | "records" | undefined;
+      if (row.txHash) {
+        const step = row.step ?? last;
+        const mined = await settle(client, row.txHash);
+        if (mined && step === last) {
+          update(i, { ...row, status: "done", error: undefined });
+          continue;
+        }
+        // Continue after the step that is known to have gone through.
+        const completed = mined ? step : step === "transfer" ? "records" : step === "records" ? "create" : undefined;
+        resumeAfter = completed === "create" || completed === "records" ? completed : undefined;
+      }
+
+      const tx = await client.createSubname(parent, row.label, ethers.getAddress(row.owner), {
+        address: row.address ? ethers.getAddress(row.address) : undefined,
+        texts: row.texts,
+        resumeAfter,
+        onStep: (_message, stepTx, step) => update(i, { ...result[i], status: "pending", txHash: stepTx.hash, step, error: undefined })
+      });
+      update(i, { ...result[i], status: "pending", txHash: tx.hash, step: last, error: undefined });
+      await tx.wait();
+      update(i, { ...result[i], status: "done" });
+    } catch (err: any) {
+      update(i, { ...result[i], status: "failed", error: describeTxError(err, "Issuance failed.") });
+    }
+  }
+  return result;
+};
+
+/** CSV report of a bulk run: one line per input row with its outcome. */
+export const bulkReportCsv = (parent: string, rows: BulkRow[]): string => {
+  const header = ["line", "name", "owner", "address", "status", "tx_hash", "error"];
+  const lines = rows.map(row => [
+    String(row.line),
+    `${row.label}.${parent}`,
+    row.owner,
+    row.address ?? "",
+    row.errors.length > 0 ? "invalid" : row.status,
+    row.txHash ?? "",
+    row.error ?? row.errors.join(" ")
+  ].map(escapeCsv).join(","));
+  return [header.join(","), ...lines].join("\n");
+};
+
+const jobKey = (chainId: number, parent: string) => `basenames:bulk:${chainId}:${parent.toLowerCase()}`;
+
+export const loadBulkJob = (client: BaseNamesClient, parent: string, store: KeyValueStore = browserStore): BulkJob | null =>
+  readJson<BulkJob | null>(store, jobKey(client.chainId, parent), null);
+
+export const saveBulkJob = (client: BaseNamesClient, job: BulkJob, store: KeyValueStore = browserStore): void =>
+  writeJson(store, jobKey(client.chainId, job.parent), job);
+
+export const clearBulkJob = (client: BaseNamesClient, parent: string, store: KeyValueStore = browserStore): void =>
+  store.remove(jobKey(client.chainId, parent));
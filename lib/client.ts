@@ -0,0 +1,752 @@
+import { ethers, Contract } from "ethers";
+import type { Provider, Signer, TransactionResponse } from "ethers";
+import { DEFAULT_IPFS_GATEWAY, resolveAvatar } from "./avatar";
+import { CONTROLLER_ABI, NAME_WRAPPER_ABI, REGISTRY_ABI, RESOLVER_ABI, REGISTRAR_ABI, REVERSE_REGISTRAR_ABI } from "./abis";
+import { COIN_TYPES, CoinAddress, ETH_COIN_TYPE, decodeEvmAddress, encodeCoinRecord } from "./coins";
+import { DecodedContenthash, decodeContenthash, encodeContenthash } from "./contenthash";
+import { ContractAddresses } from "./config";
+import { childFuseError } from "./fuses";
+import { BASE_MAINNET, NetworkConfig } from "./networks";
+import { normalizeLabel, normalizeName } from "./normalize";
+import { ResilientProvider, getSharedProvider } from "./rpc";
+import { RecordChange, RecordUpdate, TEXT_RECORD_KEYS } from "./records";
+import { ResolverInfo, findResolver, readRecord, resolverAt } from "./resolution";
+import { simulateTransaction } from "./simulate";
+import { ContractCall, Identity, NameLookup, RegistrationDiscount, RegistrationOptions, RegistrationPrice, TxPreview, WrappedState, WrappedSubnameOptions } from "./types";
+import { baseLabelOf, sameAddress, toNodeHash, toReverseNode } from "./utils";
+
+/**
+ * A transaction `createSubname` sends: `issue` alone without records,
+ * else `create`, `records` and, when the owner isn't the signer, `transfer`.
+ */
+export type SubnameStep = "issue" | "create" | "records" | "transfer";
+
+export interface CreateSubnameOptions {
+  /** Also point the new subname's ETH address record at this address. */
+  address?: string;
+  /** Text records to set on the new subname. */
+  texts?: Record<string, string>;
+  /** Called as each intermediate transaction of a multi-step issuance is sent. */
+  onStep?: (message: string, tx: TransactionResponse, step: SubnameStep) => void;
+  /**
+   * Continues an interrupted issuance with records after this step was
+   * mined. The signer must still hold the subname.
+   */
+  resumeAfter?: "create" | "records";
+}
+
+export interface BaseNamesClientOptions {
+  /** Chain, RPC, addresses and start block to default to. Defaults to Base Mainnet. */
+  network?: NetworkConfig;
+  /** Read provider. Defaults to the shared `ResilientProvider` over the network's RPCs. */
+  provider?: Provider;
+  /** Signer used for writes. Reads fall back to its provider when no provider is given. */
+  signer?: Signer;
+  /** Overrides for the registry, resolver and registrar addresses. */
+  addresses?: Partial<ContractAddresses>;
+  /** Chain the signer must be connected to before writing. */
+  chainId?: number;
+  /** First block to scan when reconstructing state from logs. */
+  startBlock?: number;
+  /** Gateway for `ipfs://` and `ipns://` avatars. Defaults to ipfs.io. */
+  ipfsGateway?: string;
+  /**
+   * Called with every write after it simulated successfully and before the
+   * wallet is asked to sign it. Resolve false to cancel the write.
+   */
+  confirm?: (preview: TxPreview) => Promise<boolean>;
+  /** Called with every write once the wallet has sent it, e.g. to track it. */
+  onSubmitted?: (tx: TransactionResponse, preview: TxPreview) => void;
+}
+
+/** Hooks a signing client runs around each write. */
+export type WriteHooks = Pick<BaseNamesClientOptions, "confirm" | "onSubmitted">;
+
+// 5% on top of a quote; the controller refunds the difference.
+const withBuffer = (value: bigint): bigint => value + value / 20n;
+
+// Records `createSubname` writes for its `address` and `texts` options.
+const subnameRecords = (options: CreateSubnameOptions): { texts: RecordChange[]; addresses: CoinAddress[] } => ({
+  texts: Object.entries(options.texts ?? {})
+    .filter(([, value]) => value !== "")
+    .map(([key, value]) => ({ key, from: "", to: value })),
+  addresses: options.address !== undefined
+    ? [{ coinType: ETH_COIN_TYPE, address: options.address.trim() }]
+    : []
+});
+
+/**
+ * Framework-free client for .base.eth names. Reads go through `provider`,
+ * writes through `signer`; both are injectable so the client can run in
+ * the browser, in Node scripts or against a mocked provider.
+ */
+export class BaseNamesClient {
+  readonly network: NetworkConfig;
+  readonly provider: Provider;
+  readonly signer?: Signer;
+  readonly addresses: ContractAddresses;
+  readonly chainId: number;
+  readonly startBlock: number;
+  readonly ipfsGateway: string;
+  readonly confirm?: (preview: TxPreview) => Promise<boolean>;
+  readonly onSubmitted?: (tx: TransactionResponse, preview: TxPreview) => void;
+
+  constructor(options: BaseNamesClientOptions = {}) {
+    const network = options.network ?? BASE_MAINNET;
+    this.network = network;
+    this.provider = options.provider ?? options.signer?.provider ?? getSharedProvider(network);
+    this.signer = options.signer;
+    this.addresses = { ...network.addresses, ...options.addresses };
+    this.chainId = options.chainId ?? network.chainId;
+    this.startBlock = options.startBlock ?? network.startBlock;
+    this.ipfsGateway = options.ipfsGateway || DEFAULT_IPFS_GATEWAY;
+    this.confirm = options.confirm;
+    this.onSubmitted = options.onSubmitted;
+  }
+
+  /** Returns a copy of this client that signs writes with `signer`, keeping this client's hooks unless `hooks` replaces them. */
+  withSigner(signer: Signer, hooks: WriteHooks = {}): BaseNamesClient {
+    return new BaseNamesClient({
+      network: this.network,
+      provider: this.provider,
+      signer,
+      addresses: this.addresses,
+      chainId: this.chainId,
+      startBlock: this.startBlock,
+      ipfsGateway: this.ipfsGateway,
+      confirm: hooks.confirm ?? this.confirm,
+      onSubmitted: hooks.onSubmitted ?? this.onSubmitted
+    });
+  }
+
+  registry(runner: Provider | Signer = this.provider): Contract {
+    return new Contract(this.addresses.registry, REGISTRY_ABI, runner);
+  }
+
+  resolver(address: string = this.addresses.resolver, runner: Provider | Signer = this.provider): Contract {
+    return new Contract(address, RESOLVER_ABI, runner);
+  }
+
+  registrar(runner: Provider | Signer = this.provider): Contract {
+    return new Contract(this.addresses.registrar, REGISTRAR_ABI, runner);
+  }
+
+  reverseRegistrar(runner: Provider | Signer = this.provider): Contract {
+    return new Contract(this.addresses.reverseRegistrar, REVERSE_REGISTRAR_ABI, runner);
+  }
+
+  controller(runner: Provider | Signer = this.provider): Contract {
+    return new Contract(this.addresses.controller, CONTROLLER_ABI, runner);
+  }
+
+  nameWrapper(runner: Provider | Signer = this.provider): Contract {
+    return new Contract(this.addresses.nameWrapper, NAME_WRAPPER_ABI, runner);
+  }
+
+  /** Whether a NameWrapper is configured for this client's chain. */
+  get hasNameWrapper(): boolean {
+    return this.addresses.nameWrapper !== ethers.ZeroAddress;
+  }
+
+  /**
+   * The resolver `name` is read through: the one set in the registry, or
+   * an ancestor's wildcard resolver (ENSIP-10). Null when there is none.
+   */
+  async getResolver(name: string): Promise<ResolverInfo | null> {
+    return findResolver(this, name);
+  }
+
+  /**
+   * Forward-resolves `name` to an address, or null when no address is set.
+   * Follows wildcard resolvers and CCIP-Read gateways.
+   */
+  async resolve(name: string, resolver?: string | ResolverInfo): Promise<string | null> {
+    const info = await this.resolverFor(name, resolver);
+    if (!info) return null;
+    const resolvedAddress: string = await readRecord(this, info, name, "addr(bytes32)");
+    if (!resolvedAddress || resolvedAddress === ethers.ZeroAddress) return null;
+    return resolvedAddress;
+  }
+
+  /**
+   * Loads the profile for `name`. Names are available when nobody owns
+   * them in the registry and they don't resolve through a wildcard, and
+   * names under the network's root when the controller can register them.
+   * Owned names without an address record load with a null `address`.
+   * `viewer` is compared against the owner and the resolved address to
+   * fill in `isMine`.
+   */
+  async getProfile(name: string, viewer?: string | null): Promise<NameLookup> {
+    const label = baseLabelOf(normalizeName(name), this.network.rootName);
+    const [resolver, owner, registrable] = await Promise.all([
+      this.getResolver(name),
+      this.registry().owner(toNodeHash(name)).catch(() => ethers.ZeroAddress) as Promise<string>,
+      label ? this.isAvailable(label).catch(() => null) : null
+    ]);
+    if (registrable) return { name, available: true };
+    if (!resolver) {
+      if (owner === ethers.ZeroAddress) return { name, available: true };
+      return { name, available: false, data: { owner, resolver: ethers.ZeroAddress, address: null, isMine: sameAddress(viewer, owner) } };
+    }
+
+    // Issued together so the provider can batch them into one multicall.
+    const [resolvedAddress, texts, coinAddresses, contenthash] = await Promise.all([
+      this.resolve(name, resolver),
+      this.getTextRecords(name, TEXT_RECORD_KEYS, resolver),
+      this.getAddresses(name, undefined, resolver),
+      this.getContenthash(name, resolver)
+    ]);
+    if (!resolvedAddress && owner === ethers.ZeroAddress) return { name, available: true };
+    const avatar = await resolveAvatar(this, texts.avatar, resolvedAddress);
+
+    return {
+      name,
+      available: false,
+      data: {
+        owner,
+        resolver: resolver.address,
+        avatar,
+        twitter: texts["com.twitter"],
+        url: texts.url,
+        texts,
+        address: resolvedAddress,
+        coinAddresses,
+        contenthash,
+        isMine: sameAddress(viewer, owner) || sameAddress(viewer, resolvedAddress)
+      }
+    };
+  }
+
+  /**
+   * Reads the reverse record of `address` from the Base reverse namespace,
+   * falling back to the provider's own lookup. The result is not verified
+   * against forward resolution.
+   */
+  async getPrimaryName(address: string): Promise<string | null> {
+    const node = toReverseNode(address, this.network.reverseNamespace);
+    const resolverAddr: string = await this.registry().resolver(node).catch(() => ethers.ZeroAddress);
+
+    let name = "";
+    if (resolverAddr !== ethers.ZeroAddress) {
+      name = await this.resolver(resolverAddr).name(node).catch(() => "");
+    }
+    if (!name) {
+      name = (await this.provider.lookupAddress(address).catch(() => null)) ?? "";
+    }
+    return name || null;
+  }
+
+  /**
+   * Reverse-resolves `address` to its primary name and avatar. `verified`
+   * is false when the name no longer resolves back to `address`.
+   */
+  async reverseLookup(address: string): Promise<Identity | null> {
+    const name = await this.getPrimaryName(address);
+    if (!name || !(name.toLowerCase().endsWith(".base.eth") || name.toLowerCase().endsWith(".eth"))) {
+      return null;
+    }
+
+    const resolver = await this.getResolver(name).catch(() => null);
+    const forward = await this.resolve(name, resolver ?? undefined).catch(() => null);
+    let avatar = "";
+    if (resolver) {
+      const { avatar: avatarRecord } = await this.getTextRecords(name, ["avatar"], resolver);
+      avatar = await resolveAvatar(this, avatarRecord, forward);
+    }
+
+    return { name, avatar, verified: sameAddress(forward, address) };
+  }
+
+  /**
+   * Sets the signer's primary name through the L2 reverse registrar. The
+   * name must already resolve to the signer so the pair verifies.
+   */
+  async setPrimaryName(name: string): Promise<TransactionResponse> {
+    const signer = await this.requireSigner();
+    if (!name.trim()) throw new Error("Missing fields.");
+    const cleanName = normalizeName(name);
+
+    const self = await signer.getAddress();
+    const forward = await this.resolve(cleanName);
+    if (!sameAddress(forward, self)) {
+      throw new Error(`${cleanName} doesn't resolve to your wallet. Set its address record first.`);
+    }
+
+    return this.execute(this.reverseRegistrar(signer), "setName", [cleanName], `Set ${cleanName} as your primary name`);
+  }
+
+  /** Number of root names held by `address` on the registrar. */
+  async balanceOf(address: string): Promise<number> {
+    const balance = await this.registrar().balanceOf(address);
+    return Number(balance);
+  }
+
+  /** Whether `label.base.eth` can be registered through the controller. */
+  async isAvailable(label: string): Promise<boolean> {
+    return this.controller().available(normalizeLabel(label));
+  }
+
+  /** Registration price for `label.base.eth`, split into base and premium. */
+  async getRegistrationPrice(label: string, durationSeconds: number): Promise<RegistrationPrice> {
+    const [base, premium]: [bigint, bigint] = await this.controller().rentPrice(normalizeLabel(label), durationSeconds);
+    return { base, premium, total: base + premium };
+  }
+
+  /**
+   * Active controller discounts and what they would cost for `label`.
+   * Claiming one needs eligibility proof from its validator, so these are
+   * informational only.
+   */
+  async getDiscounts(label: string, durationSeconds: number): Promise<RegistrationDiscount[]> {
+    const controller = this.controller();
+    const cleanLabel = normalizeLabel(label);
+    const discounts: { active: boolean; key: string }[] = await controller.getActiveDiscounts().catch(() => []);
+    return Promise.all(discounts.filter(d => d.active).map(async ({ key }) => ({
+      key,
+      price: await controller.discountedRegisterPrice(cleanLabel, durationSeconds, key)
+    })));
+  }
+
+  /** Expiry (unix seconds) of a name directly under the network's root, or null for other names. */
+  async getExpiry(name: string): Promise<number | null> {
+    const label = baseLabelOf(normalizeName(name), this.network.rootName);
+    if (!label) return null;
+    const expires: bigint = await this.registrar().nameExpires(BigInt(ethers.id(label)));
+    return expires > 0n ? Number(expires) : null;
+  }
+
+  /**
+   * Registers `label.base.eth` through the controller. Resolver records and
+   * the reverse record are bundled into the same call. The controller
+   * refunds any excess, so a small buffer covers price movement between
+   * quote and inclusion.
+   */
+  async register(label: string, options: RegistrationOptions): Promise<TransactionResponse> {
+    const signer = await this.requireSigner();
+    const cleanLabel = normalizeLabel(label);
+    const owner = ethers.getAddress(options.owner ?? await signer.getAddress());
+    if (options.reverseRecord && !options.setResolver) {
+      throw new Error("Setting a primary name requires the default resolver.");
+    }
+
+    const controller = this.controller(signer);
+    if (!await controller.available(cleanLabel)) throw new Error(`${cleanLabel}.${this.network.rootName} is not available.`);
+
+    const { total } = await this.getRegistrationPrice(cleanLabel, options.durationSeconds);
+    const node = toNodeHash(`${cleanLabel}.${this.network.rootName}`);
+    const resolver = this.resolver();
+    const data = options.setResolver
+      ? [resolver.interface.encodeFunctionData("setAddr(bytes32,address)", [node, owner])]
+      : [];
+
+    return this.execute(controller, "register", [{
+      name: cleanLabel,
+      owner,
+      duration: options.durationSeconds,
+      resolver: options.setResolver ? this.addresses.resolver : ethers.ZeroAddress,
+      data,
+      reverseRecord: !!options.reverseRecord
+    }], `Register ${cleanLabel}.${this.network.rootName}`, { value: withBuffer(total) });
+  }
+
+  /** Extends `label.base.eth` by `durationSeconds`. Anyone may renew any name. */
+  async renew(label: string, durationSeconds: number): Promise<TransactionResponse> {
+    const signer = await this.requireSigner();
+    const cleanLabel = normalizeLabel(label);
+    const { base } = await this.getRegistrationPrice(cleanLabel, durationSeconds);
+    return this.execute(this.controller(signer), "renew", [cleanLabel, durationSeconds], `Renew ${cleanLabel}.${this.network.rootName}`, { value: withBuffer(base) });
+  }
+
+  /**
+   * Issues `label.parent` to `owner` via `setSubnodeOwner`. The signer must
+   * be on the configured chain and own `parent` in the registry.
+   *
+   * With `options.address` or `options.texts` the subname is first issued
+   * to the signer with the default resolver, its records are set in one
+   * multicall, and ownership is then handed to `owner`. The returned
+   * transaction is the last step. `options.resumeAfter` skips the steps an
+   * earlier call already completed.
+   */
+  async createSubname(parent: string, label: string, owner: string, options: CreateSubnameOptions = {}): Promise<TransactionResponse> {
+    const signer = await this.requireSigner();
+
+    const cleanTarget = owner.trim();
+    if (!parent.trim() || !label.trim() || !cleanTarget) throw new Error("Missing fields.");
+
+    const cleanParent = normalizeName(parent);
+    const cleanLabel = normalizeLabel(label);
+    if (!ethers.isAddress(cleanTarget)) throw new Error("Invalid address.");
+    if (options.address !== undefined && !ethers.isAddress(options.address.trim())) {
+      throw new Error("Invalid address record.");
+    }
+
+    const parentNode = toNodeHash(cleanParent);
+    const labelHash = ethers.id(cleanLabel);
+    await this.requireOwner(signer, cleanParent);
+
+    const { texts, addresses } = subnameRecords(options);
+
+    const registry = this.registry(signer);
+    const fullName = `${cleanLabel}.${cleanParent}`;
+    if (texts.length === 0 && addresses.length === 0) {
+      return this.execute(registry, "setSubnodeOwner", [parentNode, labelHash, ethers.getAddress(cleanTarget)], `Issue ${fullName}`);
+    }
+
+    // The resolver only accepts writes from the node owner, so hold the
+    // subname until its records are in place.
+    const self = await signer.getAddress();
+    if (options.resumeAfter) {
+      const holder: string = await registry.owner(toNodeHash(fullName));
+      if (!sameAddress(holder, self)) throw new Error(`${fullName} is no longer held by your wallet, so its issuance can't be resumed.`);
+      if (options.resumeAfter === "records" && sameAddress(self, cleanTarget)) throw new Error(`${fullName} is already issued.`);
+    } else {
+      const recordTx = await this.execute(registry, "setSubnodeRecord", [parentNode, labelHash, self, this.addresses.resolver, 0], `Create ${fullName}`);
+      options.onStep?.(`Creating ${fullName}...`, recordTx, "create");
+      await recordTx.wait();
+    }
+
+    if (options.resumeAfter !== "records") {
+      const recordsTx = await this.setRecords(fullName, { texts, addresses });
+      if (sameAddress(self, cleanTarget)) return recordsTx;
+      options.onStep?.(`Setting records for ${fullName}...`, recordsTx, "records");
+      await recordsTx.wait();
+    }
+
+    return this.execute(registry, "setOwner", [toNodeHash(fullName), ethers.getAddress(cleanTarget)], `Transfer ${fullName}`);
+  }
+
+  /**
+   * The calls `createSubname` makes, encoded for `account` (the parent's
+   * owner) to execute as one batch, e.g. from a Safe. Ownership isn't
+   * checked here.
+   */
+  subnameCalls(parent: string, label: string, owner: string, account: string, options: CreateSubnameOptions = {}): ContractCall[] {
+    const cleanParent = normalizeName(parent);
+    const cleanLabel = normalizeLabel(label);
+    if (!ethers.isAddress(owner.trim())) throw new Error("Invalid address.");
+    const target = ethers.getAddress(owner.trim());
+    const parentNode = toNodeHash(cleanParent);
+    const labelHash = ethers.id(cleanLabel);
+    const fullName = `${cleanLabel}.${cleanParent}`;
+    const registry = this.registry().interface;
+    const call = (data: string, description: string): ContractCall => ({ to: this.addresses.registry, value: 0n, data, description });
+
+    const { texts, addresses } = subnameRecords(options);
+    if (texts.length === 0 && addresses.length === 0) {
+      return [call(registry.encodeFunctionData("setSubnodeOwner", [parentNode, labelHash, target]), `Issue ${fullName}`)];
+    }
+    // Same order as createSubname: `account` holds the subname while its records are written.
+    return [
+      call(registry.encodeFunctionData("setSubnodeRecord", [parentNode, labelHash, ethers.getAddress(account), this.addresses.resolver, 0]), `Create ${fullName}`),
+      this.recordsCall(fullName, { texts, addresses }),
+      ...(sameAddress(account, target) ? [] : [call(registry.encodeFunctionData("setOwner", [toNodeHash(fullName), target]), `Transfer ${fullName}`)])
+    ];
+  }
+
+  /** Registry owner of `label.parent`; the zero address when it was never issued or was revoked. */
+  async getSubnameOwner(parent: string, label: string): Promise<string> {
+    return this.registry().owner(toNodeHash(`${normalizeLabel(label)}.${normalizeName(parent)}`));
+  }
+
+  /**
+   * Reassigns a subname of `parent` via `setSubnodeOwner`. Subnames are
+   * addressed by label hash so ones found in logs with an unknown label can
+   * still be managed. The signer must own `parent`.
+   */
+  async setSubnameOwner(parent: string, labelHash: string, owner: string): Promise<TransactionResponse> {
+    if (!ethers.isAddress(owner.trim())) throw new Error("Invalid address.");
+    const signer = await this.requireSigner();
+    const cleanParent = normalizeName(parent);
+    await this.requireOwner(signer, cleanParent);
+    const target = ethers.getAddress(owner.trim());
+    const description = target === ethers.ZeroAddress ? `Revoke a subname of ${cleanParent}` : `Reassign a subname of ${cleanParent}`;
+    return this.execute(this.registry(signer), "setSubnodeOwner", [toNodeHash(cleanParent), labelHash, target], description);
+  }
+
+  /** Revokes a subname by setting its owner to the zero address. */
+  async revokeSubname(parent: string, labelHash: string): Promise<TransactionResponse> {
+    return this.setSubnameOwner(parent, labelHash, ethers.ZeroAddress);
+  }
+
+  /**
+   * Points a subname at `resolver` through `setSubnodeRecord`, keeping its
+   * current owner, so the parent owner can fix records it no longer owns.
+   */
+  async setSubnameResolver(parent: string, labelHash: string, resolver: string): Promise<TransactionResponse> {
+    if (!ethers.isAddress(resolver.trim())) throw new Error("Invalid resolver address.");
+    const signer = await this.requireSigner();
+    const cleanParent = normalizeName(parent);
+    await this.requireOwner(signer, cleanParent);
+    const parentNode = toNodeHash(cleanParent);
+    const registry = this.registry(signer);
+    const owner: string = await registry.owner(ethers.keccak256(ethers.concat([parentNode, labelHash])));
+    return this.execute(registry, "setSubnodeRecord", [parentNode, labelHash, owner, ethers.getAddress(resolver.trim()), 0], `Set the resolver of a subname of ${cleanParent}`);
+  }
+
+  /**
+   * NameWrapper owner, fuses and expiry of `name`, or null when no wrapper
+   * is configured or the name is not wrapped.
+   */
+  async getWrappedState(name: string): Promise<WrappedState | null> {
+    if (!this.hasNameWrapper) return null;
+    const [owner, fuses, expiry] = await this.nameWrapper().getData(BigInt(toNodeHash(name)));
+    if (owner === ethers.ZeroAddress) return null;
+    return { owner, fuses: Number(fuses), expiry: Number(expiry) };
+  }
+
+  /**
+   * Wraps `name` into the NameWrapper, keeping the signer as owner. The
+   * registry must first approve the wrapper; that approval is sent as a
+   * separate step when missing.
+   */
+  async wrapName(name: string, onStep?: (message: string, tx: TransactionResponse) => void): Promise<TransactionResponse> {
+    if (!this.hasNameWrapper) throw new Error("No NameWrapper is configured for this network.");
+    const signer = await this.requireSigner();
+    const cleanName = normalizeName(name);
+    await this.requireOwner(signer, cleanName);
+
+    const self = await signer.getAddress();
+    const registry = this.registry(signer);
+    if (!(await registry.isApprovedForAll(self, this.addresses.nameWrapper))) {
+      const approveTx = await this.execute(registry, "setApprovalForAll", [this.addresses.nameWrapper, true], "Approve the NameWrapper");
+      onStep?.("Approving the NameWrapper...", approveTx);
+      await approveTx.wait();
+    }
+
+    const resolver: string = await registry.resolver(toNodeHash(cleanName));
+    return this.execute(this.nameWrapper(signer), "wrap", [ethers.dnsEncode(cleanName), self, resolver], `Wrap ${cleanName}`);
+  }
+
+  /**
+   * Issues `label.parent` as a wrapped subname with `options.fuses` burned.
+   * The signer must own the wrapped parent; fuse combinations the
+   * NameWrapper would reject are refused up front.
+   */
+  async createWrappedSubname(parent: string, label: string, owner: string, options: WrappedSubnameOptions = {}): Promise<TransactionResponse> {
+    const signer = await this.requireSigner();
+    if (!ethers.isAddress(owner.trim())) throw new Error("Invalid address.");
+    const cleanParent = normalizeName(parent);
+    const cleanLabel = normalizeLabel(label);
+
+    const parentState = await this.getWrappedState(cleanParent);
+    if (!parentState) throw new Error(`${cleanParent} is not wrapped.`);
+    if (!sameAddress(parentState.owner, await signer.getAddress())) {
+      throw new Error(`You don't own ${cleanParent}.`);
+    }
+
+    const fuses = options.fuses ?? 0;
+    const fuseError = childFuseError(fuses, parentState.fuses);
+    if (fuseError) throw new Error(fuseError);
+
+    const expiry = Math.min(options.expiry ?? parentState.expiry, parentState.expiry);
+    return this.execute(this.nameWrapper(signer), "setSubnodeRecord", [
+      toNodeHash(cleanParent),
+      cleanLabel,
+      ethers.getAddress(owner.trim()),
+      options.resolver ?? this.addresses.resolver,
+      0,
+      fuses,
+      expiry
+    ], `Issue ${cleanLabel}.${cleanParent} as a wrapped subname`);
+  }
+
+  /**
+   * Reads the ENSIP-9/11 address records of `name` for `coinTypes`. Only
+   * coin types with a configured address are returned. Record reads use
+   * `resolver` when given and the one `getResolver` finds otherwise.
+   */
+  async getAddresses(name: string, coinTypes: number[] = COIN_TYPES.map(c => c.coinType), resolver?: string | ResolverInfo): Promise<CoinAddress[]> {
+    const raw = await this.getRawAddresses(name, coinTypes, resolver);
+    return raw
+      .map(({ coinType, data }) => ({ coinType, address: decodeEvmAddress(data) }))
+      .filter(entry => entry.address);
+  }
+
+  /**
+   * Reads the raw `addr(node, coinType)` bytes of `name` for `coinTypes`,
+   * whatever chain they encode an address for. Unset records are left out.
+   */
+  async getRawAddresses(name: string, coinTypes: number[], resolver?: string | ResolverInfo): Promise<{ coinType: number; data: string }[]> {
+    const info = await this.resolverFor(name, resolver);
+    if (!info) return [];
+    const raw: string[] = await Promise.all(coinTypes.map(coinType =>
+      readRecord(this, info, name, "addr(bytes32,uint256)", [coinType]).catch(() => "0x")
+    ));
+    return coinTypes
+      .map((coinType, i) => ({ coinType, data: raw[i] }))
+      .filter(entry => entry.data && entry.data !== "0x");
+  }
+
+  /** Writes address records in one resolver `multicall`. See `setRecords`. */
+  async setAddresses(name: string, entries: CoinAddress[], resolverAddress?: string): Promise<TransactionResponse> {
+    return this.setRecords(name, { addresses: entries }, resolverAddress);
+  }
+
+  /** Decoded ENSIP-7 contenthash of `name`, or null when unset or undecodable. */
+  async getContenthash(name: string, resolver?: string | ResolverInfo): Promise<DecodedContenthash | null> {
+    const info = await this.resolverFor(name, resolver);
+    if (!info) return null;
+    return decodeContenthash(await readRecord(this, info, name, "contenthash(bytes32)").catch(() => "0x"));
+  }
+
+  /**
+   * Points `name` at a website. `value` is an `ipfs://`, `ipns://`, `bzz://`,
+   * `ar://` or onion URI (or a bare CID), validated and encoded before
+   * sending; an empty value clears the record. The signer must own `name`.
+   */
+  async setContenthash(name: string, value: string, resolverAddress?: string): Promise<TransactionResponse> {
+    const hash = encodeContenthash(value);
+    const signer = await this.requireSigner();
+    await this.requireOwner(signer, name);
+    const description = hash === "0x" ? `Clear the website of ${name}` : `Set the website of ${name}`;
+    return this.execute(this.resolver(resolverAddress, signer), "setContenthash", [toNodeHash(name), hash], description);
+  }
+
+  /** `setContenthash` encoded for an owner that executes it elsewhere, e.g. a Safe. */
+  contenthashCall(name: string, value: string, resolverAddress: string = this.addresses.resolver): ContractCall {
+    const hash = encodeContenthash(value);
+    return {
+      to: resolverAddress,
+      value: 0n,
+      data: this.resolver(resolverAddress).interface.encodeFunctionData("setContenthash", [toNodeHash(name), hash]),
+      description: hash === "0x" ? `Clear the website of ${name}` : `Set the website of ${name}`
+    };
+  }
+
+  /** Reads the given text records of `name`. Missing or failing keys read as "". */
+  async getTextRecords(name: string, keys: string[] = TEXT_RECORD_KEYS, resolver?: string | ResolverInfo): Promise<Record<string, string>> {
+    const info = await this.resolverFor(name, resolver);
+    const values = await Promise.all(keys.map(key =>
+      info ? readRecord(this, info, name, "text(bytes32,string)", [key]).catch(() => "") : ""
+    ));
+    return Object.fromEntries(keys.map((key, i) => [key, values[i] as string]));
+  }
+
+  /**
+   * Writes every change as a `setText` call bundled into one resolver
+   * `multicall` transaction. The signer must own `name`.
+   */
+  async setTextRecords(name: string, changes: RecordChange[], resolverAddress?: string): Promise<TransactionResponse> {
+    return this.setRecords(name, { texts: changes }, resolverAddress);
+  }
+
+  /**
+   * Writes text, address and contenthash records of `name` in one resolver
+   * `multicall`. ETH addresses use the legacy `setAddr(node, addr)`; other
+   * coin types the ENSIP-9 bytes variant, taking hex bytes for non-EVM
+   * coins. An empty address or contenthash clears the record.
+   */
+  async setRecords(name: string, records: RecordUpdate, resolverAddress?: string): Promise<TransactionResponse> {
+    const calls = this.encodeRecords(name, records);
+    const signer = await this.requireSigner();
+    await this.requireOwner(signer, name);
+    return this.execute(this.resolver(resolverAddress, signer), "multicall", [calls], `Update the records of ${name}`);
+  }
+
+  /** The resolver `multicall` `setRecords` sends, encoded for an owner that executes it elsewhere, e.g. a Safe. */
+  recordsCall(name: string, records: RecordUpdate, resolverAddress: string = this.addresses.resolver): ContractCall {
+    return {
+      to: resolverAddress,
+      value: 0n,
+      data: this.resolver(resolverAddress).interface.encodeFunctionData("multicall", [this.encodeRecords(name, records)]),
+      description: `Update the records of ${name}`
+    };
+  }
+
+  /**
+   * Points `name` at `resolverAddress` in the registry. Write the records
+   * to the new resolver first. The signer must own `name`.
+   */
+  async setResolver(name: string, resolverAddress: string): Promise<TransactionResponse> {
+    if (!ethers.isAddress(resolverAddress)) throw new Error("Invalid resolver address.");
+    const signer = await this.requireSigner();
+    await this.requireOwner(signer, name);
+    return this.execute(this.registry(signer), "setResolver", [toNodeHash(name), ethers.getAddress(resolverAddress)], `Switch the resolver of ${name}`);
+  }
+
+  /** `setResolver` encoded for an owner that executes it elsewhere, e.g. a Safe. */
+  resolverCall(name: string, resolverAddress: string): ContractCall {
+    if (!ethers.isAddress(resolverAddress)) throw new Error("Invalid resolver address.");
+    return {
+      to: this.addresses.registry,
+      value: 0n,
+      data: this.registry().interface.encodeFunctionData("setResolver", [toNodeHash(name), ethers.getAddress(resolverAddress)]),
+      description: `Switch the resolver of ${name}`
+    };
+  }
+
+  /**
+   * Sends `method` on `contract` through its signer after simulating it
+   * from the signer's address and passing the priced preview to `confirm`.
+   * A reverting call throws its decoded reason before the wallet prompts.
+   */
+  private async execute(contract: Contract, method: string, args: unknown[], description: string, overrides: { value?: bigint } = {}): Promise<TransactionResponse> {
+    const signer = contract.runner as Signer;
+    const tx = await contract.getFunction(method).populateTransaction(...args, overrides);
+    const preview = await simulateTransaction(this.provider, { ...tx, from: await signer.getAddress() }, description);
+    if (this.confirm && !(await this.confirm(preview))) throw new Error("Transaction cancelled.");
+    const sent = this.track(await signer.sendTransaction(tx));
+    this.onSubmitted?.(sent, preview);
+    return sent;
+  }
+
+  // One resolver call per record change, for `multicall`.
+  private encodeRecords(name: string, records: RecordUpdate): string[] {
+    const texts = records.texts ?? [];
+    const addresses = records.addresses ?? [];
+    const contenthash = records.contenthash !== undefined ? encodeContenthash(records.contenthash) : null;
+    if (texts.length === 0 && addresses.length === 0 && contenthash === null) throw new Error("No changes to save.");
+    addresses.forEach(({ coinType, address }) => encodeCoinRecord(coinType, address));
+
+    const node = toNodeHash(name);
+    const resolver = this.resolver().interface;
+    return [
+      ...texts.map(({ key, to }) => resolver.encodeFunctionData("setText", [node, key, to])),
+      ...addresses.map(({ coinType, address }) => {
+        if (coinType === ETH_COIN_TYPE) {
+          return resolver.encodeFunctionData("setAddr(bytes32,address)", [node, address ? ethers.getAddress(address) : ethers.ZeroAddress]);
+        }
+        return resolver.encodeFunctionData("setAddr(bytes32,uint256,bytes)", [node, coinType, encodeCoinRecord(coinType, address)]);
+      }),
+      ...(contenthash !== null ? [resolver.encodeFunctionData("setContenthash", [node, contenthash])] : [])
+    ];
+  }
+
+  // Record reads go to `resolver` when given, else to the resolver found for `name`.
+  private async resolverFor(name: string, resolver?: string | ResolverInfo): Promise<ResolverInfo | null> {
+    if (typeof resolver === "string") return resolverAt(this, resolver, normalizeName(name));
+    return resolver ?? this.getResolver(name);
+  }
+
+  /**
+   * Clears the read cache once `tx` is mined so the next read reflects the
+   * write. Only applies when reads go through a `ResilientProvider`.
+   */
+  private track(tx: TransactionResponse): TransactionResponse {
+    const provider = this.provider;
+    if (!(provider instanceof ResilientProvider)) return tx;
+    const wait = tx.wait.bind(tx);
+    tx.wait = async (confirms?: number, timeout?: number) => {
+      const receipt = await wait(confirms, timeout);
+      provider.invalidate();
+      return receipt;
+    };
+    return tx;
+  }
+
+  private async requireSigner(): Promise<Signer> {
+    if (!this.signer) throw new Error("A signer is required for this action.");
+    const net = await this.signer.provider?.getNetwork();
+    if (net && Number(net.chainId) !== this.chainId) {
+      throw new Error(`Please switch to ${this.network.name}.`);
+    }
+    return this.signer;
+  }
+
+  private async requireOwner(signer: Signer, name: string): Promise<void> {
+    const owner: string = await this.registry(signer).owner(toNodeHash(name));
+    if (!sameAddress(owner, await signer.getAddress())) {
+      throw new Error(`You don't own ${name}.`);
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import { ethers } from "ethers";
+
+// SLIP-44 coin type for ETH (ENSIP-9).
+export const ETH_COIN_TYPE = 60;
+
+/** ENSIP-11 coin type for an EVM chain: the chain ID with the MSB set. */
+export const evmCoinType = (chainId: number): number => (0x80000000 | chainId) >>> 0;
+
+export interface CoinInfo {
+  coinType: number;
+  label: string;
+}
+
+export const COIN_TYPES: CoinInfo[] = [
+  { coinType: ETH_COIN_TYPE, label: "Ethereum" },
+  { coinType: evmCoinType(8453), label: "Base" },
+  { coinType: evmCoinType(10), label: "Optimism" },
+  { coinType: evmCoinType(42161), label: "Arbitrum" },
+  { coinType: evmCoinType(137), label: "Polygon" },
+  { coinType: evmCoinType(59144), label: "Linea" },
+  { coinType: evmCoinType(534352), label: "Scroll" }
+];
+
+export interface CoinAddress {
+  coinType: number;
+  address: string;
+}
+
+export const coinLabel = (coinType: number): string =>
+  COIN_TYPES.find(c => c.coinType === coinType)?.label ?? `Coin ${coinType}`;
+
+/** Decodes the raw bytes of an EVM address record, or "" when unset. */
+export const decodeEvmAddress = (raw: string): string => {
+  if (!raw || raw === "0x") return "";
+  if (ethers.dataLength(raw) !== 20) return "";
+  const address = ethers.getAddress(raw);
+  return address === ethers.ZeroAddress ? "" : address;
+};
+
+/** Whether records of `coinType` hold an EVM address: ETH or an ENSIP-11 chain. */
+export const isEvmCoinType = (coinType: number): boolean => coinType === ETH_COIN_TYPE || coinType >= 0x80000000;
+
+/**
+ * Text form of the raw bytes of an address record: a checksummed address
+ * for EVM coin types and the hex bytes for others. "" when unset.
+ */
+export const formatCoinRecord = (coinType: number, raw: string): string => {
+  if (isEvmCoinType(coinType)) return decodeEvmAddress(raw);
+  return !raw || raw === "0x" ? "" : ethers.hexlify(raw);
+};
+
+/** Inverse of `formatCoinRecord`: the bytes to store. Throws when `value` is invalid for `coinType`. */
+export const encodeCoinRecord = (coinType: number, value: string): string => {
+  if (!value) return "0x";
+  if (isEvmCoinType(coinType)) {
+    if (!ethers.isAddress(value)) throw new Error(`Invalid address: ${value}`);
+    return ethers.getAddress(value);
+  }
+  if (!ethers.isBytesLike(value)) throw new Error(`Invalid ${coinLabel(coinType)} record: expected hex bytes, got ${value}`);
+  return ethers.hexlify(value);
+};
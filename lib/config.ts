@@ -0,0 +1,47 @@
+import { ethers } from "ethers";
+
+// --- Configuration ---
+export const BASE_CHAIN_ID_HEX = "0x2105"; // 8453
+export const BASE_CHAIN_ID_DECIMAL = 8453;
+export const BASE_RPC_URL = "https://mainnet.base.org";
+export const BASE_EXPLORER = "https://basescan.org";
+
+export const REGISTRY_ADDRESS = ethers.getAddress("0xb94704422c2a1e396835a571837aa5ae53285a95".toLowerCase());
+export const RESOLVER_ADDRESS = ethers.getAddress("0xC6d566A56A1aFf6508b41f6c90ff131615583BCD".toLowerCase());
+export const REGISTRAR_ADDRESS = ethers.getAddress("0xedB58850756783A09633D62624B5178619E63B48".toLowerCase());
+export const REVERSE_REGISTRAR_ADDRESS = ethers.getAddress("0x79EA96012eEa67A83431F1701B3dFf7e37F9E282".toLowerCase());
+export const CONTROLLER_ADDRESS = ethers.getAddress("0x4cCb0BB02FCABA27e82a56646E81d8c5bC4119a5".toLowerCase());
+// No canonical NameWrapper is deployed on Base; wrapping stays disabled
+// until one is configured through `addresses.nameWrapper` (in the app,
+// `VITE_NAME_WRAPPER`).
+export const NAME_WRAPPER_ADDRESS = ethers.ZeroAddress;
+// OP Stack predeploy, at the same address on every Base network.
+export const GAS_PRICE_ORACLE_ADDRESS = "0x420000000000000000000000000000000000000F";
+
+// Block the Base registry was deployed at; log scans start here.
+export const REGISTRY_START_BLOCK = 17571480;
+
+export const BASE_ETH_NODE = ethers.namehash("base.eth");
+
+export const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+// ENSIP-19 reverse namespace for Base (coin type 0x80002105).
+export const BASE_REVERSE_NAMESPACE = "80002105.reverse";
+
+export interface ContractAddresses {
+  registry: string;
+  resolver: string;
+  registrar: string;
+  reverseRegistrar: string;
+  controller: string;
+  nameWrapper: string;
+}
+
+export const DEFAULT_ADDRESSES: ContractAddresses = {
+  registry: REGISTRY_ADDRESS,
+  resolver: RESOLVER_ADDRESS,
+  registrar: REGISTRAR_ADDRESS,
+  reverseRegistrar: REVERSE_REGISTRAR_ADDRESS,
+  controller: CONTROLLER_ADDRESS,
+  nameWrapper: NAME_WRAPPER_ADDRESS
+};
@@ -0,0 +1,273 @@
+import { ethers } from "ethers";
+import { ARWEAVE_GATEWAY, DEFAULT_IPFS_GATEWAY } from "./avatar";
+
+export type ContenthashProtocol = "ipfs" | "ipns" | "swarm" | "arweave" | "onion" | "onion3";
+
+export interface DecodedContenthash {
+  protocol: ContenthashProtocol;
+  /** CID, IPNS name, Swarm hash, Arweave id or onion address. */
+  value: string;
+  /** Canonical URI, e.g. `ipfs://bafy...`. */
+  uri: string;
+}
+
+// ENSIP-7 multicodec prefixes, as unsigned varints.
+const CODECS: Record<ContenthashProtocol, number> = {
+  ipfs: 0xe3,
+  ipns: 0xe5,
+  swarm: 0xe4,
+  arweave: 0xb29910,
+  onion: 0x01bc,
+  onion3: 0x01bd
+};
+
+const URI_SCHEMES: Record<ContenthashProtocol, string> = {
+  ipfs: "ipfs://",
+  ipns: "ipns://",
+  swarm: "bzz://",
+  arweave: "ar://",
+  onion: "onion://",
+  onion3: "onion3://"
+};
+
+const DAG_PB = 0x70;
+const LIBP2P_KEY = 0x72;
+const SWARM_MANIFEST = 0xfa;
+const SHA2_256 = 0x12;
+const KECCAK_256 = 0x1b;
+const IDENTITY = 0x00;
+
+const SWARM_GATEWAY = "https://api.gateway.ethswarm.org/bzz";
+
+const BASE32 = "abcdefghijklmnopqrstuvwxyz234567";
+const BASE36 = "0123456789abcdefghijklmnopqrstuvwxyz";
+
+const encodeVarint = (value: number): number[] => {
+  const out: number[] = [];
+  while (value >= 0x80) {
+    out.push((value & 0x7f) | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  out.push(value);
+  return out;
+};
+
+const readVarint = (bytes: Uint8Array, offset: number): [number, number] => {
+  let value = 0;
+  let shift = 1;
+  for (let i = offset; i < bytes.length; i++) {
+    value += (bytes[i] & 0x7f) * shift;
+    if (bytes[i] < 0x80) return [value, i + 1];
+    shift *= 0x80;
+  }
+  throw new Error("Truncated varint.");
+};
+
+const toBase32 = (bytes: Uint8Array): string => {
+  let out = "";
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32[(buffer << (5 - bits)) & 31];
+  return out;
+};
+
+const fromBase32 = (text: string): Uint8Array => {
+  const out: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of text.toLowerCase()) {
+    const index = BASE32.indexOf(char);
+    if (index < 0) throw new Error(`Invalid base32 character "${char}".`);
+    buffer = (buffer << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      out.push((buffer >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(out);
+};
+
+const toBase36 = (bytes: Uint8Array): string => {
+  let value = BigInt(ethers.hexlify(bytes));
+  let out = "";
+  while (value > 0n) {
+    out = BASE36[Number(value % 36n)] + out;
+    value /= 36n;
+  }
+  const zeros = bytes.findIndex(b => b !== 0);
+  return "0".repeat(zeros < 0 ? bytes.length : zeros) + out;
+};
+
+const fromBase36 = (text: string): Uint8Array => {
+  let value = 0n;
+  for (const char of text.toLowerCase()) {
+    const index = BASE36.indexOf(char);
+    if (index < 0) throw new Error(`Invalid base36 character "${char}".`);
+    value = value * 36n + BigInt(index);
+  }
+  const zeros = text.match(/^0*/)![0].length;
+  const body = value === 0n ? new Uint8Array() : ethers.getBytes(ethers.toBeHex(value));
+  return new Uint8Array([...new Uint8Array(zeros), ...body]);
+};
+
+const toBase64Url = (bytes: Uint8Array): string =>
+  ethers.encodeBase64(bytes).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+const fromBase64Url = (text: string): Uint8Array =>
+  ethers.decodeBase64(text.replace(/-/g, "+").replace(/_/g, "/") + "=".repeat((4 - text.length % 4) % 4));
+
+/** Multibase-encodes a binary CID: base32 for IPFS, base36 for IPNS keys. */
+const formatCid = (cid: Uint8Array, base: "base32" | "base36"): string =>
+  base === "base32" ? `b${toBase32(cid)}` : `k${toBase36(cid)}`;
+
+// Parses a CID string into binary CIDv1. CIDv0 (`Qm...`) and bare base58
+// peer ids are upgraded with `codec`.
+const parseCid = (text: string, codec: number): Uint8Array => {
+  if (/^Qm[1-9A-HJ-NP-Za-km-z]+$/.test(text)) {
+    const multihash = ethers.getBytes(ethers.toBeHex(ethers.decodeBase58(text)));
+    return new Uint8Array([0x01, ...encodeVarint(codec), ...multihash]);
+  }
+  if (/^12D3Koo[1-9A-HJ-NP-Za-km-z]+$/.test(text)) {
+    // Ed25519 peer ids are identity multihashes starting with 0x00.
+    const multihash = ethers.getBytes(ethers.toBeHex(ethers.decodeBase58(text)));
+    return new Uint8Array([0x01, ...encodeVarint(codec), 0x00, ...multihash]);
+  }
+  if (/^b[a-z2-7]+$/i.test(text)) return fromBase32(text.slice(1));
+  if (/^k[0-9a-z]+$/i.test(text)) return fromBase36(text.slice(1));
+  throw new Error(`"${text}" is not a valid CID.`);
+};
+
+const checkCid = (cid: Uint8Array, codecs: number[]): void => {
+  if (cid[0] !== 0x01) throw new Error("Only CIDv0 and CIDv1 are supported.");
+  const [codec, offset] = readVarint(cid, 1);
+  if (!codecs.includes(codec)) throw new Error(`Unexpected CID codec 0x${codec.toString(16)}.`);
+  const [hashCode, lengthOffset] = readVarint(cid, offset);
+  const [length, digestOffset] = readVarint(cid, lengthOffset);
+  if (hashCode !== SHA2_256 && hashCode !== IDENTITY && hashCode !== KECCAK_256) {
+    throw new Error(`Unsupported multihash 0x${hashCode.toString(16)}.`);
+  }
+  if (cid.length - digestOffset !== length) throw new Error("The CID's digest length doesn't match.");
+};
+
+const withCodec = (protocol: ContenthashProtocol, payload: Uint8Array): string =>
+  ethers.hexlify(new Uint8Array([...encodeVarint(CODECS[protocol]), ...payload]));
+
+/**
+ * Encodes a website reference as an ENSIP-7 contenthash. Accepts
+ * `ipfs://`, `ipns://`, `bzz://`, `ar://`, `onion://` and `onion3://` URIs
+ * as well as bare IPFS CIDs. `ipns://` takes a key or a DNSLink domain. An empty string encodes to "0x", which clears
+ * the record. Throws on anything it can't encode.
+ */
+export const encodeContenthash = (input: string): string => {
+  const value = input.trim();
+  if (!value) return "0x";
+  const match = value.match(/^([a-z0-9]+):\/\/(.+?)\/?$/i);
+  const scheme = match ? match[1].toLowerCase() : "ipfs";
+  const rest = match ? match[2] : value;
+
+  switch (scheme) {
+    case "ipfs": {
+      const cid = parseCid(rest.replace(/^ipfs\//, ""), DAG_PB);
+      checkCid(cid, [DAG_PB, 0x55]);
+      return withCodec("ipfs", cid);
+    }
+    case "ipns": {
+      // Legacy DNSLink records hold the domain as an identity multihash.
+      if (/^[a-z0-9-]+(\.[a-z0-9-]+)+$/i.test(rest)) {
+        const domain = ethers.toUtf8Bytes(rest);
+        return withCodec("ipns", new Uint8Array([0x01, DAG_PB, IDENTITY, ...encodeVarint(domain.length), ...domain]));
+      }
+      const cid = parseCid(rest, LIBP2P_KEY);
+      checkCid(cid, [LIBP2P_KEY]);
+      return withCodec("ipns", cid);
+    }
+    case "bzz": {
+      if (!/^[0-9a-f]{64}$/i.test(rest)) throw new Error("A Swarm hash is 64 hex characters.");
+      return withCodec("swarm", new Uint8Array([0x01, ...encodeVarint(SWARM_MANIFEST), KECCAK_256, 0x20, ...ethers.getBytes(`0x${rest}`)]));
+    }
+    case "ar": {
+      const id = fromBase64Url(rest);
+      if (id.length !== 32) throw new Error("An Arweave transaction id is 43 base64url characters.");
+      return withCodec("arweave", id);
+    }
+    case "onion": {
+      const address = rest.replace(/\.onion$/i, "");
+      if (!/^[a-z2-7]{16}$/i.test(address)) throw new Error("An onion address is 16 base32 characters.");
+      return withCodec("onion", ethers.toUtf8Bytes(address.toLowerCase()));
+    }
+    case "onion3": {
+      const address = rest.replace(/\.onion$/i, "");
+      if (!/^[a-z2-7]{56}$/i.test(address)) throw new Error("An onion v3 address is 56 base32 characters.");
+      return withCodec("onion3", ethers.toUtf8Bytes(address.toLowerCase()));
+    }
+    default:
+      throw new Error(`Unsupported protocol "${scheme}://".`);
+  }
+};
+
+/** Decodes an ENSIP-7 contenthash. Returns null for "0x" and unknown or malformed values. */
+export const decodeContenthash = (hash: string | null | undefined): DecodedContenthash | null => {
+  if (!hash || !ethers.isHexString(hash) || hash === "0x") return null;
+  try {
+    const bytes = ethers.getBytes(hash);
+    const [codec, offset] = readVarint(bytes, 0);
+    const payload = bytes.slice(offset);
+    const protocol = (Object.keys(CODECS) as ContenthashProtocol[]).find(p => CODECS[p] === codec);
+    if (!protocol) return null;
+
+    let value: string;
+    switch (protocol) {
+      case "ipfs":
+        checkCid(payload, [DAG_PB, 0x55]);
+        value = formatCid(payload, "base32");
+        break;
+      case "ipns": {
+        const [cidCodec, hashOffset] = readVarint(payload, 1);
+        const [hashCode, lengthOffset] = readVarint(payload, hashOffset);
+        // Legacy records hold a DNSLink name as an identity multihash.
+        if (cidCodec !== LIBP2P_KEY && hashCode === IDENTITY) {
+          value = ethers.toUtf8String(payload.slice(readVarint(payload, lengthOffset)[1]));
+        } else {
+          checkCid(payload, [LIBP2P_KEY]);
+          value = formatCid(payload, "base36");
+        }
+        break;
+      }
+      case "swarm":
+        value = ethers.hexlify(payload.slice(-32)).slice(2);
+        break;
+      case "arweave":
+        value = toBase64Url(payload);
+        break;
+      default:
+        value = ethers.toUtf8String(payload);
+    }
+    return { protocol, value, uri: `${URI_SCHEMES[protocol]}${value}` };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * HTTP link for previewing a contenthash through a public gateway. Onion
+ * addresses link directly and only open in Tor Browser.
+ */
+export const contenthashUrl = (decoded: DecodedContenthash, ipfsGateway: string = DEFAULT_IPFS_GATEWAY): string => {
+  const gateway = ipfsGateway.replace(/\/+$/, "");
+  switch (decoded.protocol) {
+    case "ipfs": return `${gateway}/ipfs/${decoded.value}/`;
+    case "ipns": return `${gateway}/ipns/${decoded.value}/`;
+    case "swarm": return `${SWARM_GATEWAY}/${decoded.value}/`;
+    case "arweave": return `${ARWEAVE_GATEWAY}/${decoded.value}`;
+    default: return `http://${decoded.value}.onion`;
+  }
+};
@@ -0,0 +1,55 @@
+// NameWrapper fuse bits. Owner-controlled fuses live in the low 16 bits,
+// parent-controlled ones above them.
+export const FUSES = {
+  CANNOT_UNWRAP: 1,
+  CANNOT_BURN_FUSES: 2,
+  CANNOT_TRANSFER: 4,
+  CANNOT_SET_RESOLVER: 8,
+  CANNOT_SET_TTL: 16,
+  CANNOT_CREATE_SUBDOMAIN: 32,
+  CANNOT_APPROVE: 64,
+  PARENT_CANNOT_CONTROL: 1 << 16,
+  IS_DOT_ETH: 1 << 17,
+  CAN_EXTEND_EXPIRY: 1 << 18
+} as const;
+
+// The low 16 bits: fuses an owner burns on their own name.
+export const OWNER_CONTROLLED_FUSES = 0xffff;
+
+export type FuseName = keyof typeof FUSES;
+
+export const FUSE_DESCRIPTIONS: Record<FuseName, string> = {
+  CANNOT_UNWRAP: "Cannot be unwrapped",
+  CANNOT_BURN_FUSES: "No further fuses can be burned",
+  CANNOT_TRANSFER: "Cannot be transferred",
+  CANNOT_SET_RESOLVER: "Resolver is locked",
+  CANNOT_SET_TTL: "TTL is locked",
+  CANNOT_CREATE_SUBDOMAIN: "No new subnames",
+  CANNOT_APPROVE: "Approvals are locked",
+  PARENT_CANNOT_CONTROL: "Parent cannot take it back",
+  IS_DOT_ETH: ".eth second-level name",
+  CAN_EXTEND_EXPIRY: "Owner can extend expiry"
+};
+
+/** Names of every fuse set in `fuses`, in bit order. */
+export const decodeFuses = (fuses: number): FuseName[] =>
+  (Object.keys(FUSES) as FuseName[]).filter(name => (fuses & FUSES[name]) !== 0);
+
+export const encodeFuses = (names: FuseName[]): number =>
+  names.reduce((fuses, name) => fuses | FUSES[name], 0);
+
+/**
+ * Returns why `childFuses` cannot be burned on a subname of a parent with
+ * `parentFuses`, following the NameWrapper rules, or null when allowed.
+ */
+export const childFuseError = (childFuses: number, parentFuses: number): string | null => {
+  if (childFuses & FUSES.IS_DOT_ETH) return "IS_DOT_ETH cannot be set on a subname.";
+  const required = FUSES.PARENT_CANNOT_CONTROL | FUSES.CANNOT_UNWRAP;
+  if ((childFuses & OWNER_CONTROLLED_FUSES) !== 0 && (childFuses & required) !== required) {
+    return "Owner-controlled fuses require PARENT_CANNOT_CONTROL and CANNOT_UNWRAP.";
+  }
+  if ((childFuses & FUSES.PARENT_CANNOT_CONTROL) && !(parentFuses & FUSES.CANNOT_UNWRAP)) {
+    return "The parent must have CANNOT_UNWRAP burned before its subnames can be emancipated.";
+  }
+  return null;
+};
@@ -0,0 +1,30 @@
+export { BaseNamesClient } from "./client";
+export type { BaseNamesClientOptions, CreateSubnameOptions, SubnameStep, WriteHooks } from "./client";
+export * from "./activity";
+export * from "./abis";
+export * from "./avatar";
+export * from "./backup";
+export * from "./bulk";
+export * from "./coins";
+export * from "./config";
+export * from "./contenthash";
+export * from "./fuses";
+export * from "./labels";
+export * from "./multicall";
+export * from "./networks";
+export * from "./normalize";
+export * from "./offchain";
+export * from "./paths";
+export * from "./portfolio";
+export * from "./records";
+export * from "./resolution";
+export * from "./routes";
+export * from "./rpc";
+export * from "./safe";
+export * from "./simulate";
+export * from "./siwe";
+export * from "./storage";
+export * from "./subnames";
+export * from "./types";
+export * from "./utils";
+export * from "./wallets";
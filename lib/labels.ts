@@ -0,0 +1,52 @@
+import { ethers } from "ethers";
+import { NETWORKS } from "./networks";
+import { normalizeName } from "./normalize";
+import { KeyValueStore, browserStore, readJson, writeJson } from "./storage";
+
+const LABELS_KEY = "basenames:labels";
+const NAMES_KEY = "basenames:names";
+
+// Nodes whose names are known without a label lookup.
+const KNOWN_NODES: Record<string, string> = {
+  [ethers.ZeroHash]: "",
+  [ethers.namehash("eth")]: "eth",
+  ...Object.fromEntries(Object.values(NETWORKS).map(n => [ethers.namehash(n.rootName), n.rootName]))
+};
+
+/** Labelhash → label dictionary collected from names seen in the app. */
+export const loadLabels = (store: KeyValueStore = browserStore): Record<string, string> =>
+  readJson<Record<string, string>>(store, LABELS_KEY, {});
+
+/** Node → full name dictionary for every name (and parent) seen in the app. */
+export const loadNames = (store: KeyValueStore = browserStore): Record<string, string> =>
+  readJson<Record<string, string>>(store, NAMES_KEY, {});
+
+/**
+ * Records every label of `name` and each of its parents so their hashes
+ * can be decoded later. Names that don't normalize are skipped: their
+ * hashes wouldn't match anything onchain.
+ */
+export const rememberName = (name: string, store: KeyValueStore = browserStore): void => {
+  let parts: string[];
+  try {
+    parts = normalizeName(name).split(".");
+  } catch {
+    return;
+  }
+
+  const labels = loadLabels(store);
+  const names = loadNames(store);
+  parts.forEach((label, i) => {
+    labels[ethers.id(label)] = label;
+    const suffix = parts.slice(i).join(".");
+    names[ethers.namehash(suffix)] = suffix;
+  });
+  writeJson(store, LABELS_KEY, labels);
+  writeJson(store, NAMES_KEY, names);
+};
+
+/** Decodes a labelhash, falling back to the `[hash]` form ENS uses for unknown labels. */
+export const formatLabel = (labelHash: string, labels: Record<string, string>): string =>
+  labels[labelHash] ?? `[${labelHash.slice(2)}]`;
+
+export const knownNodeName = (node: string): string | undefined => KNOWN_NODES[node];
@@ -0,0 +1,103 @@
+import { Interface } from "ethers";
+
+// Multicall3 is deployed at the same address on every chain we support.
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+export const MULTICALL3_ABI = [
+  "function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) payable returns (tuple(bool success, bytes returnData)[] returnData)"
+];
+
+const multicall = new Interface(MULTICALL3_ABI);
+
+export interface BatchedCall {
+  to: string;
+  data: string;
+}
+
+export interface MulticallBatcherOptions {
+  address?: string;
+  /** Calls per `aggregate3` request. */
+  maxBatchSize?: number;
+  /** How long to collect calls before sending a batch. */
+  waitMs?: number;
+}
+
+interface PendingCall extends BatchedCall {
+  resolve: (data: string) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Collects `eth_call`s made within `waitMs` of each other and sends them as
+ * one Multicall3 `aggregate3`, with failure allowed per call. A reverted
+ * call is rejected through `revertError` with its own revert data. If the
+ * aggregate itself reverts or cannot be decoded (e.g. no Multicall3 on a
+ * local chain) the batch is retried call by call.
+ */
+export class MulticallBatcher {
+  readonly address: string;
+  readonly #maxBatchSize: number;
+  readonly #waitMs: number;
+  #queue: PendingCall[] = [];
+  #timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private readonly sendCall: (call: BatchedCall) => Promise<string>,
+    private readonly revertError: (call: BatchedCall, data: string) => Error,
+    options: MulticallBatcherOptions = {}
+  ) {
+    this.address = options.address ?? MULTICALL3_ADDRESS;
+    this.#maxBatchSize = options.maxBatchSize ?? 100;
+    this.#waitMs = options.waitMs ?? 10;
+  }
+
+  call(call: BatchedCall): Promise<string> {
+    return new Promise((resolve, reject) => {
+      this.#queue.push({ ...call, resolve, reject });
+      if (!this.#timer) this.#timer = setTimeout(() => this.#flush(), this.#waitMs);
+    });
+  }
+
+  #flush(): void {
+    const queue = this.#queue;
+    this.#queue = [];
+    this.#timer = null;
+    for (let i = 0; i < queue.length; i += this.#maxBatchSize) {
+      this.#send(queue.slice(i, i + this.#maxBatchSize));
+    }
+  }
+
+  async #send(batch: PendingCall[]): Promise<void> {
+    if (batch.length === 1) {
+      this.#sendEach(batch);
+      return;
+    }
+
+    let results: { success: boolean; returnData: string }[];
+    try {
+      const data = multicall.encodeFunctionData("aggregate3", [batch.map(c => ({ target: c.to, allowFailure: true, callData: c.data }))]);
+      const raw = await this.sendCall({ to: this.address, data });
+      [results] = multicall.decodeFunctionResult("aggregate3", raw);
+    } catch (err: any) {
+      // Every endpoint is down; retrying call by call would only add load.
+      if (err?.name === "RpcError") {
+        batch.forEach(call => call.reject(err));
+        return;
+      }
+      this.#sendEach(batch);
+      return;
+    }
+
+    batch.forEach((call, i) => {
+      const { success, returnData } = results[i];
+      if (success) call.resolve(returnData);
+      else call.reject(this.revertError(call, returnData));
+    });
+  }
+
+  #sendEach(batch: PendingCall[]): void {
+    batch.forEach(call => {
+      this.sendCall({ to: call.to, data: call.data }).then(call.resolve, call.reject);
+    });
+  }
+}
@@ -0,0 +1,95 @@
+import { ethers } from "ethers";
+import {
+  BASE_CHAIN_ID_DECIMAL,
+  BASE_EXPLORER,
+  BASE_REVERSE_NAMESPACE,
+  BASE_RPC_URL,
+  ContractAddresses,
+  DEFAULT_ADDRESSES,
+  REGISTRY_START_BLOCK
+} from "./config";
+
+export interface NetworkConfig {
+  key: string;
+  /** Human-readable name shown wherever the active network is labelled. */
+  name: string;
+  chainId: number;
+  /** Tried in order; the first is used for reads and suggested to wallets. */
+  rpcUrls: string[];
+  /** Block explorer base URL, or "" when there is none. */
+  explorer: string;
+  /** Parent of the names the registrar controller issues. */
+  rootName: string;
+  /** ENSIP-19 reverse namespace the L2 reverse registrar writes to. */
+  reverseNamespace: string;
+  addresses: ContractAddresses;
+  startBlock: number;
+  testnet: boolean;
+  /** Safe Transaction Service and the chain's prefix in Safe{Wallet} URLs; absent where Safe runs no service. */
+  safe?: { txServiceUrl: string; shortName: string };
+}
+
+export const BASE_MAINNET: NetworkConfig = {
+  key: "base",
+  name: "Base Mainnet",
+  chainId: BASE_CHAIN_ID_DECIMAL,
+  rpcUrls: [BASE_RPC_URL, "https://base-rpc.publicnode.com", "https://base.llamarpc.com"],
+  explorer: BASE_EXPLORER,
+  rootName: "base.eth",
+  reverseNamespace: BASE_REVERSE_NAMESPACE,
+  addresses: DEFAULT_ADDRESSES,
+  startBlock: REGISTRY_START_BLOCK,
+  testnet: false,
+  safe: { txServiceUrl: "https://safe-transaction-base.safe.global", shortName: "base" }
+};
+
+export const BASE_SEPOLIA: NetworkConfig = {
+  key: "base-sepolia",
+  name: "Base Sepolia",
+  chainId: 84532,
+  rpcUrls: ["https://sepolia.base.org", "https://base-sepolia-rpc.publicnode.com"],
+  explorer: "https://sepolia.basescan.org",
+  rootName: "basetest.eth",
+  reverseNamespace: "80014a34.reverse",
+  addresses: {
+    registry: ethers.getAddress("0x1493b2567056c2181630115660963E13A8E32735".toLowerCase()),
+    resolver: ethers.getAddress("0x6533C94869D28fAA8dF77cc63f9e2b2D6Cf77eBA".toLowerCase()),
+    registrar: ethers.getAddress("0xA0c70ec36c010B55E3C434D6c6EbEEC50c705794".toLowerCase()),
+    reverseRegistrar: ethers.getAddress("0x876eF94ce0773052a2f81921E70FF25a5e76841f".toLowerCase()),
+    controller: ethers.getAddress("0x49aE3cC2e3AA768B1e5654f5D3C6002144A59581".toLowerCase()),
+    nameWrapper: ethers.ZeroAddress
+  },
+  // Deployment block is not pinned; override it to skip the empty range.
+  startBlock: 0,
+  testnet: true,
+  safe: { txServiceUrl: "https://safe-transaction-base-sepolia.safe.global", shortName: "basesep" }
+};
+
+// An Anvil fork of Base Mainnet, started with
+// `anvil --fork-url https://mainnet.base.org --chain-id 31337`.
+export const LOCAL_FORK: NetworkConfig = {
+  ...BASE_MAINNET,
+  key: "local",
+  name: "Local Fork",
+  chainId: 31337,
+  rpcUrls: ["http://127.0.0.1:8545"],
+  explorer: "",
+  testnet: true,
+  safe: undefined
+};
+
+export const NETWORKS: Record<string, NetworkConfig> = {
+  [BASE_MAINNET.key]: BASE_MAINNET,
+  [BASE_SEPOLIA.key]: BASE_SEPOLIA,
+  [LOCAL_FORK.key]: LOCAL_FORK
+};
+
+/** Looks up a network by key, falling back to Base Mainnet for unknown keys. */
+export const getNetwork = (key?: string | null): NetworkConfig =>
+  (key && NETWORKS[key]) || BASE_MAINNET;
+
+export const chainIdHex = (chainId: number): string => `0x${chainId.toString(16)}`;
+
+/** Explorer link for a transaction, or null on networks without an explorer. */
+export const txUrl = (network: NetworkConfig, hash: string): string | null =>
+  network.explorer ? `${network.explorer}/tx/${hash}` : null;
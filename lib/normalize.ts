@@ -0,0 +1,99 @@
+import { ens_split, ens_tokenize } from "@adraffy/ens-normalize";
+
+export interface LabelReport {
+  input: string;
+  output: string;
+  error?: string;
+  warnings: string[];
+}
+
+export interface NameReport {
+  input: string;
+  /** ENSIP-15 normalized name, or null when any label is invalid. */
+  normalized: string | null;
+  labels: LabelReport[];
+  /** First label error, prefixed with the offending label. */
+  error?: string;
+  warnings: string[];
+}
+
+const fromCps = (cps: number[] = []) => String.fromCodePoint(...cps);
+
+const labelWarnings = (input: string, output: string, type: string | undefined, emoji: boolean | undefined): string[] => {
+  const warnings: string[] = [];
+  const tokens = ens_tokenize(input);
+  if (tokens.some(t => t.type === "ignored")) {
+    warnings.push("Invisible characters were removed.");
+  }
+  if (output !== input.toLowerCase() && !tokens.some(t => t.type === "ignored")) {
+    warnings.push("Some characters were mapped to their canonical form.");
+  }
+  if (emoji) {
+    warnings.push("Contains emoji; make sure it renders the same everywhere.");
+  }
+  if (type && type !== "ASCII" && type !== "Emoji") {
+    warnings.push(type === "Latin"
+      ? "Contains non-ASCII Latin characters that can look like plain letters."
+      : `Uses the ${type} script; look-alike names may exist.`);
+  }
+  return warnings;
+};
+
+/**
+ * Runs `input` through ENSIP-15 and reports, per label, the normalized
+ * form, any error and confusable or mixed-script warnings.
+ */
+export const inspectName = (input: string): NameReport => {
+  const trimmed = input.trim();
+  if (!trimmed) {
+    return { input, normalized: null, labels: [], error: "Enter a name.", warnings: [] };
+  }
+
+  const split = ens_split(trimmed);
+  const labels: LabelReport[] = split.map(label => {
+    const labelInput = fromCps(label.input);
+    if (label.error) {
+      return { input: labelInput, output: fromCps(label.output), error: label.error.message, warnings: [] };
+    }
+    const output = fromCps(label.output);
+    return { input: labelInput, output, warnings: labelWarnings(labelInput, output, label.type, label.emoji) };
+  });
+
+  const invalid = labels.find(l => l.error);
+  const warnings: string[] = [];
+  const scripts = new Set(split.map(l => l.type).filter(t => t && t !== "ASCII" && t !== "Emoji"));
+  if (scripts.size > 1) warnings.push(`Mixes ${[...scripts].join(" and ")} scripts across labels.`);
+
+  return {
+    input,
+    normalized: invalid ? null : labels.map(l => l.output).join("."),
+    labels,
+    error: invalid
+      ? invalid.input ? `"${invalid.input}": ${invalid.error}` : `label ${labels.indexOf(invalid) + 1}: ${invalid.error}`
+      : undefined,
+    warnings: [...warnings, ...labels.flatMap(l => l.warnings.map(w => `"${l.output}": ${w}`))]
+  };
+};
+
+/** Normalizes a full name, throwing with a per-label message when invalid. */
+export const normalizeName = (input: string): string => {
+  const report = inspectName(input);
+  if (report.normalized === null) throw new Error(`Invalid name ${report.error}`);
+  return report.normalized;
+};
+
+/** Like `inspectName`, but for a single label: dots are an error. */
+export const inspectLabel = (input: string): NameReport => {
+  const report = inspectName(input);
+  if (report.labels.length > 1) {
+    return { ...report, normalized: null, error: `"${input.trim()}": labels cannot contain dots` };
+  }
+  return report;
+};
+
+/** Normalizes a single label, throwing when invalid. */
+export const normalizeLabel = (input: string): string => {
+  const report = inspectLabel(input);
+  if (report.normalized === null) throw new Error(`Invalid label ${report.error}`);
+  return report.normalized;
+};
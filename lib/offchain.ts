@@ -0,0 +1,201 @@
+import { ethers, FetchRequest, Interface } from "ethers";
+import type { Signer, TypedDataField } from "ethers";
+import type { BaseNamesClient } from "./client";
+import { RESOLVER_ABI, RESOLVER_SERVICE_ABI } from "./abis";
+import { ETH_COIN_TYPE, evmCoinType } from "./coins";
+import { normalizeLabel, normalizeName } from "./normalize";
+
+/** Records a gateway serves for an offchain subname. */
+export interface OffchainRecords {
+  /** EVM address, served for ETH and the gateway chain's ENSIP-11 coin type. */
+  address: string;
+  texts: Record<string, string>;
+}
+
+export interface OffchainSubname {
+  name: string;
+  parent: string;
+  label: string;
+  owner: string;
+  records: OffchainRecords;
+  issuedAt: number;
+  /** Timestamp of the last signed change; older signatures are rejected. */
+  updatedAt: number;
+}
+
+// Signed requests older or further in the future than this are rejected.
+export const MAX_SIGNATURE_AGE_SECONDS = 10 * 60;
+
+export const ISSUE_SUBNAME_TYPES: Record<string, TypedDataField[]> = {
+  IssueSubname: [
+    { name: "parent", type: "string" },
+    { name: "label", type: "string" },
+    { name: "owner", type: "address" },
+    { name: "timestamp", type: "uint64" }
+  ]
+};
+
+export const UPDATE_RECORDS_TYPES: Record<string, TypedDataField[]> = {
+  UpdateRecords: [
+    { name: "name", type: "string" },
+    { name: "addr", type: "address" },
+    { name: "texts", type: "TextRecord[]" },
+    { name: "timestamp", type: "uint64" }
+  ],
+  TextRecord: [
+    { name: "key", type: "string" },
+    { name: "value", type: "string" }
+  ]
+};
+
+export const REVOKE_SUBNAME_TYPES: Record<string, TypedDataField[]> = {
+  RevokeSubname: [
+    { name: "name", type: "string" },
+    { name: "timestamp", type: "uint64" }
+  ]
+};
+
+/** EIP-712 domain gateway requests are signed under. */
+export const gatewayDomain = (chainId: number): ethers.TypedDataDomain => ({ name: "Base Names Gateway", version: "1", chainId });
+
+/** Text records as the sorted `TextRecord[]` the update signature covers. */
+export const toTextRecordList = (texts: Record<string, string>): { key: string; value: string }[] =>
+  Object.keys(texts).sort().map(key => ({ key, value: texts[key] }));
+
+const resolverInterface = new Interface(RESOLVER_ABI);
+const serviceInterface = new Interface(RESOLVER_SERVICE_ABI);
+
+/**
+ * ABI-encoded answer to a resolver call (`addr`, `text`, `contenthash`)
+ * from `records`, or null when the call isn't one a gateway serves.
+ * `records` of null answer with empty values.
+ */
+export const answerResolverCall = (records: OffchainRecords | null, data: string, chainId: number): string | null => {
+  const call = resolverInterface.parseTransaction({ data });
+  if (!call) return null;
+  const address = records?.address || ethers.ZeroAddress;
+  switch (call.signature) {
+    case "addr(bytes32)":
+      return resolverInterface.encodeFunctionResult(call.fragment, [address]);
+    case "addr(bytes32,uint256)": {
+      const coinType = Number(call.args[1]);
+      const served = records?.address && (coinType === ETH_COIN_TYPE || coinType === evmCoinType(chainId));
+      return resolverInterface.encodeFunctionResult(call.fragment, [served ? address : "0x"]);
+    }
+    case "text(bytes32,string)":
+      return resolverInterface.encodeFunctionResult(call.fragment, [records?.texts[call.args[1]] ?? ""]);
+    case "contenthash(bytes32)":
+      return resolverInterface.encodeFunctionResult(call.fragment, ["0x"]);
+    default:
+      return null;
+  }
+};
+
+/**
+ * Hash an offchain resolver checks the gateway's signature against, as
+ * in ENS's reference `SignatureVerifier`.
+ */
+export const offchainResponseHash = (target: string, expires: bigint, request: string, result: string): string =>
+  ethers.solidityPackedKeccak256(
+    ["bytes", "address", "uint64", "bytes32", "bytes32"],
+    ["0x1900", target, expires, ethers.keccak256(request), ethers.keccak256(result)]
+  );
+
+// Inverse of `ethers.dnsEncode`: length-prefixed labels ending in a zero byte.
+const dnsDecode = (encoded: string): string => {
+  const bytes = ethers.getBytes(encoded);
+  const labels: string[] = [];
+  let offset = 0;
+  while (bytes[offset]) {
+    const length = bytes[offset];
+    if (offset + 1 + length > bytes.length) throw new Error("Invalid DNS-encoded name.");
+    labels.push(ethers.toUtf8String(bytes.slice(offset + 1, offset + 1 + length)));
+    offset += 1 + length;
+  }
+  return labels.join(".");
+};
+
+/**
+ * Decodes a CCIP-Read request to the gateway: the DNS-decoded name and
+ * the resolver call it wraps.
+ */
+export const parseResolveRequest = (callData: string): { name: string; data: string } => {
+  const [name, data] = serviceInterface.decodeFunctionData("resolve", callData);
+  return { name: dnsDecode(name), data };
+};
+
+/** Encodes a signed answer as the `resolve` result the resolver's callback verifies. */
+export const encodeResolveResponse = (result: string, expires: bigint, signature: string): string =>
+  serviceInterface.encodeFunctionResult("resolve", [result, expires, signature]);
+
+/**
+ * HTTP client for a gateway serving gasless subnames. Issuing and revoking
+ * are signed by the parent's owner, record updates by the subname's owner,
+ * as EIP-712 messages for the client's chain.
+ */
+export class SubnameGateway {
+  readonly url: string;
+
+  constructor(url: string, private readonly client: BaseNamesClient) {
+    this.url = url.replace(/\/+$/, "");
+  }
+
+  /** Subnames the gateway has issued under `parent`. */
+  async list(parent: string): Promise<OffchainSubname[]> {
+    return this.#request("GET", `/subnames?parent=${encodeURIComponent(normalizeName(parent))}`);
+  }
+
+  /** The gateway's entry for `name`, or null when it doesn't serve it. */
+  async get(name: string): Promise<OffchainSubname | null> {
+    return this.#request("GET", `/subnames/${encodeURIComponent(normalizeName(name))}`, undefined, true);
+  }
+
+  /** Issues `label.parent` to `owner`, resolving to `owner`. `signer` must own `parent`. */
+  async issue(signer: Signer, parent: string, label: string, owner: string): Promise<OffchainSubname> {
+    if (!ethers.isAddress(owner.trim())) throw new Error("Invalid owner address.");
+    const message = {
+      parent: normalizeName(parent),
+      label: normalizeLabel(label),
+      owner: ethers.getAddress(owner.trim()),
+      timestamp: Math.floor(Date.now() / 1000)
+    };
+    const signature = await signer.signTypedData(gatewayDomain(this.client.chainId), ISSUE_SUBNAME_TYPES, message);
+    return this.#request("POST", "/subnames", { ...message, signature });
+  }
+
+  /** Replaces the records of `name`. `signer` must be its owner. */
+  async setRecords(signer: Signer, name: string, records: OffchainRecords): Promise<OffchainSubname> {
+    const address = records.address.trim();
+    if (address && !ethers.isAddress(address)) throw new Error("Invalid address.");
+    const texts = Object.fromEntries(Object.entries(records.texts).filter(([, value]) => value !== ""));
+    const message = {
+      name: normalizeName(name),
+      addr: address ? ethers.getAddress(address) : ethers.ZeroAddress,
+      texts: toTextRecordList(texts),
+      timestamp: Math.floor(Date.now() / 1000)
+    };
+    const signature = await signer.signTypedData(gatewayDomain(this.client.chainId), UPDATE_RECORDS_TYPES, message);
+    return this.#request("POST", `/subnames/${encodeURIComponent(message.name)}/records`, { ...message, signature });
+  }
+
+  /** Stops serving `name`. `signer` must own its parent. */
+  async revoke(signer: Signer, name: string): Promise<void> {
+    const message = { name: normalizeName(name), timestamp: Math.floor(Date.now() / 1000) };
+    const signature = await signer.signTypedData(gatewayDomain(this.client.chainId), REVOKE_SUBNAME_TYPES, message);
+    await this.#request("POST", `/subnames/${encodeURIComponent(message.name)}/revoke`, { ...message, signature });
+  }
+
+  async #request(method: string, path: string, body?: unknown, allowMissing = false): Promise<any> {
+    const request = new FetchRequest(`${this.url}${path}`);
+    request.method = method;
+    if (body !== undefined) {
+      request.setHeader("content-type", "application/json");
+      request.body = ethers.toUtf8Bytes(JSON.stringify(body, (_, value) => typeof value === "bigint" ? value.toString() : value));
+    }
+    const response = await request.send();
+    if (allowMissing && response.statusCode === 404) return null;
+    const json = response.hasBody() ? response.bodyJson : null;
+    if (!response.ok()) throw new Error(json?.error ?? `Gateway error (HTTP ${response.statusCode}).`);
+    return json;
+  }
+}
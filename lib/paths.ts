@@ -0,0 +1,23 @@
+// Imports nothing, so `embed.ts` can use it without bundling ethers into `/embed.js`.
+
+/** A page of the app, as encoded in the URL path. */
+export type Route =
+  | { page: "home" }
+  | { page: "name"; name: string }
+  | { page: "address"; address: string }
+  | { page: "manage"; name: string }
+  | { page: "subnames"; name: string }
+  | { page: "profile"; name: string }
+  | { page: "embed"; name: string };
+
+/** URL path of `route`; the inverse of `parseRoute`. */
+export const routePath = (route: Route): string => {
+  switch (route.page) {
+    case "home": return "/";
+    case "address": return `/address/${route.address}`;
+    default: return `/${route.page}/${encodeURIComponent(route.name)}`;
+  }
+};
+
+/** Message type an `/embed/:name` page posts to its host whenever its height changes. */
+export const EMBED_RESIZE_MESSAGE = "base-name-card:resize";
@@ -0,0 +1,217 @@
+import { ethers } from "ethers";
+import type { BaseNamesClient } from "./client";
+import { formatLabel, knownNodeName } from "./labels";
+import { KeyValueStore, browserStore, readJson, writeJson } from "./storage";
+import { sameAddress } from "./utils";
+
+export interface TrackedNode {
+  parentNode: string | null;
+  labelHash: string | null;
+  owner: string;
+}
+
+/**
+ * Progress of a portfolio log scan. Every registry node the wallet has
+ * ever owned is tracked so later transfers away are noticed; ownership is
+ * re-checked onchain when the portfolio is built.
+ */
+export interface PortfolioScan {
+  owner: string;
+  nextBlock: number;
+  nodes: Record<string, TrackedNode>;
+  tokenIds: string[];
+}
+
+export interface OwnedName {
+  node: string;
+  name: string;
+  /** Holds the registrar NFT (the registrant). */
+  registrant: boolean;
+  /** Controls the node in the registry. */
+  controller: boolean;
+  expires: number | null;
+  resolver: string;
+  isPrimary: boolean;
+}
+
+export interface ScanPageOptions {
+  toBlock: number;
+  chunkSize?: number;
+}
+
+const DEFAULT_CHUNK_SIZE = 10_000;
+
+const scanKey = (chainId: number, owner: string) => `basenames:portfolio:${chainId}:${owner.toLowerCase()}`;
+
+export const loadPortfolioScan = (client: BaseNamesClient, owner: string, store: KeyValueStore = browserStore): PortfolioScan =>
+  readJson<PortfolioScan>(store, scanKey(client.chainId, owner), {
+    owner: owner.toLowerCase(),
+    nextBlock: client.startBlock,
+    nodes: {},
+    tokenIds: []
+  });
+
+export const savePortfolioScan = (client: BaseNamesClient, scan: PortfolioScan, store: KeyValueStore = browserStore): void =>
+  writeJson(store, scanKey(client.chainId, scan.owner), scan);
+
+export const clearPortfolioScan = (client: BaseNamesClient, owner: string, store: KeyValueStore = browserStore): void =>
+  store.remove(scanKey(client.chainId, owner));
+
+// Nodes per `getLogs` topic list, so requests stay within RPC limits.
+const MAX_TOPIC_NODES = 100;
+
+const chunks = <T>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+
+/**
+ * Scans one chunk of logs starting at `scan.nextBlock`. Registrar
+ * `Transfer` logs are filtered on the indexed recipient. The registry's
+ * events don't index the owner, so its logs are filtered on the indexed
+ * node instead: `NewOwner` under names the wallet holds and `Transfer` of
+ * nodes already tracked. Subnames issued to the wallet under someone
+ * else's name are therefore only found through their parent. Returns the
+ * updated scan; callers persist it and repeat until `nextBlock` passes
+ * `toBlock`.
+ */
+export const scanPortfolioPage = async (client: BaseNamesClient, scan: PortfolioScan, options: ScanPageOptions): Promise<PortfolioScan> => {
+  const fromBlock = scan.nextBlock;
+  const toBlock = Math.min(options.toBlock, fromBlock + (options.chunkSize ?? DEFAULT_CHUNK_SIZE) - 1);
+  if (fromBlock > toBlock) return scan;
+
+  const registry = client.registry();
+  const registrar = client.registrar();
+  const newOwnerTopic = registry.interface.getEvent("NewOwner")!.topicHash;
+  const registryTransferTopic = registry.interface.getEvent("Transfer")!.topicHash;
+  const registrarTransferTopic = registrar.interface.getEvent("Transfer")!.topicHash;
+  const ownerTopic = ethers.zeroPadValue(scan.owner, 32);
+  const rootNode = ethers.namehash(client.network.rootName);
+
+  const registrarLogs = await client.provider.getLogs({
+    address: client.addresses.registrar,
+    topics: [registrarTransferTopic, null, ownerTopic],
+    fromBlock,
+    toBlock
+  });
+  const tokenIds = new Set(scan.tokenIds);
+  registrarLogs.forEach(log => {
+    const parsed = registrar.interface.parseLog(log);
+    if (parsed) tokenIds.add((parsed.args[2] as bigint).toString());
+  });
+
+  const registryLogs = (nodes: string[], topic: string) => Promise.all(chunks(nodes, MAX_TOPIC_NODES).map(batch =>
+    client.provider.getLogs({ address: client.addresses.registry, topics: [topic, batch], fromBlock, toBlock })
+  )).then(pages => pages.flat());
+
+  // Names the wallet holds or held; children issued to it in this chunk
+  // can be parents of further children, so look under them too.
+  const known = new Set([
+    ...Object.keys(scan.nodes),
+    ...[...tokenIds].map(tokenId => ethers.keccak256(ethers.concat([rootNode, ethers.toBeHex(BigInt(tokenId), 32)])))
+  ]);
+  const newOwnerLogs: ethers.Log[] = [];
+  let parents = [...known];
+  while (parents.length > 0) {
+    const logs = await registryLogs(parents, newOwnerTopic);
+    newOwnerLogs.push(...logs);
+    parents = [];
+    logs.forEach(log => {
+      const [parentNode, labelHash, owner] = registry.interface.parseLog(log)!.args as unknown as [string, string, string];
+      const node = ethers.keccak256(ethers.concat([parentNode, labelHash]));
+      if (sameAddress(owner, scan.owner) && !known.has(node)) {
+        known.add(node);
+        parents.push(node);
+      }
+    });
+  }
+  const transferLogs = await registryLogs([...known], registryTransferTopic);
+
+  const nodes = { ...scan.nodes };
+  [...newOwnerLogs, ...transferLogs]
+    .sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index)
+    .forEach(log => {
+      const parsed = registry.interface.parseLog(log);
+      if (!parsed) return;
+
+      if (parsed.name === "NewOwner") {
+        const [parentNode, labelHash, owner] = parsed.args as unknown as [string, string, string];
+        const node = ethers.keccak256(ethers.concat([parentNode, labelHash]));
+        if (sameAddress(owner, scan.owner) || nodes[node]) {
+          nodes[node] = { parentNode, labelHash, owner };
+        }
+      } else {
+        const [node, owner] = parsed.args as unknown as [string, string];
+        if (nodes[node]) {
+          nodes[node] = { ...nodes[node], owner };
+        } else if (sameAddress(owner, scan.owner)) {
+          nodes[node] = { parentNode: null, labelHash: null, owner };
+        }
+      }
+    });
+
+  return { ...scan, nextBlock: toBlock + 1, nodes, tokenIds: [...tokenIds] };
+};
+
+/**
+ * Builds the current portfolio from a scan, re-checking ownership onchain
+ * and attaching expiry, resolver and primary-name status.
+ */
+export const buildPortfolio = async (
+  client: BaseNamesClient,
+  scan: PortfolioScan,
+  labels: Record<string, string>,
+  names: Record<string, string>,
+  primaryName?: string | null
+): Promise<OwnedName[]> => {
+  const registry = client.registry();
+  const registrar = client.registrar();
+  const rootNode = ethers.namehash(client.network.rootName);
+
+  const candidates = new Map<string, { labelHash: string | null; parentNode: string | null }>();
+  Object.entries(scan.nodes).forEach(([node, tracked]) => {
+    if (sameAddress(tracked.owner, scan.owner)) candidates.set(node, tracked);
+  });
+  scan.tokenIds.forEach(tokenId => {
+    const labelHash = ethers.toBeHex(BigInt(tokenId), 32);
+    const node = ethers.keccak256(ethers.concat([rootNode, labelHash]));
+    candidates.set(node, { labelHash, parentNode: rootNode });
+  });
+
+  const nameOf = (node: string): string => {
+    const known = knownNodeName(node) ?? names[node];
+    if (known !== undefined) return known;
+    const tracked = candidates.get(node) ?? scan.nodes[node];
+    if (!tracked?.labelHash || !tracked.parentNode) return `[${node.slice(2)}]`;
+    const parent = nameOf(tracked.parentNode);
+    const label = formatLabel(tracked.labelHash, labels);
+    return parent ? `${label}.${parent}` : label;
+  };
+
+  const entries = await Promise.all([...candidates.entries()].map(async ([node, candidate]) => {
+    const tokenId = candidate.parentNode === rootNode && candidate.labelHash ? BigInt(candidate.labelHash) : null;
+    const [controllerAddr, registrantAddr, expires, resolver] = await Promise.all([
+      registry.owner(node).catch(() => ethers.ZeroAddress),
+      tokenId !== null ? registrar.ownerOf(tokenId).catch(() => ethers.ZeroAddress) : Promise.resolve(ethers.ZeroAddress),
+      tokenId !== null ? registrar.nameExpires(tokenId).catch(() => 0n) : Promise.resolve(0n),
+      registry.resolver(node).catch(() => ethers.ZeroAddress)
+    ]);
+
+    const controller = sameAddress(controllerAddr, scan.owner);
+    const registrant = sameAddress(registrantAddr, scan.owner);
+    if (!controller && !registrant) return null;
+
+    const name = nameOf(node);
+    return {
+      node,
+      name,
+      registrant,
+      controller,
+      expires: expires ? Number(expires) : null,
+      resolver,
+      isPrimary: !!primaryName && primaryName.toLowerCase() === name
+    } as OwnedName;
+  }));
+
+  return entries
+    .filter((entry): entry is OwnedName => entry !== null)
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
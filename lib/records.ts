@@ -0,0 +1,72 @@
+import type { CoinAddress } from "./coins";
+
+// ENSIP-5 global keys followed by the common service keys.
+export const TEXT_RECORD_KEYS = [
+  "avatar",
+  "header",
+  "display",
+  "description",
+  "keywords",
+  "url",
+  "email",
+  "location",
+  "notice",
+  "phone",
+  "com.twitter",
+  "com.github",
+  "com.discord",
+  "com.linkedin",
+  "com.reddit",
+  "org.telegram",
+  "io.keybase"
+];
+
+export interface RecordChange {
+  key: string;
+  from: string;
+  to: string;
+}
+
+/** Records to write in one resolver `multicall`. */
+export interface RecordUpdate {
+  texts?: RecordChange[];
+  /** An empty address clears the record. */
+  addresses?: CoinAddress[];
+  /** Contenthash URI; "" clears it and undefined leaves it alone. */
+  contenthash?: string;
+}
+
+/** Lists the keys whose value differs between `current` and `next`. */
+export const diffTextRecords = (current: Record<string, string>, next: Record<string, string>): RecordChange[] => {
+  const keys = new Set([...Object.keys(current), ...Object.keys(next)]);
+  const changes: RecordChange[] = [];
+  keys.forEach(key => {
+    const from = current[key] ?? "";
+    const to = next[key] ?? "";
+    if (from !== to) changes.push({ key, from, to });
+  });
+  return changes;
+};
+
+const RECORD_LINKS: Record<string, (value: string) => string> = {
+  "com.twitter": handle => `https://x.com/${handle}`,
+  "com.github": handle => `https://github.com/${handle}`,
+  "com.linkedin": handle => `https://www.linkedin.com/in/${handle}`,
+  "com.reddit": handle => `https://www.reddit.com/user/${handle}`,
+  "org.telegram": handle => `https://t.me/${handle}`,
+  "io.keybase": handle => `https://keybase.io/${handle}`
+};
+
+/**
+ * Link for a text record shown on a profile: service handles become their
+ * profile URL and `url` is used as is when it is http(s). Null for
+ * records that aren't links.
+ */
+export const textRecordLink = (key: string, value: string): string | null => {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  if (key === "url") return /^https?:\/\//i.test(trimmed) ? trimmed : null;
+  if (key === "email") return /^[^\s@]+@[^\s@]+$/.test(trimmed) ? `mailto:${trimmed}` : null;
+  const link = RECORD_LINKS[key];
+  return link ? link(encodeURIComponent(trimmed.replace(/^@/, ""))) : null;
+};
@@ -0,0 +1,61 @@
+import { ethers, Interface } from "ethers";
+import type { BaseNamesClient } from "./client";
+import { RESOLVER_ABI } from "./abis";
+import { normalizeName } from "./normalize";
+
+// ENSIP-10 `resolve(bytes name, bytes data)`.
+export const EXTENDED_RESOLVER_INTERFACE = "0x9061b923";
+
+const resolverInterface = new Interface(RESOLVER_ABI);
+
+export interface ResolverInfo {
+  /** Resolver contract address. */
+  address: string;
+  /** Name the resolver is set on; an ancestor of the looked-up name for wildcards. */
+  setOn: string;
+  /** Whether records are read through ENSIP-10 `resolve(bytes,bytes)`. */
+  extended: boolean;
+}
+
+/** Whether `address` implements ENSIP-10. Resolvers without ERC-165 read as false. */
+export const supportsWildcard = async (client: BaseNamesClient, address: string): Promise<boolean> =>
+  client.resolver(address).supportsInterface(EXTENDED_RESOLVER_INTERFACE).catch(() => false);
+
+/**
+ * Finds the resolver of `name` in the client's registry, following
+ * ENSIP-10: when `name` has none, its closest ancestor's resolver is used
+ * if that resolver supports wildcard resolution. Returns null when no
+ * resolver applies.
+ */
+export const findResolver = async (client: BaseNamesClient, name: string): Promise<ResolverInfo | null> => {
+  const labels = normalizeName(name).split(".");
+  for (let i = 0; i < labels.length; i++) {
+    const setOn = labels.slice(i).join(".");
+    const address: string = await client.registry().resolver(ethers.namehash(setOn)).catch(() => ethers.ZeroAddress);
+    if (address === ethers.ZeroAddress) continue;
+    const extended = await supportsWildcard(client, address);
+    if (i > 0 && !extended) return null;
+    return { address, setOn, extended };
+  }
+  return null;
+};
+
+/** Describes a known resolver address as the resolver of `name`. */
+export const resolverAt = async (client: BaseNamesClient, address: string, name: string): Promise<ResolverInfo> =>
+  ({ address, setOn: name, extended: await supportsWildcard(client, address) });
+
+/**
+ * Reads one record of `name`, e.g. `readRecord(client, resolver, name,
+ * "text(bytes32,string)", ["avatar"])`. Extended resolvers are called
+ * through `resolve` with the DNS-encoded name. `OffchainLookup` reverts
+ * (EIP-3668) are followed to the gateways they name and the answer is
+ * passed back to the resolver's callback.
+ */
+export const readRecord = async (client: BaseNamesClient, resolver: ResolverInfo, name: string, signature: string, args: unknown[] = []): Promise<any> => {
+  const cleanName = normalizeName(name);
+  const data = resolverInterface.encodeFunctionData(signature, [ethers.namehash(cleanName), ...args]);
+  const result: string = resolver.extended
+    ? await client.resolver(resolver.address).resolve(ethers.dnsEncode(cleanName, 255), data, { enableCcipRead: true })
+    : await client.provider.call({ to: resolver.address, data, enableCcipRead: true });
+  return resolverInterface.decodeFunctionResult(signature, result)[0];
+};
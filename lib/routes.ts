@@ -0,0 +1,33 @@
+import { ethers } from "ethers";
+import type { Route } from "./paths";
+
+/**
+ * Parses `/name/:name`, `/address/:addr`, `/manage/:name`,
+ * `/subnames/:name`, `/profile/:name` and `/embed/:name`. Anything else,
+ * including an invalid address or a missing name, is the home page. Names
+ * are returned as written; callers normalize them.
+ */
+export const parseRoute = (pathname: string): Route => {
+  const [page, value, ...rest] = pathname.split("/").filter(Boolean);
+  if (!page || rest.length > 0) return { page: "home" };
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(value ?? "").trim();
+  } catch {
+    return { page: "home" };
+  }
+  if (!decoded) return { page: "home" };
+
+  switch (page) {
+    case "name":
+    case "manage":
+    case "subnames":
+    case "profile":
+    case "embed":
+      return { page, name: decoded };
+    case "address":
+      return ethers.isAddress(decoded) ? { page, address: ethers.getAddress(decoded) } : { page: "home" };
+    default:
+      return { page: "home" };
+  }
+};
@@ -0,0 +1,252 @@
+import { FetchRequest, JsonRpcProvider, Network } from "ethers";
+import type { JsonRpcPayload, JsonRpcResult } from "ethers";
+import { BatchedCall, MULTICALL3_ADDRESS, MulticallBatcher } from "./multicall";
+import type { NetworkConfig } from "./networks";
+
+export interface EndpointFailure {
+  url: string;
+  method: string;
+  /** Short human-readable reason, e.g. "rate limited (HTTP 429)". */
+  reason: string;
+  at: number;
+}
+
+/** Host part of an RPC URL, for messages that should not leak API keys in paths. */
+export const endpointHost = (url: string): string => {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+};
+
+/** Thrown when every endpoint failed; `failures` lists each attempt in order. */
+export class RpcError extends Error {
+  readonly failures: EndpointFailure[];
+
+  constructor(failures: EndpointFailure[]) {
+    const last = failures[failures.length - 1];
+    super(last
+      ? `RPC unavailable: ${endpointHost(last.url)} ${last.reason}${failures.length > 1 ? ` (${failures.length} attempts failed)` : ""}.`
+      : "RPC unavailable.");
+    this.name = "RpcError";
+    this.failures = failures;
+  }
+}
+
+export interface ResilientProviderOptions {
+  /** Attempts per endpoint before moving to the next one. */
+  retries?: number;
+  /** Delay before the first retry; doubled on every further attempt. */
+  backoffMs?: number;
+  /** Per-request timeout. */
+  timeoutMs?: number;
+  /** How long `eth_call` results at "latest" are served from cache. */
+  cacheTtlMs?: number;
+  /** How long an endpoint that exhausted its retries is tried last. */
+  cooldownMs?: number;
+  /** Multicall3 used to batch concurrent reads, or false to send them one by one. */
+  multicall?: string | false;
+}
+
+// Failure of a single attempt; `retryable` decides whether the same
+// endpoint is tried again before falling through to the next.
+class AttemptError extends Error {
+  constructor(readonly reason: string, readonly retryable: boolean) {
+    super(reason);
+  }
+}
+
+const MAX_CACHE_ENTRIES = 500;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const isRateLimit = (error: { code?: number; message?: string }) =>
+  error.code === -32005 || /rate.?limit|too many requests/i.test(error.message ?? "");
+
+const isLatestCall = (method: string, params: any[]) =>
+  method === "eth_call" && (params[1] === undefined || params[1] === "latest");
+
+// Only plain reads can go through Multicall3: a `from`, value or gas limit
+// would not survive being wrapped in another call.
+const isBatchable = (method: string, params: any[]) =>
+  isLatestCall(method, params) && Object.keys(params[0] ?? {}).every(key => key === "to" || key === "data");
+
+// Calls with a `from`, value or gas are simulations of a transaction about
+// to be sent, so they always go to the node.
+const isCacheable = (method: string, params: any[]) =>
+  method === "eth_chainId" || isBatchable(method, params);
+
+/**
+ * JSON-RPC provider over an ordered list of endpoints. Each request is
+ * retried with exponential backoff on transport errors and rate limits,
+ * then falls through to the next endpoint. Identical in-flight requests
+ * share one round trip, concurrent reads are batched through Multicall3,
+ * and plain `eth_call` results are cached for a short TTL until `invalidate()`
+ * is called after a write.
+ */
+export class ResilientProvider extends JsonRpcProvider {
+  readonly urls: string[];
+  readonly #retries: number;
+  readonly #backoffMs: number;
+  readonly #timeoutMs: number;
+  readonly #cacheTtlMs: number;
+  readonly #cooldownMs: number;
+  readonly #coolingUntil = new Map<string, number>();
+  readonly #cache = new Map<string, { value: any; expires: number }>();
+  readonly #inflight = new Map<string, Promise<any>>();
+  readonly #listeners = new Set<(failure: EndpointFailure) => void>();
+  readonly #batcher: MulticallBatcher | null;
+  #lastFailure: EndpointFailure | null = null;
+
+  constructor(urls: string[], chainId: number, options: ResilientProviderOptions = {}) {
+    if (urls.length === 0) throw new Error("At least one RPC URL is required.");
+    const network = Network.from(chainId);
+    super(urls[0], network, { staticNetwork: network, batchMaxCount: 1 });
+    this.urls = urls;
+    this.#retries = options.retries ?? 2;
+    this.#backoffMs = options.backoffMs ?? 300;
+    this.#timeoutMs = options.timeoutMs ?? 10_000;
+    this.#cacheTtlMs = options.cacheTtlMs ?? 15_000;
+    this.#cooldownMs = options.cooldownMs ?? 30_000;
+    this.#batcher = options.multicall === false ? null : new MulticallBatcher(
+      call => this.#sendCall(call),
+      (call, data) => this.getRpcError(
+        { method: "eth_call", params: [call, "latest"], id: 0, jsonrpc: "2.0" },
+        { id: 0, error: { code: 3, message: "execution reverted", data } }
+      ),
+      { address: options.multicall || MULTICALL3_ADDRESS }
+    );
+  }
+
+  /** Most recent endpoint failure, including ones a fallback recovered from. */
+  get lastFailure(): EndpointFailure | null {
+    return this.#lastFailure;
+  }
+
+  /** Subscribes to endpoint failures; returns an unsubscribe function. */
+  onFailure(listener: (failure: EndpointFailure) => void): () => void {
+    this.#listeners.add(listener);
+    return () => { this.#listeners.delete(listener); };
+  }
+
+  /** Drops every cached read, e.g. once one of our own writes is mined. */
+  invalidate(): void {
+    this.#cache.clear();
+  }
+
+  async send(method: string, params: any[] | Record<string, any>): Promise<any> {
+    const list = Array.isArray(params) ? params : [params];
+    const key = `${method}:${JSON.stringify(list)}`;
+
+    const cached = this.#cache.get(key);
+    if (cached && cached.expires > Date.now()) return cached.value;
+
+    const pending = this.#inflight.get(key);
+    if (pending) return pending;
+
+    const sent = this.#batcher && isBatchable(method, list)
+      ? this.#batcher.call(list[0])
+      : super.send(method, params);
+    const request = sent.then(value => {
+      if (isCacheable(method, list)) {
+        if (this.#cache.size >= MAX_CACHE_ENTRIES) this.#cache.delete(this.#cache.keys().next().value!);
+        this.#cache.set(key, { value, expires: Date.now() + this.#cacheTtlMs });
+      }
+      return value;
+    }).finally(() => {
+      this.#inflight.delete(key);
+    });
+    this.#inflight.set(key, request);
+    return request;
+  }
+
+  #sendCall(call: BatchedCall): Promise<string> {
+    return super.send("eth_call", [call, "latest"]);
+  }
+
+  async _send(payload: JsonRpcPayload | JsonRpcPayload[]): Promise<JsonRpcResult[]> {
+    const method = Array.isArray(payload) ? payload.map(p => p.method).join(",") : payload.method;
+    const failures: EndpointFailure[] = [];
+
+    // Endpoints that recently failed keep their relative order but go last.
+    const now = Date.now();
+    const urls = [...this.urls].sort((a, b) =>
+      Number((this.#coolingUntil.get(a) ?? 0) > now) - Number((this.#coolingUntil.get(b) ?? 0) > now));
+
+    for (const url of urls) {
+      for (let attempt = 0; attempt <= this.#retries; attempt++) {
+        if (attempt > 0) await sleep(this.#backoffMs * 2 ** (attempt - 1));
+        try {
+          const results = await this.#attempt(url, payload);
+          this.#coolingUntil.delete(url);
+          return results;
+        } catch (err: any) {
+          const reason = err instanceof AttemptError ? err.reason : err.message || "request failed";
+          const failure = { url, method, reason, at: Date.now() };
+          failures.push(failure);
+          this.#report(failure);
+          if (err instanceof AttemptError && !err.retryable) break;
+        }
+      }
+      this.#coolingUntil.set(url, Date.now() + this.#cooldownMs);
+    }
+    throw new RpcError(failures);
+  }
+
+  async #attempt(url: string, payload: JsonRpcPayload | JsonRpcPayload[]): Promise<JsonRpcResult[]> {
+    const request = new FetchRequest(url);
+    request.body = JSON.stringify(payload);
+    request.setHeader("content-type", "application/json");
+    request.timeout = this.#timeoutMs;
+    // Retries are handled here, not by FetchRequest's own 429 throttling.
+    request.retryFunc = async () => false;
+
+    let response;
+    try {
+      response = await request.send();
+    } catch (err: any) {
+      const timedOut = err.code === "TIMEOUT";
+      throw new AttemptError(timedOut ? `timed out after ${this.#timeoutMs / 1000}s` : "could not be reached", true);
+    }
+
+    const status = response.statusCode;
+    if (status === 429) throw new AttemptError("rate limited (HTTP 429)", true);
+    if (status >= 500) throw new AttemptError(`server error (HTTP ${status})`, true);
+    if (status < 200 || status >= 300) throw new AttemptError(`rejected the request (HTTP ${status})`, false);
+
+    let body: any;
+    try {
+      body = response.bodyJson;
+    } catch {
+      throw new AttemptError("returned invalid JSON", true);
+    }
+    // Error responses pass through; ethers turns them into typed errors.
+    const results: any[] = Array.isArray(body) ? body : [body];
+    const limited = results.find(r => r.error && isRateLimit(r.error));
+    if (limited) throw new AttemptError(`rate limited (${limited.error.message})`, true);
+    return results;
+  }
+
+  #report(failure: EndpointFailure): void {
+    this.#lastFailure = failure;
+    this.#listeners.forEach(listener => listener(failure));
+  }
+}
+
+const sharedProviders = new Map<string, ResilientProvider>();
+
+/** One provider per network and endpoint list, shared by every client. */
+export const getSharedProvider = (network: NetworkConfig): ResilientProvider => {
+  const key = `${network.chainId}:${network.rpcUrls.join(",")}`;
+  let provider = sharedProviders.get(key);
+  if (!provider) {
+    provider = new ResilientProvider(network.rpcUrls, network.chainId);
+    sharedProviders.set(key, provider);
+  }
+  return provider;
+};
+
+/** Message naming the failing endpoint for RPC errors, `fallback` for anything else. */
+export const describeRpcError = (err: any, fallback: string): string =>
+  err instanceof RpcError ? err.message : fallback;
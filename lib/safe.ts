@@ -0,0 +1,219 @@
+import { ethers, Contract, FetchRequest, Interface } from "ethers";
+import type { Signer, TypedDataField } from "ethers";
+import type { BaseNamesClient } from "./client";
+import { MULTI_SEND_ABI, SAFE_ABI } from "./abis";
+import type { ContractCall } from "./types";
+import { sameAddress, toNodeHash } from "./utils";
+
+/** A Safe multisig and where it stands onchain. */
+export interface SafeInfo {
+  address: string;
+  owners: string[];
+  threshold: number;
+  nonce: number;
+  version: string;
+}
+
+/** The single Safe transaction a list of calls is executed as. */
+export interface SafeTransaction {
+  to: string;
+  value: bigint;
+  data: string;
+  /** 0 for a call, 1 for a delegatecall (used for MultiSend batches). */
+  operation: 0 | 1;
+}
+
+/** A proposed Safe transaction still waiting for signatures or execution. */
+export interface PendingSafeTransaction {
+  safeTxHash: string;
+  nonce: number;
+  to: string;
+  data: string;
+  confirmations: number;
+  confirmationsRequired: number;
+  submittedAt: string;
+}
+
+// MultiSendCallOnly, deployed at the same address on every chain Safe supports.
+const MULTI_SEND_CALL_ONLY: Record<string, string> = {
+  "1.3.0": "0x40A2aCCbd92BCA938b02010E17A5b8929b49130D",
+  "1.4.1": "0x9641d764fc13c8B624c04430C7356C1C7C8102e2"
+};
+
+export const SAFE_TX_TYPES: Record<string, TypedDataField[]> = {
+  SafeTx: [
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "data", type: "bytes" },
+    { name: "operation", type: "uint8" },
+    { name: "safeTxGas", type: "uint256" },
+    { name: "baseGas", type: "uint256" },
+    { name: "gasPrice", type: "uint256" },
+    { name: "gasToken", type: "address" },
+    { name: "refundReceiver", type: "address" },
+    { name: "nonce", type: "uint256" }
+  ]
+};
+
+const multiSendInterface = new Interface(MULTI_SEND_ABI);
+
+/**
+ * Reads `address` as a Safe. Null when it isn't a contract or doesn't
+ * answer like one, so any owner can be passed in.
+ */
+export const getSafeInfo = async (client: BaseNamesClient, address: string): Promise<SafeInfo | null> => {
+  if ((await client.provider.getCode(address)) === "0x") return null;
+  const safe = new Contract(address, SAFE_ABI, client.provider);
+  try {
+    const [owners, threshold, nonce, version] = await Promise.all([
+      safe.getOwners() as Promise<string[]>,
+      safe.getThreshold() as Promise<bigint>,
+      safe.nonce() as Promise<bigint>,
+      safe.VERSION() as Promise<string>
+    ]);
+    return { address: ethers.getAddress(address), owners: [...owners], threshold: Number(threshold), nonce: Number(nonce), version };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * The Safe that owns `name` in the registry when `account` is one of its
+ * signers; null when `account` owns it directly or isn't a signer.
+ */
+export const findSafeOwner = async (client: BaseNamesClient, name: string, account: string): Promise<SafeInfo | null> => {
+  const owner: string = await client.registry().owner(toNodeHash(name));
+  if (owner === ethers.ZeroAddress || sameAddress(owner, account)) return null;
+  const safe = await getSafeInfo(client, owner);
+  return safe && safe.owners.some(signer => sameAddress(signer, account)) ? safe : null;
+};
+
+/**
+ * Combines `calls` into one Safe transaction: the call itself when there
+ * is one, else a delegatecall to MultiSendCallOnly that runs them in order
+ * and reverts them all if one fails.
+ */
+export const toSafeTransaction = (safe: SafeInfo, calls: ContractCall[]): SafeTransaction => {
+  if (calls.length === 0) throw new Error("Nothing to propose.");
+  if (calls.length === 1) return { to: calls[0].to, value: calls[0].value, data: calls[0].data, operation: 0 };
+  const packed = ethers.concat(calls.map(call => ethers.solidityPacked(
+    ["uint8", "address", "uint256", "uint256", "bytes"],
+    [0, call.to, call.value, ethers.dataLength(call.data), call.data]
+  )));
+  return {
+    to: MULTI_SEND_CALL_ONLY[safe.version.startsWith("1.4") ? "1.4.1" : "1.3.0"],
+    value: 0n,
+    data: multiSendInterface.encodeFunctionData("multiSend", [packed]),
+    operation: 1
+  };
+};
+
+/**
+ * `calls` as a Safe{Wallet} Transaction Builder batch file, for Safes on
+ * chains without a transaction service or teams that review batches first.
+ */
+export const safeBatchFile = (client: BaseNamesClient, safe: SafeInfo, calls: ContractCall[], name: string): object => ({
+  version: "1.0",
+  chainId: String(client.chainId),
+  createdAt: Date.now(),
+  meta: {
+    name,
+    description: calls.map(call => call.description).join("; "),
+    txBuilderVersion: "1.16.5",
+    createdFromSafeAddress: safe.address
+  },
+  transactions: calls.map(call => ({
+    to: call.to,
+    value: call.value.toString(),
+    data: call.data,
+    contractMethod: null,
+    contractInputsValues: null
+  }))
+});
+
+/** Safe{Wallet} page listing the queued transactions of `safe`, or null where Safe has no app. */
+export const safeQueueUrl = (client: BaseNamesClient, safe: string): string | null =>
+  client.network.safe ? `https://app.safe.global/transactions/queue?safe=${client.network.safe.shortName}:${safe}` : null;
+
+/**
+ * Client for the Safe Transaction Service of the client's network: proposes
+ * Safe transactions signed by one owner and lists those still pending, so
+ * the other owners can confirm them in Safe{Wallet}.
+ */
+export class SafeTransactionService {
+  readonly url: string;
+
+  constructor(private readonly client: BaseNamesClient) {
+    if (!client.network.safe) throw new Error(`Safe has no transaction service on ${client.network.name}.`);
+    this.url = client.network.safe.txServiceUrl.replace(/\/+$/, "");
+  }
+
+  /** Pending transactions of `safe`, oldest first; pass `name` to keep those that touch it. */
+  async pending(safe: SafeInfo, name?: string): Promise<PendingSafeTransaction[]> {
+    const json = await this.#request("GET", `/api/v1/safes/${safe.address}/multisig-transactions/?executed=false&nonce__gte=${safe.nonce}&ordering=nonce`);
+    const node = name ? toNodeHash(name).slice(2).toLowerCase() : null;
+    return (json.results as any[])
+      .filter(tx => !node || (tx.data ?? "").toLowerCase().includes(node))
+      .map(tx => ({
+        safeTxHash: tx.safeTxHash,
+        nonce: Number(tx.nonce),
+        to: tx.to,
+        data: tx.data ?? "0x",
+        confirmations: tx.confirmations?.length ?? 0,
+        confirmationsRequired: tx.confirmationsRequired ?? safe.threshold,
+        submittedAt: tx.submissionDate
+      }));
+  }
+
+  /**
+   * Signs `calls` as the next Safe transaction with `signer`, one of the
+   * Safe's owners, and submits it for the others to confirm. Queued
+   * proposals are counted so this one doesn't reuse their nonce.
+   */
+  async propose(signer: Signer, safe: SafeInfo, calls: ContractCall[]): Promise<string> {
+    const sender = ethers.getAddress(await signer.getAddress());
+    if (!safe.owners.some(owner => sameAddress(owner, sender))) throw new Error("You are not a signer of this Safe.");
+
+    const queued = await this.pending(safe);
+    const nonce = queued.reduce((next, tx) => Math.max(next, tx.nonce + 1), safe.nonce);
+    const tx = toSafeTransaction(safe, calls);
+    const message = {
+      ...tx,
+      safeTxGas: 0,
+      baseGas: 0,
+      gasPrice: 0,
+      gasToken: ethers.ZeroAddress,
+      refundReceiver: ethers.ZeroAddress,
+      nonce
+    };
+    const domain = { chainId: this.client.chainId, verifyingContract: safe.address };
+    const safeTxHash = ethers.TypedDataEncoder.hash(domain, SAFE_TX_TYPES, message);
+    const signature = await signer.signTypedData(domain, SAFE_TX_TYPES, message);
+
+    await this.#request("POST", `/api/v1/safes/${safe.address}/multisig-transactions/`, {
+      ...message,
+      value: tx.value.toString(),
+      contractTransactionHash: safeTxHash,
+      sender,
+      signature,
+      origin: "Base Names"
+    });
+    return safeTxHash;
+  }
+
+  async #request(method: string, path: string, body?: unknown): Promise<any> {
+    const request = new FetchRequest(`${this.url}${path}`);
+    request.method = method;
+    if (body !== undefined) {
+      request.setHeader("content-type", "application/json");
+      request.body = ethers.toUtf8Bytes(JSON.stringify(body));
+    }
+    const response = await request.send();
+    const json = response.hasBody() ? response.bodyJson : null;
+    if (!response.ok()) {
+      const reason = json?.message ?? json?.nonFieldErrors?.[0] ?? (json ? JSON.stringify(json) : `HTTP ${response.statusCode}`);
+      throw new Error(`The Safe Transaction Service refused the request: ${reason}`);
+    }
+    return json;
+  }
+}
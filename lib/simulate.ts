@@ -0,0 +1,128 @@
+import { ethers, Contract, Interface } from "ethers";
+import type { Provider, TransactionRequest } from "ethers";
+import { CONTROLLER_ABI, GAS_PRICE_ORACLE_ABI, NAME_WRAPPER_ABI, REGISTRY_ABI } from "./abis";
+import { GAS_PRICE_ORACLE_ADDRESS } from "./config";
+import { RpcError } from "./rpc";
+import { TxPreview } from "./types";
+
+// Every custom error the contracts we write to are known to raise.
+const errors = new Interface([...CONTROLLER_ABI, ...NAME_WRAPPER_ABI, ...REGISTRY_ABI].filter(f => f.startsWith("error ")));
+
+const DAY = 24 * 60 * 60;
+
+const REVERT_MESSAGES: Record<string, (args: ethers.Result) => string> = {
+  AlreadyRegisteredWithDiscount: () => "This wallet has already registered a name with that discount.",
+  DurationTooShort: ([duration]) => `The duration is too short (${Math.round(Number(duration) / DAY)} days); the minimum is one year.`,
+  InactiveDiscount: () => "That discount is no longer active.",
+  InsufficientValue: () => "The payment doesn't cover the price. The price may have changed; try again.",
+  InvalidDiscount: () => "This wallet isn't eligible for that discount.",
+  NameNotAvailable: ([name]) => `${name} is not available.`,
+  ResolverRequiredWhenDataSupplied: () => "Records can only be set together with a resolver.",
+  TransferFailed: () => "The registrar could not refund the overpayment.",
+  Unauthorized: () => "Your wallet isn't allowed to change this name.",
+  Unauthorised: () => "Your wallet isn't allowed to change this name.",
+  IncompatibleParent: () => "The parent's fuses don't allow this.",
+  IncorrectTargetOwner: () => "That owner can't hold a name with these fuses.",
+  LabelTooLong: ([label]) => `The label ${label} is too long.`,
+  OperationProhibited: () => "A burned fuse prohibits this change."
+};
+
+const PANIC_SELECTOR = "0x4e487b71";
+const ERROR_SELECTOR = "0x08c379a0";
+
+/**
+ * Turns revert data into a sentence: `Error(string)` reasons as-is, known
+ * custom errors through a message table and anything else by signature.
+ * Returns null when there is nothing to decode.
+ */
+export const describeRevert = (data: string | null | undefined): string | null => {
+  if (!data || !ethers.isHexString(data) || data.length < 10) return null;
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+  try {
+    if (data.startsWith(ERROR_SELECTOR)) return coder.decode(["string"], ethers.dataSlice(data, 4))[0];
+    if (data.startsWith(PANIC_SELECTOR)) {
+      const [code] = coder.decode(["uint256"], ethers.dataSlice(data, 4));
+      return `The contract panicked (code 0x${code.toString(16)}).`;
+    }
+  } catch {
+    return null;
+  }
+
+  const parsed = errors.parseError(data);
+  if (!parsed) return `The contract rejected the transaction (error ${data.slice(0, 10)}).`;
+  const message = REVERT_MESSAGES[parsed.name];
+  return message ? message(parsed.args) : `The contract rejected the transaction: ${parsed.signature}.`;
+};
+
+/**
+ * Human-readable message for a failed simulation, wallet prompt or send.
+ * Wallet rejections, missing funds and reverts get their own wording;
+ * other errors fall back to their reason or message, then `fallback`.
+ */
+export const describeTxError = (err: any, fallback: string): string => {
+  if (err instanceof RpcError) return err.message;
+  if (err?.code === "ACTION_REJECTED") return "The request was rejected in your wallet.";
+  if (err?.code === "TRANSACTION_REPLACED") {
+    return err.cancelled ? "The transaction was cancelled or replaced from your wallet." : "The transaction was sped up from your wallet.";
+  }
+  if (err?.code === "INSUFFICIENT_FUNDS") return "Your wallet doesn't have enough ETH for this transaction.";
+  if (err?.code === "CALL_EXCEPTION") {
+    const decoded = describeRevert(err.data ?? err.info?.error?.data);
+    if (decoded) return decoded;
+    if (!err.reason) return "The transaction would fail. Check that your wallet owns the name and that its inputs are valid.";
+  }
+  return err?.reason || err?.shortMessage || err?.message || fallback;
+};
+
+/**
+ * Estimates the cost of `tx` on Base: the L2 execution fee at the current
+ * gas price plus the L1 data fee the gas price oracle charges for its
+ * serialized bytes.
+ */
+export const estimateFees = async (provider: Provider, tx: TransactionRequest, gasLimit: bigint): Promise<{ l2Fee: bigint; l1Fee: bigint | null }> => {
+  const [feeData, network] = await Promise.all([provider.getFeeData(), provider.getNetwork()]);
+  const gasPrice = feeData.gasPrice ?? feeData.maxFeePerGas ?? 0n;
+
+  const unsigned = ethers.Transaction.from({
+    type: 2,
+    chainId: network.chainId,
+    nonce: 0,
+    to: tx.to as string,
+    data: tx.data ?? "0x",
+    value: tx.value ?? 0n,
+    gasLimit,
+    maxFeePerGas: feeData.maxFeePerGas ?? gasPrice,
+    maxPriorityFeePerGas: feeData.maxPriorityFeePerGas ?? 0n
+  }).unsignedSerialized;
+  const oracle = new Contract(GAS_PRICE_ORACLE_ADDRESS, GAS_PRICE_ORACLE_ABI, provider);
+  const l1Fee: bigint | null = await oracle.getL1Fee(unsigned).catch(() => null);
+
+  return { l2Fee: gasLimit * gasPrice, l1Fee };
+};
+
+/**
+ * Runs `tx` as an `eth_call` and a gas estimate from its sender, throwing
+ * the decoded revert reason when either fails, and prices it.
+ */
+export const simulateTransaction = async (provider: Provider, tx: TransactionRequest, description: string): Promise<TxPreview> => {
+  let gasLimit: bigint;
+  try {
+    await provider.call(tx);
+    gasLimit = await provider.estimateGas(tx);
+  } catch (err: any) {
+    if (err instanceof RpcError) throw err;
+    throw new Error(describeTxError(err, "The transaction would fail."));
+  }
+
+  const value = BigInt(tx.value ?? 0);
+  const { l2Fee, l1Fee } = await estimateFees(provider, tx, gasLimit);
+  return {
+    description,
+    to: tx.to as string,
+    value,
+    gasLimit,
+    l2Fee,
+    l1Fee,
+    total: value + l2Fee + (l1Fee ?? 0n)
+  };
+};
@@ -0,0 +1,271 @@
+import { ethers, Contract, FetchRequest } from "ethers";
+import type { Signer } from "ethers";
+import type { BaseNamesClient } from "./client";
+import { ERC1271_ABI } from "./abis";
+import type { Identity } from "./types";
+
+/** Fields of an EIP-4361 Sign-In with Ethereum message. */
+export interface SiweMessage {
+  /** RFC 3986 authority requesting the sign-in, e.g. "app.example.com". */
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: "1";
+  chainId: number;
+  nonce: string;
+  /** ISO 8601 timestamps. */
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources?: string[];
+}
+
+/** Identity proven by a verified sign-in. */
+export interface SiweSession {
+  address: string;
+  chainId: number;
+  domain: string;
+  /** Reverse-resolved primary name and avatar of `address` at sign-in. */
+  identity: Identity | null;
+  issuedAt: string;
+  expirationTime?: string;
+}
+
+export interface SiweVerifyOptions {
+  /** Domain the message must be for. */
+  domain: string;
+  /** Nonce the verifier issued; checked when set. */
+  nonce?: string;
+  /** Time to check validity at; defaults to now. */
+  time?: Date;
+}
+
+// `isValidSignature` returns its own selector when a contract accepts the signature.
+const ERC1271_MAGIC_VALUE = "0x1626ba7e";
+// Tolerated clock difference between the signer and the verifier.
+const CLOCK_SKEW_MS = 60_000;
+
+const PREAMBLE = " wants you to sign in with your Ethereum account:";
+
+/** Random alphanumeric nonce, longer than the 8 characters EIP-4361 requires. */
+export const generateNonce = (): string => ethers.hexlify(ethers.randomBytes(12)).slice(2);
+
+/** Serializes `message` in the EIP-4361 format wallets display and sign. */
+export const formatSiweMessage = (message: SiweMessage): string => {
+  const lines = [
+    `${message.domain}${PREAMBLE}`,
+    ethers.getAddress(message.address),
+    "",
+    ...(message.statement ? [message.statement] : []),
+    "",
+    `URI: ${message.uri}`,
+    `Version: ${message.version}`,
+    `Chain ID: ${message.chainId}`,
+    `Nonce: ${message.nonce}`,
+    `Issued At: ${message.issuedAt}`
+  ];
+  if (message.expirationTime) lines.push(`Expiration Time: ${message.expirationTime}`);
+  if (message.notBefore) lines.push(`Not Before: ${message.notBefore}`);
+  if (message.requestId !== undefined) lines.push(`Request ID: ${message.requestId}`);
+  if (message.resources?.length) lines.push("Resources:", ...message.resources.map(resource => `- ${resource}`));
+  return lines.join("\n");
+};
+
+/** Parses an EIP-4361 message; throws when it doesn't follow the format. */
+export const parseSiweMessage = (text: string): SiweMessage => {
+  const lines = text.split("\n");
+  if (!lines[0]?.endsWith(PREAMBLE)) throw new Error("Not a Sign-In with Ethereum message.");
+  const domain = lines[0].slice(0, -PREAMBLE.length);
+  const address = lines[1] ?? "";
+  if (!ethers.isAddress(address) || ethers.getAddress(address) !== address) {
+    throw new Error("The sign-in message needs a checksummed address.");
+  }
+  if (lines[2] !== "") throw new Error("Malformed sign-in message.");
+
+  let index = 3;
+  let statement: string | undefined;
+  if (lines[index] !== "") {
+    statement = lines[index++];
+    if (lines[index] !== "") throw new Error("Malformed sign-in message.");
+  }
+  index++;
+
+  const fields = new Map<string, string>();
+  let resources: string[] | undefined;
+  for (; index < lines.length; index++) {
+    const line = lines[index];
+    if (line === "Resources:") {
+      resources = lines.slice(index + 1).map(resource => {
+        if (!resource.startsWith("- ")) throw new Error("Malformed sign-in resources.");
+        return resource.slice(2);
+      });
+      break;
+    }
+    const separator = line.indexOf(": ");
+    if (separator < 0) throw new Error(`Malformed sign-in field "${line}".`);
+    fields.set(line.slice(0, separator), line.slice(separator + 2));
+  }
+
+  const required = (field: string): string => {
+    const value = fields.get(field);
+    if (value === undefined) throw new Error(`The sign-in message has no ${field}.`);
+    return value;
+  };
+  if (required("Version") !== "1") throw new Error("Unsupported sign-in message version.");
+  const chainId = Number(required("Chain ID"));
+  if (!Number.isSafeInteger(chainId) || chainId <= 0) throw new Error("Invalid chain ID in the sign-in message.");
+  const nonce = required("Nonce");
+  if (!/^[a-zA-Z0-9]{8,}$/.test(nonce)) throw new Error("Invalid nonce in the sign-in message.");
+
+  return {
+    domain,
+    address,
+    statement,
+    uri: required("URI"),
+    version: "1",
+    chainId,
+    nonce,
+    issuedAt: required("Issued At"),
+    expirationTime: fields.get("Expiration Time"),
+    notBefore: fields.get("Not Before"),
+    requestId: fields.get("Request ID"),
+    resources
+  };
+};
+
+/**
+ * Whether `signature` over the EIP-191 `message` is `address`'s: an ECDSA
+ * signature of the key, or one the account contract accepts through
+ * EIP-1271.
+ */
+export const verifyAccountSignature = async (client: BaseNamesClient, address: string, message: string, signature: string): Promise<boolean> => {
+  try {
+    if (ethers.getAddress(ethers.verifyMessage(message, signature)) === ethers.getAddress(address)) return true;
+  } catch {
+    // Not an ECDSA signature; contract accounts may use any format.
+  }
+  if ((await client.provider.getCode(address)) === "0x") return false;
+  const account = new Contract(address, ERC1271_ABI, client.provider);
+  try {
+    return (await account.isValidSignature(ethers.hashMessage(message), signature)) === ERC1271_MAGIC_VALUE;
+  } catch {
+    return false;
+  }
+};
+
+const parseTime = (value: string, field: string): number => {
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) throw new Error(`Invalid ${field} in the sign-in message.`);
+  return time;
+};
+
+/**
+ * Checks a signed sign-in message for the client's chain and returns the
+ * session it proves, with the signer's primary name looked up fresh.
+ * Throws when the message is malformed, expired, for another domain,
+ * chain or nonce, or not signed by its address.
+ */
+export const verifySiweMessage = async (client: BaseNamesClient, text: string, signature: string, options: SiweVerifyOptions): Promise<SiweSession> => {
+  const message = parseSiweMessage(text);
+  if (message.domain !== options.domain) {
+    throw new Error(`The sign-in message is for ${message.domain}, not ${options.domain}.`);
+  }
+  if (options.nonce !== undefined && message.nonce !== options.nonce) throw new Error("The sign-in nonce doesn't match.");
+  if (message.chainId !== client.chainId) throw new Error(`The sign-in message is for chain ${message.chainId}, not ${client.chainId}.`);
+
+  const now = (options.time ?? new Date()).getTime();
+  if (parseTime(message.issuedAt, "Issued At") > now + CLOCK_SKEW_MS) throw new Error("The sign-in message was issued in the future.");
+  if (message.expirationTime && parseTime(message.expirationTime, "Expiration Time") <= now) throw new Error("The sign-in message has expired.");
+  if (message.notBefore && parseTime(message.notBefore, "Not Before") > now + CLOCK_SKEW_MS) throw new Error("The sign-in message is not valid yet.");
+
+  if (!(await verifyAccountSignature(client, message.address, text, signature))) {
+    throw new Error("The signature doesn't match the sign-in address.");
+  }
+
+  // The statement only names what the wallet showed; the session's name is
+  // whatever the address reverse-resolves to now.
+  const identity = await client.reverseLookup(message.address).catch(() => null);
+  return {
+    address: message.address,
+    chainId: message.chainId,
+    domain: message.domain,
+    identity,
+    issuedAt: message.issuedAt,
+    expirationTime: message.expirationTime
+  };
+};
+
+export interface SiweSignInOptions {
+  domain: string;
+  uri: string;
+  nonce: string;
+  /** How long the sign-in stays valid; 24 hours by default. */
+  expiresInSeconds?: number;
+}
+
+/**
+ * Builds a sign-in message for `signer` on the client's chain, naming its
+ * primary name when it has a verified one, and signs it.
+ */
+export const signInWithEthereum = async (client: BaseNamesClient, signer: Signer, options: SiweSignInOptions): Promise<{ message: string; signature: string }> => {
+  const address = ethers.getAddress(await signer.getAddress());
+  const identity = await client.reverseLookup(address).catch(() => null);
+  const issuedAt = new Date();
+  const message = formatSiweMessage({
+    domain: options.domain,
+    address,
+    statement: identity?.verified ? `Sign in as ${identity.name}.` : "Sign in with your Ethereum account.",
+    uri: options.uri,
+    version: "1",
+    chainId: client.chainId,
+    nonce: options.nonce,
+    issuedAt: issuedAt.toISOString(),
+    expirationTime: new Date(issuedAt.getTime() + (options.expiresInSeconds ?? 24 * 60 * 60) * 1000).toISOString()
+  });
+  return { message, signature: await signer.signMessage(message) };
+};
+
+/**
+ * HTTP client for a sign-in server (see `auth/server.ts`): it hands out
+ * nonces, verifies signed messages and keeps sessions behind bearer tokens.
+ */
+export class AuthServer {
+  readonly url: string;
+
+  constructor(url: string, private readonly client: BaseNamesClient) {
+    this.url = url.replace(/\/+$/, "");
+  }
+
+  /** Signs in `signer` for `domain`/`uri` and returns the session with its token. */
+  async signIn(signer: Signer, domain: string, uri: string): Promise<{ token: string; session: SiweSession }> {
+    const { nonce } = await this.#request("GET", "/nonce");
+    const { message, signature } = await signInWithEthereum(this.client, signer, { domain, uri, nonce });
+    return this.#request("POST", "/verify", { message, signature });
+  }
+
+  /** The session behind `token`, or null once it has expired or signed out. */
+  async session(token: string): Promise<SiweSession | null> {
+    return this.#request("GET", "/session", undefined, token, true);
+  }
+
+  async signOut(token: string): Promise<void> {
+    await this.#request("POST", "/logout", undefined, token);
+  }
+
+  async #request(method: string, path: string, body?: unknown, token?: string, allowMissing = false): Promise<any> {
+    const request = new FetchRequest(`${this.url}${path}`);
+    request.method = method;
+    if (token) request.setHeader("authorization", `Bearer ${token}`);
+    if (body !== undefined) {
+      request.setHeader("content-type", "application/json");
+      request.body = ethers.toUtf8Bytes(JSON.stringify(body));
+    }
+    const response = await request.send();
+    if (allowMissing && response.statusCode === 401) return null;
+    const json = response.hasBody() ? response.bodyJson : null;
+    if (!response.ok()) throw new Error(json?.error ?? `Sign-in server error (HTTP ${response.statusCode}).`);
+    return json;
+  }
+}
@@ -0,0 +1,38 @@
+/** Minimal synchronous key/value store so persistence works outside the browser too. */
+export interface KeyValueStore {
+  get(key: string): string | null;
+  set(key: string, value: string): void;
+  remove(key: string): void;
+}
+
+export const createMemoryStore = (): KeyValueStore => {
+  const data = new Map<string, string>();
+  return {
+    get: key => data.get(key) ?? null,
+    set: (key, value) => { data.set(key, value); },
+    remove: key => { data.delete(key); }
+  };
+};
+
+/** localStorage when available, otherwise an in-memory store. */
+export const browserStore: KeyValueStore = typeof localStorage !== "undefined"
+  ? {
+      get: key => localStorage.getItem(key),
+      set: (key, value) => localStorage.setItem(key, value),
+      remove: key => localStorage.removeItem(key)
+    }
+  : createMemoryStore();
+
+export const readJson = <T>(store: KeyValueStore, key: string, fallback: T): T => {
+  const raw = store.get(key);
+  if (!raw) return fallback;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return fallback;
+  }
+};
+
+export const writeJson = (store: KeyValueStore, key: string, value: unknown): void => {
+  store.set(key, JSON.stringify(value));
+};
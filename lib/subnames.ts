@@ -0,0 +1,76 @@
+import { ethers } from "ethers";
+import type { BaseNamesClient } from "./client";
+import { formatLabel } from "./labels";
+import type { ScanPageOptions } from "./portfolio";
+import { KeyValueStore, browserStore, readJson, writeJson } from "./storage";
+import { toNodeHash } from "./utils";
+
+/** Progress of a `NewOwner` log scan for the children of one parent node. */
+export interface SubnameScan {
+  parentNode: string;
+  nextBlock: number;
+  labelHashes: string[];
+}
+
+export interface SubnameEntry {
+  node: string;
+  labelHash: string;
+  name: string;
+  owner: string;
+  resolver: string;
+}
+
+const DEFAULT_CHUNK_SIZE = 10_000;
+
+const scanKey = (chainId: number, parentNode: string) => `basenames:subnames:${chainId}:${parentNode}`;
+
+export const loadSubnameScan = (client: BaseNamesClient, parent: string, store: KeyValueStore = browserStore): SubnameScan => {
+  const parentNode = toNodeHash(parent);
+  return readJson<SubnameScan>(store, scanKey(client.chainId, parentNode), {
+    parentNode,
+    nextBlock: client.startBlock,
+    labelHashes: []
+  });
+};
+
+export const saveSubnameScan = (client: BaseNamesClient, scan: SubnameScan, store: KeyValueStore = browserStore): void =>
+  writeJson(store, scanKey(client.chainId, scan.parentNode), scan);
+
+export const clearSubnameScan = (client: BaseNamesClient, parent: string, store: KeyValueStore = browserStore): void =>
+  store.remove(scanKey(client.chainId, toNodeHash(parent)));
+
+/** Scans one chunk of `NewOwner(parentNode, *)` logs starting at `scan.nextBlock`. */
+export const scanSubnamesPage = async (client: BaseNamesClient, scan: SubnameScan, options: ScanPageOptions): Promise<SubnameScan> => {
+  const fromBlock = scan.nextBlock;
+  const endBlock = Math.min(options.toBlock, fromBlock + (options.chunkSize ?? DEFAULT_CHUNK_SIZE) - 1);
+  if (fromBlock > endBlock) return scan;
+
+  const registry = client.registry();
+  const logs = await client.provider.getLogs({
+    address: client.addresses.registry,
+    topics: [registry.interface.getEvent("NewOwner")!.topicHash, scan.parentNode],
+    fromBlock,
+    toBlock: endBlock
+  });
+
+  const labelHashes = new Set(scan.labelHashes);
+  logs.forEach(log => labelHashes.add(log.topics[2]));
+  return { ...scan, nextBlock: endBlock + 1, labelHashes: [...labelHashes] };
+};
+
+/**
+ * Current owner and resolver of every subname found by a scan. Revoked
+ * subnames (owner zero) are kept so they can be reissued.
+ */
+export const listSubnames = async (client: BaseNamesClient, parent: string, scan: SubnameScan, labels: Record<string, string>): Promise<SubnameEntry[]> => {
+  const registry = client.registry();
+  const entries = await Promise.all(scan.labelHashes.map(async labelHash => {
+    const node = ethers.keccak256(ethers.concat([scan.parentNode, labelHash]));
+    const [owner, resolver] = await Promise.all([
+      registry.owner(node).catch(() => ethers.ZeroAddress),
+      registry.resolver(node).catch(() => ethers.ZeroAddress)
+    ]);
+    return { node, labelHash, name: `${formatLabel(labelHash, labels)}.${parent}`, owner, resolver };
+  }));
+  return entries.sort((a, b) => a.name.localeCompare(b.name));
+};
@@ -0,0 +1,92 @@
+import type { CoinAddress } from "./coins";
+import type { DecodedContenthash } from "./contenthash";
+
+// --- Types ---
+export interface ProfileData {
+  owner: string;
+  resolver: string;
+  avatar?: string;
+  twitter?: string;
+  url?: string;
+  /** Every `TEXT_RECORD_KEYS` record; unset keys are empty strings. */
+  texts?: Record<string, string>;
+  /** Forward-resolved address; null when the name has no address record. */
+  address?: string | null;
+  coinAddresses?: CoinAddress[];
+  contenthash?: DecodedContenthash | null;
+  isMine: boolean;
+}
+
+export interface NameLookup {
+  name: string;
+  available: boolean;
+  data?: ProfileData;
+}
+
+/** An encoded contract call, for owners that execute writes elsewhere such as a Safe. */
+export interface ContractCall {
+  to: string;
+  value: bigint;
+  data: string;
+  description: string;
+}
+
+export interface Identity {
+  name: string;
+  avatar: string;
+  /** Whether `name` forward-resolves back to the looked-up address. */
+  verified: boolean;
+}
+
+export interface RegistrationPrice {
+  base: bigint;
+  premium: bigint;
+  total: bigint;
+}
+
+export interface RegistrationDiscount {
+  key: string;
+  /** Price for the requested duration with this discount applied. */
+  price: bigint;
+}
+
+export interface RegistrationOptions {
+  durationSeconds: number;
+  /** Defaults to the signer. */
+  owner?: string;
+  /** Point the name at the default resolver and set its address record to the owner. */
+  setResolver?: boolean;
+  /** Also make the name the owner's primary name. Requires `setResolver`. */
+  reverseRecord?: boolean;
+}
+
+export interface WrappedState {
+  owner: string;
+  fuses: number;
+  /** Unix seconds; fuses other than PARENT_CANNOT_CONTROL reset after this. */
+  expiry: number;
+}
+
+export interface WrappedSubnameOptions {
+  /** Fuse bits to burn on the new subname. See `FUSES`. */
+  fuses?: number;
+  /** Unix seconds; capped at the parent's expiry by the NameWrapper. */
+  expiry?: number;
+  resolver?: string;
+}
+
+/** A write that was simulated successfully, with its estimated cost. */
+export interface TxPreview {
+  /** What the transaction does, e.g. "Register alice.base.eth". */
+  description: string;
+  to: string;
+  /** ETH sent along with the call, e.g. a registration payment. */
+  value: bigint;
+  gasLimit: bigint;
+  /** L2 execution fee at the current gas price. */
+  l2Fee: bigint;
+  /** L1 data fee quoted by the gas price oracle; null when it could not be read. */
+  l1Fee: bigint | null;
+  /** `value` plus both fees. */
+  total: bigint;
+}
@@ -0,0 +1,25 @@
+import { ethers } from "ethers";
+import { BASE_REVERSE_NAMESPACE } from "./config";
+import { normalizeName } from "./normalize";
+
+export const toNodeHash = (name: string): string => {
+  if (!name) return ethers.ZeroHash;
+  return ethers.namehash(normalizeName(name));
+};
+
+/** Node of `address`'s reverse record in an ENSIP-19 namespace, Base Mainnet's by default. */
+export const toReverseNode = (address: string, namespace: string = BASE_REVERSE_NAMESPACE): string =>
+  ethers.namehash(`${address.slice(2).toLowerCase()}.${namespace}`);
+
+export const sameAddress = (a?: string | null, b?: string | null): boolean => {
+  if (!a || !b) return false;
+  return a.toLowerCase() === b.toLowerCase();
+};
+
+/** The label of a name directly under `rootName` (`.base.eth` by default), or null for anything else. */
+export const baseLabelOf = (name: string, rootName = "base.eth"): string | null => {
+  const suffix = `.${rootName}`;
+  if (!name.endsWith(suffix)) return null;
+  const label = name.slice(0, -suffix.length);
+  return label && !label.includes(".") ? label : null;
+};
@@ -0,0 +1,113 @@
+import { chainIdHex } from "./networks";
+import type { NetworkConfig } from "./networks";
+import { KeyValueStore } from "./storage";
+
+/** The subset of EIP-1193 the app relies on. */
+export interface Eip1193Provider {
+  request(args: { method: string; params?: unknown[] | Record<string, unknown> }): Promise<any>;
+  on?(event: string, listener: (...args: any[]) => void): void;
+  removeListener?(event: string, listener: (...args: any[]) => void): void;
+}
+
+export interface WalletConnector {
+  /** Reverse-DNS id announced by the wallet, or "injected" for `window.ethereum`. */
+  id: string;
+  name: string;
+  /** Data URI of the wallet's icon; empty for the legacy injected provider. */
+  icon: string;
+  provider: Eip1193Provider;
+}
+
+export const INJECTED_WALLET_ID = "injected";
+
+const WALLET_KEY = "basenames:wallet";
+
+interface AnnounceProviderEvent extends Event {
+  detail: {
+    info: { uuid: string; name: string; icon: string; rdns: string };
+    provider: Eip1193Provider;
+  };
+}
+
+/**
+ * Discovers injected wallets through EIP-6963 and calls `onChange` with the
+ * full list whenever a new one announces itself. `window.ethereum` is added
+ * as a generic "Browser Wallet" unless an announced wallet already owns it.
+ * Returns a function that stops listening.
+ */
+export const discoverWallets = (onChange: (wallets: WalletConnector[]) => void): (() => void) => {
+  if (typeof window === "undefined") {
+    onChange([]);
+    return () => {};
+  }
+
+  const announced = new Map<string, WalletConnector>();
+
+  const publish = () => {
+    const wallets = [...announced.values()];
+    const legacy: Eip1193Provider | undefined = (window as any).ethereum;
+    if (legacy && !wallets.some(wallet => wallet.provider === legacy)) {
+      wallets.push({ id: INJECTED_WALLET_ID, name: "Browser Wallet", icon: "", provider: legacy });
+    }
+    onChange(wallets);
+  };
+
+  const handleAnnounce = (event: Event) => {
+    const { info, provider } = (event as AnnounceProviderEvent).detail ?? {};
+    if (!info?.rdns || !provider) return;
+    announced.set(info.rdns, { id: info.rdns, name: info.name, icon: info.icon, provider });
+    publish();
+  };
+
+  window.addEventListener("eip6963:announceProvider", handleAnnounce);
+  window.dispatchEvent(new Event("eip6963:requestProvider"));
+  publish();
+  return () => window.removeEventListener("eip6963:announceProvider", handleAnnounce);
+};
+
+export const loadWalletChoice = (store: KeyValueStore): string | null => store.get(WALLET_KEY);
+
+export const saveWalletChoice = (store: KeyValueStore, id: string | null): void => {
+  if (id) store.set(WALLET_KEY, id);
+  else store.remove(WALLET_KEY);
+};
+
+/** Prompts the wallet for access and returns the first account. */
+export const requestAccount = async (provider: Eip1193Provider): Promise<string | null> => {
+  const accounts: string[] = await provider.request({ method: "eth_requestAccounts" });
+  return accounts[0] ?? null;
+};
+
+/**
+ * Drops the site's account permission where the wallet supports it
+ * (`wallet_revokePermissions`); other wallets simply stay authorised.
+ */
+export const revokeAccess = async (provider: Eip1193Provider): Promise<void> => {
+  try {
+    await provider.request({ method: "wallet_revokePermissions", params: [{ eth_accounts: {} }] });
+  } catch {
+    // Not supported; forgetting the choice locally is all we can do.
+  }
+};
+
+/** Asks the wallet to switch to `network`, adding the chain first if it does not know it. */
+export const requestNetwork = async (provider: Eip1193Provider, network: NetworkConfig): Promise<void> => {
+  try {
+    await provider.request({
+      method: "wallet_switchEthereumChain",
+      params: [{ chainId: chainIdHex(network.chainId) }]
+    });
+  } catch (e: any) {
+    if (e.code !== 4902) throw e;
+    await provider.request({
+      method: "wallet_addEthereumChain",
+      params: [{
+        chainId: chainIdHex(network.chainId),
+        chainName: network.name,
+        nativeCurrency: { name: "ETH", symbol: "ETH", decimals: 18 },
+        rpcUrls: network.rpcUrls,
+        blockExplorerUrls: network.explorer ? [network.explorer] : undefined
+      }]
+    });
+  }
+};
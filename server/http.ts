@@ -0,0 +1,48 @@
+import { createServer } from "node:http";
+import type { IncomingMessage, Server, ServerResponse } from "node:http";
+
+/** Rejected request; `status` is the HTTP status sent back. */
+export class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+/** Parses the JSON body of `req`; an empty body is `{}`. */
+export const readBody = async (req: IncomingMessage): Promise<any> => {
+  let body = "";
+  for await (const chunk of req) body += chunk;
+  try {
+    return body ? JSON.parse(body) : {};
+  } catch {
+    throw new HttpError(400, "The request body is not valid JSON.");
+  }
+};
+
+/** Sends `body` as JSON with CORS headers allowing `allowHeaders` from any origin. */
+export const send = (res: ServerResponse, status: number, body: unknown, allowHeaders = "content-type"): void => {
+  res.writeHead(status, {
+    "content-type": "application/json",
+    "access-control-allow-origin": "*",
+    "access-control-allow-methods": "GET, POST, OPTIONS",
+    "access-control-allow-headers": allowHeaders
+  });
+  res.end(status === 204 ? undefined : JSON.stringify(body));
+};
+
+/**
+ * JSON API server around `route`, which returns the status and body of a
+ * response. An `HttpError` it throws is sent back with its status; any
+ * other error is logged and answered with 500.
+ */
+export const createJsonServer = (route: (req: IncomingMessage) => Promise<[number, unknown]>, allowHeaders?: string): Server =>
+  createServer(async (req, res) => {
+    if (req.method === "OPTIONS") return send(res, 204, null, allowHeaders);
+    try {
+      const [status, body] = await route(req);
+      send(res, status, body, allowHeaders);
+    } catch (err: any) {
+      if (!(err instanceof HttpError)) console.error(err);
+      send(res, err instanceof HttpError ? err.status : 500, { error: err instanceof HttpError ? err.message : "Internal error." }, allowHeaders);
+    }
+  });
@@ -0,0 +1,85 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { ethers, Wallet } from "ethers";
+import { ActivityTracker, BaseNamesClient, createMemoryStore } from "../lib";
+import { MockProvider } from "./mockChain";
+
+const alice = new Wallet("0x" + "11".repeat(32));
+const bob = new Wallet("0x" + "22".repeat(32));
+
+describe("ActivityTracker", () => {
+  let provider: MockProvider;
+  let tracker: ActivityTracker;
+  let signer: Wallet;
+
+  beforeEach(() => {
+    provider = new MockProvider();
+    provider.autoMine = false;
+    signer = alice.connect(provider);
+    tracker = new ActivityTracker(new BaseNamesClient({ provider }), alice.address, createMemoryStore());
+  });
+
+  const send = (overrides: ethers.TransactionRequest = {}) =>
+    signer.sendTransaction({ to: bob.address, data: "0x1234", maxFeePerGas: 2_000_000_000n, maxPriorityFeePerGas: 1_000_000n, ...overrides });
+
+  const blockFetches = () => provider.methods.filter(method => method === "eth_getBlockByNumber").length;
+
+  it("confirms a mined transaction and counts confirmations", async () => {
+    const tx = await send();
+    await tracker.add(tx, "Send");
+    await provider.mine();
+    provider.blockNumber += 4;
+    await tracker.refresh();
+    expect(tracker.entries[0]).toMatchObject({ hash: tx.hash, status: "confirmed", confirmations: 5 });
+  });
+
+  it("fetches no blocks while the nonce is still free", async () => {
+    await tracker.add(await send(), "Send");
+    provider.blockNumber += 150;
+    await tracker.refresh();
+    await tracker.refresh();
+    expect(tracker.entries[0].status).toBe("pending");
+    expect(blockFetches()).toBe(0);
+  });
+
+  it("follows a sped-up copy to its one block", async () => {
+    const tx = await send();
+    await tracker.add(tx, "Send");
+    provider.blockNumber += 60;
+    const faster = await send({ nonce: tx.nonce, maxFeePerGas: 3_000_000_000n });
+    await provider.mine();
+    provider.blockNumber += 60;
+
+    await tracker.refresh();
+    expect(blockFetches()).toBe(1);
+    expect(tracker.entries.map(({ hash, status, replacedBy }) => ({ hash, status, replacedBy }))).toEqual([
+      { hash: faster.hash, status: "pending", replacedBy: undefined },
+      { hash: tx.hash, status: "replaced", replacedBy: faster.hash }
+    ]);
+
+    await tracker.refresh();
+    expect(tracker.entries[0]).toMatchObject({ hash: faster.hash, status: "confirmed" });
+  });
+
+  it("finds a replacement mined long before the next refresh", async () => {
+    const tx = await send();
+    await tracker.add(tx, "Send");
+    const faster = await send({ nonce: tx.nonce, maxFeePerGas: 3_000_000_000n });
+    await provider.mine();
+    provider.blockNumber += 5_000;
+
+    await tracker.refresh();
+    expect(blockFetches()).toBe(1);
+    expect(tracker.entries.find(entry => entry.hash === tx.hash)).toMatchObject({ status: "replaced", replacedBy: faster.hash });
+  });
+
+  it("reports a different call with the same nonce as a cancel", async () => {
+    const tx = await send();
+    await tracker.add(tx, "Send");
+    const cancel = await send({ nonce: tx.nonce, to: alice.address, data: "0x", maxFeePerGas: 3_000_000_000n });
+    await provider.mine();
+
+    await tracker.refresh();
+    expect(tracker.entries).toHaveLength(1);
+    expect(tracker.entries[0]).toMatchObject({ status: "cancelled", replacedBy: cancel.hash });
+  });
+});
@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { ethers, Interface, Wallet } from "ethers";
+import {
+  BaseNamesClient,
+  DEFAULT_ADDRESSES,
+  ETH_COIN_TYPE,
+  REGISTRY_ABI,
+  createMemoryStore,
+  diffRecordSet,
+  evmCoinType,
+  exportRecordSet,
+  loadRecordKeyScan,
+  parseRecordSet,
+  recordSetUpdate
+} from "../lib";
+import type { EnsState } from "./mockChain";
+import { MockProvider, issueName, mockEns } from "./mockChain";
+
+const alice = new Wallet("0x" + "11".repeat(32));
+const bob = new Wallet("0x" + "22".repeat(32));
+const registry = new Interface(REGISTRY_ABI);
+// A P2PKH output script (ENSIP-9 encoding of a legacy BTC address) and a Solana public key.
+const BTC = 0;
+const SOL = 501;
+const btcScript = "0x76a91462e907b15cbf27d5425399ebf6f0fb50ebb88f1888ac";
+const solKey = "0x" + "5a".repeat(32);
+
+describe("record backups", () => {
+  let provider: MockProvider;
+  let ens: EnsState;
+  let client: BaseNamesClient;
+  let node: string;
+
+  beforeEach(() => {
+    provider = new MockProvider();
+    ens = mockEns(provider);
+    client = new BaseNamesClient({ provider });
+    node = issueName(ens, "alice.base.eth", alice.address, alice.address);
+  });
+
+  const exportAlice = async () => {
+    const scan = { ...loadRecordKeyScan(client, "alice.base.eth", DEFAULT_ADDRESSES.resolver, createMemoryStore()), coinTypes: [BTC, SOL] };
+    return exportRecordSet(client, "alice.base.eth", (await client.getResolver("alice.base.eth"))!, scan);
+  };
+
+  it("exports non-EVM address records as their raw bytes", async () => {
+    ens.addrs.set(`${node}:${BTC}`, btcScript);
+    ens.addrs.set(`${node}:${SOL}`, solKey);
+    ens.addrs.set(`${node}:${evmCoinType(8453)}`, bob.address.toLowerCase());
+
+    const exported = await exportAlice();
+    expect(exported.addresses).toEqual([
+      { coinType: ETH_COIN_TYPE, address: alice.address },
+      { coinType: evmCoinType(8453), address: bob.address },
+      { coinType: BTC, address: btcScript },
+      { coinType: SOL, address: solKey }
+    ]);
+    expect(parseRecordSet(JSON.stringify(exported)).addresses).toEqual(exported.addresses);
+  });
+
+  it("rejects address records that don't fit their coin type", () => {
+    const file = (address: string, coinType: number) => JSON.stringify({ version: 1, name: "alice.base.eth", addresses: [{ coinType, address }] });
+    expect(() => parseRecordSet(file("bc1qxy2kgdygjrsqtzq2n0yrf2493p83kkfjhx0wlh", BTC))).toThrow("Invalid Coin 0 record: expected hex bytes");
+    expect(() => parseRecordSet(file("0x1234", ETH_COIN_TYPE))).toThrow("Invalid address: 0x1234");
+    expect(parseRecordSet(file("", BTC)).addresses).toEqual([{ coinType: BTC, address: "" }]);
+  });
+
+  it("writes raw address records back on import", async () => {
+    ens.addrs.set(`${node}:${BTC}`, btcScript);
+    const exported = await exportAlice();
+    ens.addrs.delete(`${node}:${BTC}`);
+
+    const diff = await diffRecordSet(client, "alice.base.eth", parseRecordSet(JSON.stringify(exported)), DEFAULT_ADDRESSES.resolver);
+    expect(diff.addresses).toEqual([{ coinType: BTC, from: "", to: btcScript }]);
+    const tx = await client.withSigner(alice.connect(provider)).setRecords("alice.base.eth", recordSetUpdate(diff));
+    await tx.wait();
+    expect(ens.addrs.get(`${node}:${BTC}`)).toBe(btcScript);
+    expect((await diffRecordSet(client, "alice.base.eth", exported, DEFAULT_ADDRESSES.resolver)).addresses).toEqual([]);
+  });
+
+  it("switches the resolver in the registry", async () => {
+    const target = "0x" + "ee".repeat(20);
+    expect(client.resolverCall("alice.base.eth", target)).toEqual({
+      to: DEFAULT_ADDRESSES.registry,
+      value: 0n,
+      data: registry.encodeFunctionData("setResolver", [node, ethers.getAddress(target)]),
+      description: "Switch the resolver of alice.base.eth"
+    });
+    await expect(client.withSigner(bob.connect(provider)).setResolver("alice.base.eth", target)).rejects.toThrow("You don't own alice.base.eth.");
+    const tx = await client.withSigner(alice.connect(provider)).setResolver("alice.base.eth", target);
+    await tx.wait();
+    expect(ens.resolvers.get(node)).toBe(ethers.getAddress(target));
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it, beforeEach } from "vitest";
+import { ethers, Wallet } from "ethers";
+import { BaseNamesClient, DEFAULT_ADDRESSES, runBulkIssuance, validateBulkRows } from "../lib";
+import type { BulkRow } from "../lib";
+import type { EnsState } from "./mockChain";
+import { MockProvider, issueName, mockEns } from "./mockChain";
+
+const alice = new Wallet("0x" + "11".repeat(32));
+const bob = new Wallet("0x" + "22".repeat(32)).address;
+const carol = new Wallet("0x" + "33".repeat(32)).address;
+
+const row = (line: number, label: string, owner: string, extra: Partial<BulkRow> = {}): BulkRow =>
+  ({ line, label, owner, texts: {}, errors: [], warnings: [], status: "pending", ...extra });
+
+describe("runBulkIssuance", () => {
+  let provider: MockProvider;
+  let ens: EnsState;
+  let client: BaseNamesClient;
+
+  beforeEach(() => {
+    provider = new MockProvider();
+    provider.pollingInterval = 10;
+    ens = mockEns(provider);
+    issueName(ens, "drop.base.eth", alice.address);
+    client = new BaseNamesClient({ provider }).withSigner(alice.connect(provider));
+  });
+
+  it("issues rows and records the step of each transaction", async () => {
+    const rows = await runBulkIssuance(client, "drop.base.eth", [
+      row(1, "a", bob),
+      row(2, "b", carol, { address: carol, texts: { description: "hi" } })
+    ]);
+
+    expect(rows.map(r => [r.status, r.step])).toEqual([["done", "issue"], ["done", "transfer"]]);
+    expect(provider.sent).toHaveLength(4);
+    expect(ens.owners.get(ethers.namehash("b.drop.base.eth"))).toBe(carol);
+    expect(ens.texts.get(`${ethers.namehash("b.drop.base.eth")}:description`)).toBe("hi");
+  });
+
+  it("resumes a row after its last mined step instead of issuing it again", async () => {
+    let writes = 0;
+    const interrupted = new BaseNamesClient({ provider }).withSigner(alice.connect(provider), { confirm: async () => ++writes === 1 });
+    const [failed] = await runBulkIssuance(interrupted, "drop.base.eth", [row(1, "b", carol, { address: carol })]);
+    expect(failed).toMatchObject({ status: "failed", step: "create", error: "Transaction cancelled." });
+    expect(ens.owners.get(ethers.namehash("b.drop.base.eth"))).toBe(alice.address);
+
+    // Revalidation must not flag the subname the run holds as taken.
+    const [revalidated] = await validateBulkRows(client, "drop.base.eth", [failed]);
+    expect(revalidated.errors).toEqual([]);
+
+    const [resumed] = await runBulkIssuance(client, "drop.base.eth", [revalidated]);
+    expect(resumed).toMatchObject({ status: "done", step: "transfer" });
+    expect(provider.sent.map(tx => tx.to)).toEqual([DEFAULT_ADDRESSES.registry, DEFAULT_ADDRESSES.resolver, DEFAULT_ADDRESSES.registry]);
+    expect(ens.owners.get(ethers.namehash("b.drop.base.eth"))).toBe(carol);
+  });
+
+  it("waits for a transaction still in the mempool", async () => {
+    provider.autoMine = false;
+    const pending = await client.registry(alice.connect(provider)).setSubnodeOwner(ethers.namehash("drop.base.eth"), ethers.id("a"), bob);
+    setTimeout(() => provider.mine(), 50);
+
+    const [done] = await runBulkIssuance(client, "drop.base.eth", [row(1, "a", bob, { txHash: pending.hash, step: "issue" })]);
+    expect(done.status).toBe("done");
+    expect(provider.sent).toHaveLength(1);
+    expect(ens.owners.get(ethers.namehash("a.drop.base.eth"))).toBe(bob);
+  });
+
+  it("retries a step whose transaction was dropped", async () => {
+    const [done] = await runBulkIssuance(client, "drop.base.eth", [row(1, "a", bob, { txHash: ethers.id("dropped"), step: "issue" })]);
+    expect(done.status).toBe("done");
+    expect(provider.sent).toHaveLength(1);
+  });
+});
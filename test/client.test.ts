@@ -0,0 +1,213 @@
+import { describe, expect, it, beforeEach, vi } from "vitest";
+import { ethers, Interface, Wallet } from "ethers";
+import { BaseNamesClient, DEFAULT_ADDRESSES, ETH_COIN_TYPE, REGISTRY_ABI, RESOLVER_ABI, REVERSE_REGISTRAR_ABI, evmCoinType, toReverseNode } from "../lib";
+import type { TxPreview } from "../lib";
+import type { EnsState } from "./mockChain";
+import { MockProvider, MockRevert, issueName, mockEns } from "./mockChain";
+
+const alice = new Wallet("0x" + "11".repeat(32));
+const bob = new Wallet("0x" + "22".repeat(32));
+const registry = new Interface(REGISTRY_ABI);
+const resolver = new Interface(RESOLVER_ABI);
+
+describe("BaseNamesClient", () => {
+  let provider: MockProvider;
+  let ens: EnsState;
+  let client: BaseNamesClient;
+
+  beforeEach(() => {
+    provider = new MockProvider();
+    ens = mockEns(provider);
+    client = new BaseNamesClient({ provider });
+  });
+
+  const writer = (wallet: Wallet, hooks = {}) => client.withSigner(wallet.connect(provider), hooks);
+
+  describe("resolution", () => {
+    it("resolves a name through the resolver set in the registry", async () => {
+      issueName(ens, "alice.base.eth", alice.address, alice.address);
+      expect(await client.resolve("alice.base.eth")).toBe(alice.address);
+      expect(await client.getResolver("alice.base.eth")).toEqual({ address: DEFAULT_ADDRESSES.resolver, setOn: "alice.base.eth", extended: false });
+    });
+
+    it("normalizes names before hashing", async () => {
+      issueName(ens, "alice.base.eth", alice.address, alice.address);
+      expect(await client.resolve("  Alice.Base.ETH ")).toBe(alice.address);
+    });
+
+    it("returns null without a resolver or address", async () => {
+      expect(await client.resolve("nobody.base.eth")).toBeNull();
+      issueName(ens, "empty.base.eth", alice.address);
+      expect(await client.resolve("empty.base.eth")).toBeNull();
+    });
+
+    it("loads a profile and compares it with the viewer", async () => {
+      const node = issueName(ens, "alice.base.eth", alice.address, alice.address);
+      ens.texts.set(`${node}:com.twitter`, "alice");
+      ens.texts.set(`${node}:url`, "https://alice.example");
+      ens.addrs.set(`${node}:${evmCoinType(8453)}`, bob.address.toLowerCase());
+
+      const lookup = await client.getProfile("alice.base.eth", alice.address);
+      expect(lookup.available).toBe(false);
+      expect(lookup.data).toMatchObject({
+        owner: alice.address,
+        resolver: DEFAULT_ADDRESSES.resolver,
+        address: alice.address,
+        twitter: "alice",
+        url: "https://alice.example",
+        isMine: true
+      });
+      expect(lookup.data!.coinAddresses).toEqual([
+        { coinType: ETH_COIN_TYPE, address: alice.address },
+        { coinType: evmCoinType(8453), address: bob.address }
+      ]);
+      expect((await client.getProfile("alice.base.eth", bob.address)).data!.isMine).toBe(false);
+    });
+
+    it("reports names nobody owns as available", async () => {
+      expect(await client.getProfile("nobody.base.eth")).toEqual({ name: "nobody.base.eth", available: true });
+    });
+
+    it("loads owned names without an address record", async () => {
+      issueName(ens, "alice.base.eth", alice.address);
+      const lookup = await client.getProfile("alice.base.eth", alice.address);
+      expect(lookup.available).toBe(false);
+      expect(lookup.data).toMatchObject({ owner: alice.address, resolver: DEFAULT_ADDRESSES.resolver, address: null, isMine: true });
+
+      ens.resolvers.delete(ethers.namehash("alice.base.eth"));
+      expect((await client.getProfile("alice.base.eth", alice.address)).data).toEqual({ owner: alice.address, resolver: ethers.ZeroAddress, address: null, isMine: true });
+    });
+
+    it("treats subnames by their registry owner", async () => {
+      issueName(ens, "alice.base.eth", alice.address, alice.address);
+      issueName(ens, "pay.alice.base.eth", bob.address);
+      expect((await client.getProfile("pay.alice.base.eth", bob.address)).data).toMatchObject({ address: null, isMine: true });
+      expect((await client.getProfile("free.alice.base.eth")).available).toBe(true);
+    });
+
+    it("verifies a primary name against forward resolution", async () => {
+      issueName(ens, "alice.base.eth", alice.address, alice.address);
+      const reverseNode = toReverseNode(alice.address);
+      ens.resolvers.set(reverseNode, DEFAULT_ADDRESSES.resolver);
+      ens.names.set(reverseNode, "alice.base.eth");
+      expect(await client.reverseLookup(alice.address)).toEqual({ name: "alice.base.eth", avatar: "", verified: true });
+
+      ens.addrs.set(`${ethers.namehash("alice.base.eth")}:60`, bob.address.toLowerCase());
+      expect((await client.reverseLookup(alice.address))!.verified).toBe(false);
+    });
+
+    it("counts registrar names", async () => {
+      ens.tokens.set(ethers.id("alice"), { owner: alice.address, expires: 2_000_000_000 });
+      ens.tokens.set(ethers.id("alice2"), { owner: alice.address, expires: 2_000_000_000 });
+      expect(await client.balanceOf(alice.address)).toBe(2);
+      expect(await client.balanceOf(bob.address)).toBe(0);
+    });
+  });
+
+  describe("records", () => {
+    it("reads text and address records, empty when unset", async () => {
+      const node = issueName(ens, "alice.base.eth", alice.address, alice.address);
+      ens.texts.set(`${node}:description`, "hi");
+      expect(await client.getTextRecords("alice.base.eth", ["description", "email"])).toEqual({ description: "hi", email: "" });
+      expect(await client.getAddresses("alice.base.eth", [ETH_COIN_TYPE, evmCoinType(10)])).toEqual([{ coinType: ETH_COIN_TYPE, address: alice.address }]);
+    });
+
+    it("writes texts, addresses and the contenthash in one multicall", async () => {
+      const node = issueName(ens, "alice.base.eth", alice.address);
+      const tx = await writer(alice).setRecords("alice.base.eth", {
+        texts: [{ key: "description", from: "", to: "hello" }],
+        addresses: [{ coinType: ETH_COIN_TYPE, address: bob.address }, { coinType: evmCoinType(8453), address: bob.address }],
+        contenthash: "ipfs://bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi"
+      });
+      await tx.wait();
+
+      expect(provider.sent).toHaveLength(1);
+      const [calls] = resolver.decodeFunctionData("multicall", provider.sent[0].data);
+      expect(calls.map((data: string) => resolver.parseTransaction({ data })!.signature)).toEqual([
+        "setText(bytes32,string,string)",
+        "setAddr(bytes32,address)",
+        "setAddr(bytes32,uint256,bytes)",
+        "setContenthash(bytes32,bytes)"
+      ]);
+      expect(ens.texts.get(`${node}:description`)).toBe("hello");
+      expect(await client.resolve("alice.base.eth")).toBe(bob.address);
+      expect((await client.getContenthash("alice.base.eth"))!.protocol).toBe("ipfs");
+    });
+
+    it("rejects writes with nothing to change or invalid addresses", async () => {
+      issueName(ens, "alice.base.eth", alice.address);
+      await expect(writer(alice).setRecords("alice.base.eth", {})).rejects.toThrow("No changes to save.");
+      await expect(writer(alice).setAddresses("alice.base.eth", [{ coinType: ETH_COIN_TYPE, address: "0x1234" }])).rejects.toThrow("Invalid address: 0x1234");
+      expect(provider.sent).toHaveLength(0);
+    });
+
+    it("refuses to write records of a name the signer doesn't own", async () => {
+      issueName(ens, "alice.base.eth", alice.address);
+      await expect(writer(bob).setTextRecords("alice.base.eth", [{ key: "url", from: "", to: "x" }])).rejects.toThrow("You don't own alice.base.eth.");
+    });
+  });
+
+  describe("writes", () => {
+    it("issues a subname with one setSubnodeOwner", async () => {
+      issueName(ens, "alice.base.eth", alice.address);
+      const tx = await writer(alice).createSubname("alice.base.eth", "Pay", bob.address);
+      await tx.wait();
+
+      expect(provider.sent).toHaveLength(1);
+      expect(registry.parseTransaction({ data: provider.sent[0].data })!.name).toBe("setSubnodeOwner");
+      expect(await client.getSubnameOwner("alice.base.eth", "pay")).toBe(bob.address);
+    });
+
+    it("sets records on a new subname before handing it over", async () => {
+      issueName(ens, "alice.base.eth", alice.address);
+      const steps: string[] = [];
+      const tx = await writer(alice).createSubname("alice.base.eth", "pay", bob.address, {
+        address: bob.address,
+        texts: { description: "payments" },
+        onStep: message => steps.push(message)
+      });
+      await tx.wait();
+
+      expect(provider.sent.map(sent => sent.to)).toEqual([DEFAULT_ADDRESSES.registry, DEFAULT_ADDRESSES.resolver, DEFAULT_ADDRESSES.registry]);
+      expect(steps).toEqual(["Creating pay.alice.base.eth...", "Setting records for pay.alice.base.eth..."]);
+      expect(await client.getSubnameOwner("alice.base.eth", "pay")).toBe(bob.address);
+      expect(await client.resolve("pay.alice.base.eth")).toBe(bob.address);
+      expect((await client.getTextRecords("pay.alice.base.eth", ["description"])).description).toBe("payments");
+    });
+
+    it("checks inputs and parent ownership before prompting", async () => {
+      issueName(ens, "alice.base.eth", alice.address);
+      await expect(writer(alice).createSubname("alice.base.eth", "pay", "0x1234")).rejects.toThrow("Invalid address.");
+      await expect(writer(bob).createSubname("alice.base.eth", "pay", bob.address)).rejects.toThrow("You don't own alice.base.eth.");
+      await expect(client.createSubname("alice.base.eth", "pay", bob.address)).rejects.toThrow("A signer is required for this action.");
+      expect(provider.sent).toHaveLength(0);
+    });
+
+    it("passes a priced preview to confirm and reports the sent transaction", async () => {
+      issueName(ens, "alice.base.eth", alice.address);
+      const confirm = vi.fn(async (_preview: TxPreview) => true);
+      const onSubmitted = vi.fn();
+      const tx = await writer(alice, { confirm, onSubmitted }).createSubname("alice.base.eth", "pay", bob.address);
+
+      expect(confirm).toHaveBeenCalledOnce();
+      expect(confirm.mock.calls[0][0]).toMatchObject({ description: "Issue pay.alice.base.eth", to: DEFAULT_ADDRESSES.registry, value: 0n, gasLimit: 100_000n });
+      expect(onSubmitted).toHaveBeenCalledWith(tx, confirm.mock.calls[0][0]);
+    });
+
+    it("sends nothing when confirm declines", async () => {
+      issueName(ens, "alice.base.eth", alice.address);
+      const tx = writer(alice, { confirm: async () => false }).createSubname("alice.base.eth", "pay", bob.address);
+      await expect(tx).rejects.toThrow("Transaction cancelled.");
+      expect(provider.sent).toHaveLength(0);
+    });
+
+    it("throws the decoded revert reason of a failing simulation", async () => {
+      issueName(ens, "alice.base.eth", alice.address, alice.address);
+      provider.mock(DEFAULT_ADDRESSES.reverseRegistrar, REVERSE_REGISTRAR_ABI, () => {
+        throw new MockRevert(ethers.concat(["0x08c379a0", ethers.AbiCoder.defaultAbiCoder().encode(["string"], ["Reverse records are paused"])]));
+      });
+      await expect(writer(alice).setPrimaryName("alice.base.eth")).rejects.toThrow("Reverse records are paused");
+      expect(provider.sent).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { decodeContenthash, encodeContenthash } from "../lib";
+
+// ipns://app.uniswap.org as stored by sites that set a DNSLink contenthash.
+const DNSLINK = "0xe5010170000f6170702e756e69737761702e6f7267";
+
+describe("contenthash", () => {
+  it("round-trips a legacy DNSLink IPNS record", () => {
+    const decoded = decodeContenthash(DNSLINK);
+    expect(decoded).toEqual({ protocol: "ipns", value: "app.uniswap.org", uri: "ipns://app.uniswap.org" });
+    expect(encodeContenthash(decoded!.uri)).toBe(DNSLINK);
+  });
+
+  it("round-trips IPFS and IPNS keys", () => {
+    for (const uri of [
+      "ipfs://bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi",
+      "ipns://k51qzi5uqu5dlvj2baxnqndepeb86cbk3ng7n3i46uzyxzyqj2xjonzllnv0v8"
+    ]) {
+      expect(decodeContenthash(encodeContenthash(uri))?.uri).toBe(uri);
+    }
+  });
+
+  it("rejects IPNS values that are neither keys nor domains", () => {
+    expect(() => encodeContenthash("ipns://not a domain")).toThrow();
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { FUSES, childFuseError, decodeFuses, encodeFuses } from "../lib";
+
+const emancipated = FUSES.PARENT_CANNOT_CONTROL | FUSES.CANNOT_UNWRAP;
+
+describe("childFuseError", () => {
+  it("allows parent-controlled fuses on their own", () => {
+    expect(childFuseError(FUSES.CAN_EXTEND_EXPIRY, 0)).toBeNull();
+    expect(childFuseError(0, 0)).toBeNull();
+  });
+
+  it("requires emancipation before owner-controlled fuses", () => {
+    expect(childFuseError(FUSES.CANNOT_TRANSFER, FUSES.CANNOT_UNWRAP)).toBe("Owner-controlled fuses require PARENT_CANNOT_CONTROL and CANNOT_UNWRAP.");
+    expect(childFuseError(FUSES.CANNOT_TRANSFER | FUSES.CAN_EXTEND_EXPIRY | emancipated, FUSES.CANNOT_UNWRAP)).toBeNull();
+  });
+
+  it("requires a locked parent to emancipate", () => {
+    expect(childFuseError(FUSES.PARENT_CANNOT_CONTROL, 0)).toBe("The parent must have CANNOT_UNWRAP burned before its subnames can be emancipated.");
+    expect(childFuseError(emancipated, FUSES.CANNOT_UNWRAP)).toBeNull();
+  });
+
+  it("refuses IS_DOT_ETH", () => {
+    expect(childFuseError(FUSES.IS_DOT_ETH, FUSES.CANNOT_UNWRAP)).toBe("IS_DOT_ETH cannot be set on a subname.");
+  });
+});
+
+describe("fuse encoding", () => {
+  it("round-trips fuse names", () => {
+    expect(decodeFuses(encodeFuses(["CANNOT_UNWRAP", "CAN_EXTEND_EXPIRY"]))).toEqual(["CANNOT_UNWRAP", "CAN_EXTEND_EXPIRY"]);
+  });
+});
@@ -0,0 +1,197 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import { ethers, Interface, SigningKey, Wallet } from "ethers";
+import {
+  BaseNamesClient,
+  ETH_COIN_TYPE,
+  ISSUE_SUBNAME_TYPES,
+  RESOLVER_ABI,
+  RESOLVER_SERVICE_ABI,
+  REVOKE_SUBNAME_TYPES,
+  SubnameGateway,
+  answerResolverCall,
+  evmCoinType,
+  gatewayDomain,
+  offchainResponseHash,
+  parseResolveRequest
+} from "../lib";
+import { createGatewayServer } from "../gateway/app";
+import { SubnameDatabase } from "../gateway/database";
+import type { EnsState } from "./mockChain";
+import { MockProvider, issueName, mockEns } from "./mockChain";
+
+const alice = new Wallet("0x" + "11".repeat(32));
+const bob = new Wallet("0x" + "22".repeat(32));
+const gatewayKey = new SigningKey("0x" + "44".repeat(32));
+const resolver = new Interface(RESOLVER_ABI);
+const service = new Interface(RESOLVER_SERVICE_ABI);
+const node = ethers.namehash("pay.alice.base.eth");
+
+describe("offchain helpers", () => {
+  it("hashes a response the way SignatureVerifier.makeSignatureHash does", () => {
+    const target = "0x" + "ab".repeat(20);
+    const request = "0x9061b923";
+    const result = ethers.AbiCoder.defaultAbiCoder().encode(["address"], [alice.address]);
+    // keccak256(abi.encodePacked(hex"1900", target, expires, keccak256(request), keccak256(result)))
+    const packed = ethers.concat([
+      "0x1900",
+      target,
+      ethers.zeroPadValue(ethers.toBeHex(1_700_000_000), 8),
+      ethers.keccak256(request),
+      ethers.keccak256(result)
+    ]);
+    expect(ethers.dataLength(packed)).toBe(2 + 20 + 8 + 32 + 32);
+    expect(offchainResponseHash(target, 1_700_000_000n, request, result)).toBe(ethers.keccak256(packed));
+    expect(offchainResponseHash(target, 1_700_000_001n, request, result)).not.toBe(ethers.keccak256(packed));
+  });
+
+  it("decodes the DNS-encoded name and wrapped call of a resolve request", () => {
+    const data = resolver.encodeFunctionData("text", [node, "url"]);
+    const callData = service.encodeFunctionData("resolve", [ethers.dnsEncode("pay.alice.base.eth"), data]);
+    expect(parseResolveRequest(callData)).toEqual({ name: "pay.alice.base.eth", data });
+    expect(() => parseResolveRequest(service.encodeFunctionData("resolve", ["0x05616c6963", data]))).toThrow("Invalid DNS-encoded name.");
+  });
+
+  it("answers the resolver calls a gateway serves", () => {
+    const records = { address: bob.address, texts: { url: "https://bob.example" } };
+    const answer = (fragment: string, args: unknown[]) => {
+      const result = answerResolverCall(records, resolver.encodeFunctionData(fragment, args), 8453);
+      return result === null ? null : resolver.decodeFunctionResult(fragment, result)[0];
+    };
+    expect(answer("addr(bytes32)", [node])).toBe(bob.address);
+    expect(answer("addr(bytes32,uint256)", [node, ETH_COIN_TYPE])).toBe(bob.address.toLowerCase());
+    expect(answer("addr(bytes32,uint256)", [node, evmCoinType(8453)])).toBe(bob.address.toLowerCase());
+    expect(answer("addr(bytes32,uint256)", [node, evmCoinType(10)])).toBe("0x");
+    expect(answer("addr(bytes32,uint256)", [node, 0])).toBe("0x");
+    expect(answer("text", [node, "url"])).toBe("https://bob.example");
+    expect(answer("text", [node, "email"])).toBe("");
+    expect(answer("contenthash", [node])).toBe("0x");
+    expect(answer("name", [node])).toBeNull();
+
+    const empty = answerResolverCall(null, resolver.encodeFunctionData("addr(bytes32)", [node]), 8453)!;
+    expect(resolver.decodeFunctionResult("addr(bytes32)", empty)[0]).toBe(ethers.ZeroAddress);
+  });
+});
+
+describe("SubnameGateway", () => {
+  let provider: MockProvider;
+  let ens: EnsState;
+  let dir: string;
+  let server: Server;
+  let gateway: SubnameGateway;
+  let url: string;
+
+  beforeEach(async () => {
+    provider = new MockProvider();
+    ens = mockEns(provider);
+    issueName(ens, "alice.base.eth", alice.address, alice.address);
+    const client = new BaseNamesClient({ provider });
+    dir = mkdtempSync(join(tmpdir(), "gateway-"));
+    server = createGatewayServer({ client, db: new SubnameDatabase(join(dir, "subnames.json")), signingKey: gatewayKey, ttlSeconds: 300n });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+    gateway = new SubnameGateway(url, client);
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await new Promise(resolve => server.close(resolve));
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  // Calls the CCIP-Read endpoint the way an offchain resolver's client would.
+  const resolve = async (name: string, fragment: string, args: unknown[]) => {
+    const sender = "0x" + "cd".repeat(20);
+    const callData = service.encodeFunctionData("resolve", [ethers.dnsEncode(name), resolver.encodeFunctionData(fragment, args)]);
+    const response = await fetch(url, { method: "POST", body: JSON.stringify({ sender, data: callData }) });
+    expect(response.status).toBe(200);
+    const [result, expires, signature] = service.decodeFunctionResult("resolve", (await response.json()).data);
+    expect(ethers.recoverAddress(offchainResponseHash(sender, expires, callData, result), signature)).toBe(ethers.computeAddress(gatewayKey.publicKey));
+    return resolver.decodeFunctionResult(fragment, result)[0];
+  };
+
+  it("issues, updates and revokes a subname with signed requests", async () => {
+    const issued = await gateway.issue(alice, "Alice.base.eth", "Pay", bob.address);
+    expect(issued).toMatchObject({ name: "pay.alice.base.eth", parent: "alice.base.eth", label: "pay", owner: bob.address });
+    expect(await gateway.get("pay.alice.base.eth")).toEqual(issued);
+    expect(await gateway.list("alice.base.eth")).toEqual([issued]);
+    expect(await resolve("pay.alice.base.eth", "addr(bytes32)", [node])).toBe(bob.address);
+
+    // Signatures cover whole seconds; each change needs a later timestamp than the last.
+    vi.useFakeTimers({ toFake: ["Date"], now: Date.now() + 1_000 });
+    const updated = await gateway.setRecords(bob, "pay.alice.base.eth", { address: alice.address, texts: { url: "https://pay.example", email: "" } });
+    expect(updated.records).toEqual({ address: alice.address, texts: { url: "https://pay.example" } });
+    expect(await resolve("pay.alice.base.eth", "addr(bytes32)", [node])).toBe(alice.address);
+    expect(await resolve("pay.alice.base.eth", "text", [node, "url"])).toBe("https://pay.example");
+
+    vi.setSystemTime(Date.now() + 1_000);
+    await gateway.revoke(alice, "pay.alice.base.eth");
+    expect(await gateway.get("pay.alice.base.eth")).toBeNull();
+    expect(await resolve("pay.alice.base.eth", "addr(bytes32)", [node])).toBe(ethers.ZeroAddress);
+  });
+
+  // Signs `message` and posts it to `path` as-is, so the same request can be sent twice.
+  const signedPost = async (path: string, types: Record<string, ethers.TypedDataField[]>, message: Record<string, unknown>) => {
+    const signature = await alice.signTypedData(gatewayDomain(8453), types, message);
+    return () => fetch(`${url}${path}`, { method: "POST", body: JSON.stringify({ ...message, signature }) });
+  };
+  const advance = (seconds: number) => vi.setSystemTime(Date.now() + seconds * 1_000);
+
+  it("refuses replayed issue and revoke requests", async () => {
+    vi.useFakeTimers({ toFake: ["Date"], now: Date.now() });
+    const now = () => Math.floor(Date.now() / 1000);
+    const issue = await signedPost("subnames", ISSUE_SUBNAME_TYPES, { parent: "alice.base.eth", label: "pay", owner: bob.address, timestamp: now() });
+    expect((await issue()).status).toBe(201);
+
+    advance(1);
+    const revoke = await signedPost("subnames/pay.alice.base.eth/revoke", REVOKE_SUBNAME_TYPES, { name: "pay.alice.base.eth", timestamp: now() });
+    expect((await revoke()).status).toBe(200);
+    // The revoke outlives a restart; the issue signed before it can't bring the name back.
+    expect(new SubnameDatabase(join(dir, "subnames.json")).lastChange("pay.alice.base.eth")).toBe(now());
+    expect((await issue()).status).toBe(409);
+    expect(await gateway.get("pay.alice.base.eth")).toBeNull();
+
+    advance(1);
+    await gateway.issue(alice, "alice.base.eth", "pay", bob.address);
+    const replayed = await revoke();
+    expect(replayed.status).toBe(409);
+    expect(await replayed.json()).toEqual({ error: "A newer change to this subname exists." });
+    expect(await gateway.get("pay.alice.base.eth")).not.toBeNull();
+  });
+
+  it("rejects requests signed by the wrong account", async () => {
+    await expect(gateway.issue(bob, "alice.base.eth", "pay", bob.address)).rejects.toThrow("The signer doesn't own alice.base.eth.");
+    await gateway.issue(alice, "alice.base.eth", "pay", bob.address);
+    await expect(gateway.setRecords(alice, "pay.alice.base.eth", { address: alice.address, texts: {} })).rejects.toThrow("The signer doesn't own pay.alice.base.eth.");
+    await expect(gateway.revoke(bob, "pay.alice.base.eth")).rejects.toThrow("The signer doesn't own alice.base.eth.");
+    expect(await gateway.get("pay.alice.base.eth")).not.toBeNull();
+  });
+
+  it("won't shadow a subname issued onchain", async () => {
+    issueName(ens, "pay.alice.base.eth", bob.address);
+    await expect(gateway.issue(alice, "alice.base.eth", "pay", bob.address)).rejects.toThrow("pay.alice.base.eth is already issued onchain.");
+  });
+
+  it("answers invalid names in the URL with 400", async () => {
+    for (const path of ["subnames/a_b.alice.base.eth", "subnames?parent=a..eth"]) {
+      const response = await fetch(`${url}${path}`);
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toMatch(/^Invalid name /);
+    }
+    const response = await fetch(`${url}subnames/a_b.alice.base.eth/revoke`, { method: "POST", body: "{}" });
+    expect(response.status).toBe(400);
+  });
+
+  it("reports unknown names and unsupported calls", async () => {
+    expect(await gateway.get("nobody.alice.base.eth")).toBeNull();
+    await expect(gateway.setRecords(bob, "nobody.alice.base.eth", { address: "", texts: {} })).rejects.toThrow("nobody.alice.base.eth is not served by this gateway.");
+    const callData = service.encodeFunctionData("resolve", [ethers.dnsEncode("pay.alice.base.eth"), resolver.encodeFunctionData("name", [node])]);
+    const response = await fetch(`${url}${"0x" + "cd".repeat(20)}/${callData}.json`);
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: "Unsupported resolver function." });
+  });
+});
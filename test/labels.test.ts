@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { ethers } from "ethers";
+import { createMemoryStore, loadLabels, loadNames, rememberName } from "../lib";
+
+describe("rememberName", () => {
+  it("stores the normalized labels and parents of a name", () => {
+    const store = createMemoryStore();
+    rememberName(" Pay.Alice.base.eth ", store);
+    expect(loadLabels(store)[ethers.id("pay")]).toBe("pay");
+    expect(loadNames(store)[ethers.namehash("pay.alice.base.eth")]).toBe("pay.alice.base.eth");
+    expect(loadNames(store)[ethers.namehash("alice.base.eth")]).toBe("alice.base.eth");
+  });
+
+  it("skips names that don't normalize", () => {
+    const store = createMemoryStore();
+    for (const name of ["a_b.base.eth", "alice..base.eth", ""]) rememberName(name, store);
+    expect(loadLabels(store)).toEqual({});
+    expect(loadNames(store)).toEqual({});
+  });
+});
@@ -0,0 +1,414 @@
+import { ethers, Interface, JsonRpcProvider, Network, Transaction } from "ethers";
+import type { InterfaceAbi, JsonRpcPayload, JsonRpcResult, Result } from "ethers";
+import {
+  CONTROLLER_ABI,
+  DEFAULT_ADDRESSES,
+  EXTENDED_RESOLVER_INTERFACE,
+  REGISTRAR_ABI,
+  REGISTRY_ABI,
+  RESOLVER_ABI,
+  RESOLVER_SERVICE_ABI,
+  offchainResponseHash
+} from "../lib";
+
+/** Call context a mocked contract sees: `from` is set for transactions and gas estimates. */
+export interface MockCall {
+  from: string | null;
+  value: bigint;
+  /** True when the call is a mined transaction and may change state. */
+  write: boolean;
+}
+
+/** Answers one decoded call with its return values, or throws `revert(...)`. */
+export type MockHandler = (method: string, args: Result, call: MockCall) => unknown[] | undefined;
+
+/** Thrown by handlers to revert with `data`. */
+export class MockRevert extends Error {
+  constructor(readonly data: string) {
+    super("execution reverted");
+  }
+}
+
+export const revert = (iface: Interface, error: string, args: unknown[] = []): never => {
+  throw new MockRevert(iface.encodeErrorResult(error, args));
+};
+
+export interface MockLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: number;
+}
+
+const ZERO_HASH = ethers.ZeroHash;
+
+/**
+ * JsonRpcProvider whose requests never leave the process: `eth_call`,
+ * gas estimates and raw transactions are decoded and answered by the
+ * contracts registered with `mock`. Transactions are mined as they are sent unless `autoMine` is off.
+ */
+export class MockProvider extends JsonRpcProvider {
+  readonly contracts = new Map<string, { iface: Interface; handle: MockHandler }>();
+  readonly sent: Transaction[] = [];
+  readonly logs: MockLog[] = [];
+  /** JSON-RPC methods called, in order. */
+  readonly methods: string[] = [];
+  blockNumber = 1_000;
+  /** Mine every transaction as it is sent; otherwise they wait in the mempool for `mine()`. */
+  autoMine = true;
+  #mempool: Transaction[] = [];
+  #receipts = new Map<string, { tx: Transaction; status: number; blockNumber: number }>();
+
+  constructor(readonly mockChainId = 8453) {
+    const network = Network.from(mockChainId);
+    super("http://mock.invalid", network, { staticNetwork: network, batchMaxCount: 1, cacheTimeout: -1 });
+  }
+
+  mock(address: string, abi: InterfaceAbi, handle: MockHandler): this {
+    this.contracts.set(address.toLowerCase(), { iface: new Interface(abi), handle });
+    return this;
+  }
+
+  async _send(payload: JsonRpcPayload | JsonRpcPayload[]): Promise<JsonRpcResult[]> {
+    const requests = Array.isArray(payload) ? payload : [payload];
+    return Promise.all(requests.map(async ({ id, method, params }) => {
+      this.methods.push(method);
+      try {
+        return { id, result: await this.#answer(method, params as any[]) };
+      } catch (err: any) {
+        if (err instanceof MockRevert) return { id, error: { code: 3, message: "execution reverted", data: err.data } } as any;
+        return { id, error: { code: -32603, message: err.message } } as any;
+      }
+    }));
+  }
+
+  async #answer(method: string, params: any[]): Promise<unknown> {
+    switch (method) {
+      case "eth_chainId": return ethers.toQuantity(this.mockChainId);
+      case "eth_blockNumber": return ethers.toQuantity(this.blockNumber);
+      case "eth_gasPrice": return ethers.toQuantity(1_000_000_000n);
+      case "eth_maxPriorityFeePerGas": return ethers.toQuantity(1_000_000n);
+      case "eth_getCode": return this.contracts.has(params[0].toLowerCase()) ? "0x6080" : "0x";
+      case "eth_getBalance": return ethers.toQuantity(ethers.parseEther("10"));
+      case "eth_getTransactionCount": return ethers.toQuantity(this.#nonce(params[0], params[1]));
+      case "eth_getBlockByNumber": return this.#block(params[0] === "latest" ? this.blockNumber : Number(params[0]), params[1]);
+      case "eth_call": return this.#call(params[0], false);
+      case "eth_estimateGas":
+        await this.#call(params[0], false);
+        return ethers.toQuantity(100_000);
+      case "eth_sendRawTransaction": return this.#broadcast(params[0]);
+      case "eth_getTransactionReceipt": return this.#receipt(params[0]);
+      case "eth_getTransactionByHash": return this.#transaction(params[0]);
+      case "eth_getLogs": return this.#logs(params[0]);
+      default: throw new Error(`MockProvider: ${method} is not mocked`);
+    }
+  }
+
+  async #call(tx: { to?: string; from?: string; data?: string; value?: string }, write: boolean): Promise<string> {
+    const contract = this.contracts.get((tx.to ?? "").toLowerCase());
+    if (!contract) return "0x";
+    const data = tx.data ?? "0x";
+    const fragment = contract.iface.getFunction(data.slice(0, 10));
+    if (!fragment) throw new MockRevert("0x");
+    const args = contract.iface.decodeFunctionData(fragment, data);
+    const result = contract.handle(fragment.format("sighash"), args, {
+      from: tx.from ? ethers.getAddress(tx.from) : null,
+      value: BigInt(tx.value ?? 0),
+      write
+    }) ?? [];
+    return contract.iface.encodeFunctionResult(fragment, result);
+  }
+
+  /** Mines the transactions waiting in the mempool, one block each. */
+  async mine(): Promise<void> {
+    const pending = this.#mempool.splice(0);
+    for (const tx of pending) await this.#execute(tx);
+  }
+
+  // Transactions of `address` mined by block `tag`; "pending" adds those in the mempool.
+  #nonce(address: string, tag: string) {
+    const from = (tx: Transaction) => ethers.getAddress(tx.from!) === ethers.getAddress(address);
+    const block = tag === "latest" || tag === "pending" ? this.blockNumber : Number(tag);
+    const mined = [...this.#receipts.values()].filter(entry => from(entry.tx) && entry.blockNumber <= block).length;
+    return tag === "pending" ? mined + this.#mempool.filter(from).length : mined;
+  }
+
+  async #broadcast(raw: string): Promise<string> {
+    const tx = Transaction.from(raw);
+    this.sent.push(tx);
+    if (this.autoMine) {
+      await this.#execute(tx);
+    } else {
+      // A transaction with the nonce of a pending one replaces it.
+      this.#mempool = this.#mempool.filter(pending => pending.from !== tx.from || pending.nonce !== tx.nonce);
+      this.#mempool.push(tx);
+    }
+    return tx.hash!;
+  }
+
+  async #execute(tx: Transaction): Promise<void> {
+    let status = 1;
+    try {
+      await this.#call({ to: tx.to ?? undefined, from: tx.from!, data: tx.data, value: ethers.toQuantity(tx.value) }, true);
+    } catch (err) {
+      if (!(err instanceof MockRevert)) throw err;
+      status = 0;
+    }
+    this.blockNumber += 1;
+    this.#receipts.set(tx.hash!, { tx, status, blockNumber: this.blockNumber });
+  }
+
+  #block(number: number, withTransactions = false) {
+    const mined = [...this.#receipts.values()].filter(entry => entry.blockNumber === number);
+    return {
+      number: ethers.toQuantity(number),
+      hash: ethers.zeroPadValue(ethers.toBeHex(number), 32),
+      parentHash: ZERO_HASH,
+      timestamp: ethers.toQuantity(1_700_000_000 + number * 2),
+      nonce: "0x0000000000000000",
+      difficulty: "0x0",
+      gasLimit: ethers.toQuantity(30_000_000),
+      gasUsed: "0x0",
+      miner: ethers.ZeroAddress,
+      extraData: "0x",
+      baseFeePerGas: ethers.toQuantity(1_000_000n),
+      transactions: mined.map(({ tx }) => withTransactions ? this.#transaction(tx.hash!) : tx.hash)
+    };
+  }
+
+  #transaction(hash: string) {
+    const mined = this.#receipts.get(hash);
+    const tx = mined?.tx ?? this.#mempool.find(pending => pending.hash === hash);
+    if (!tx) return null;
+    return {
+      hash,
+      type: ethers.toQuantity(tx.type ?? 2),
+      blockHash: mined ? this.#block(mined.blockNumber).hash : null,
+      blockNumber: mined ? ethers.toQuantity(mined.blockNumber) : null,
+      transactionIndex: mined ? "0x0" : null,
+      from: tx.from,
+      to: tx.to,
+      nonce: ethers.toQuantity(tx.nonce),
+      gas: ethers.toQuantity(tx.gasLimit),
+      gasPrice: ethers.toQuantity(tx.maxFeePerGas ?? tx.gasPrice ?? 0n),
+      maxFeePerGas: ethers.toQuantity(tx.maxFeePerGas ?? 0n),
+      maxPriorityFeePerGas: ethers.toQuantity(tx.maxPriorityFeePerGas ?? 0n),
+      value: ethers.toQuantity(tx.value),
+      input: tx.data,
+      chainId: ethers.toQuantity(this.mockChainId),
+      v: ethers.toQuantity(tx.signature!.yParity),
+      r: tx.signature!.r,
+      s: tx.signature!.s,
+      yParity: ethers.toQuantity(tx.signature!.yParity),
+      accessList: []
+    };
+  }
+
+  #receipt(hash: string) {
+    const entry = this.#receipts.get(hash);
+    if (!entry) return null;
+    const { tx, status, blockNumber } = entry;
+    return {
+      transactionHash: hash,
+      transactionIndex: "0x0",
+      blockHash: this.#block(blockNumber).hash,
+      blockNumber: ethers.toQuantity(blockNumber),
+      from: tx.from,
+      to: tx.to,
+      contractAddress: null,
+      logs: [],
+      logsBloom: ethers.zeroPadValue("0x", 256),
+      gasUsed: ethers.toQuantity(100_000),
+      cumulativeGasUsed: ethers.toQuantity(100_000),
+      effectiveGasPrice: ethers.toQuantity(1_000_000_000n),
+      type: ethers.toQuantity(tx.type ?? 2),
+      status: ethers.toQuantity(status)
+    };
+  }
+
+  #logs(filter: { address?: string | string[]; topics?: (string | string[] | null)[]; fromBlock?: string; toBlock?: string }) {
+    const from = filter.fromBlock ? Number(filter.fromBlock) : 0;
+    const to = filter.toBlock && filter.toBlock !== "latest" ? Number(filter.toBlock) : this.blockNumber;
+    const addresses = filter.address ? [filter.address].flat().map(a => a.toLowerCase()) : null;
+    return this.logs
+      .filter(log => log.blockNumber >= from && log.blockNumber <= to)
+      .filter(log => !addresses || addresses.includes(log.address.toLowerCase()))
+      .filter(log => (filter.topics ?? []).every((topic, i) =>
+        topic === null || [topic].flat().some(t => t.toLowerCase() === log.topics[i]?.toLowerCase())
+      ))
+      .map((log, i) => ({
+        ...log,
+        blockNumber: ethers.toQuantity(log.blockNumber),
+        blockHash: this.#block(log.blockNumber).hash,
+        transactionHash: ethers.zeroPadValue(ethers.toBeHex(i + 1), 32),
+        transactionIndex: "0x0",
+        logIndex: ethers.toQuantity(i),
+        removed: false
+      }));
+  }
+}
+
+/** Registry, resolver, registrar and controller state behind `mockEns`. */
+export interface EnsState {
+  owners: Map<string, string>;
+  resolvers: Map<string, string>;
+  addrs: Map<string, string>;
+  texts: Map<string, string>;
+  contenthashes: Map<string, string>;
+  /** Reverse records (`name(node)`), by reverse node. */
+  names: Map<string, string>;
+  /** Token owners and expiries of registrar names, by label hash. */
+  tokens: Map<string, { owner: string; expires: number }>;
+}
+
+const resolverInterface = new Interface(RESOLVER_ABI);
+
+/**
+ * Mocks the Base registry, public resolver, registrar and controller at
+ * their default addresses on `provider`, backed by plain maps. Writes
+ * check ownership the way the contracts do.
+ */
+export const mockEns = (provider: MockProvider): EnsState => {
+  const state: EnsState = {
+    owners: new Map(),
+    resolvers: new Map(),
+    addrs: new Map(),
+    texts: new Map(),
+    contenthashes: new Map(),
+    names: new Map(),
+    tokens: new Map()
+  };
+  const registryInterface = new Interface(REGISTRY_ABI);
+  const owner = (node: string) => state.owners.get(node) ?? ethers.ZeroAddress;
+  const requireOwner = (node: string, call: MockCall) => {
+    if (call.from && owner(node) !== call.from) revert(registryInterface, "Unauthorized");
+  };
+
+  provider.mock(DEFAULT_ADDRESSES.registry, REGISTRY_ABI, (method, args, call) => {
+    switch (method) {
+      case "owner(bytes32)": return [owner(args[0])];
+      case "resolver(bytes32)": return [state.resolvers.get(args[0]) ?? ethers.ZeroAddress];
+      case "isApprovedForAll(address,address)": return [false];
+      case "setSubnodeOwner(bytes32,bytes32,address)":
+      case "setSubnodeRecord(bytes32,bytes32,address,address,uint64)": {
+        requireOwner(args[0], call);
+        const node = ethers.keccak256(ethers.concat([args[0], args[1]]));
+        if (call.write) {
+          state.owners.set(node, args[2]);
+          if (args.length > 3) state.resolvers.set(node, args[3]);
+        }
+        return [];
+      }
+      case "setOwner(bytes32,address)":
+        requireOwner(args[0], call);
+        if (call.write) state.owners.set(args[0], args[1]);
+        return [];
+      case "setResolver(bytes32,address)":
+        requireOwner(args[0], call);
+        if (call.write) state.resolvers.set(args[0], args[1]);
+        return [];
+    }
+  });
+
+  const applyResolverCall = (method: string, args: Result, call: MockCall): unknown[] | undefined => {
+    switch (method) {
+      case "supportsInterface(bytes4)": return [false];
+      case "addr(bytes32)": {
+        const raw = state.addrs.get(`${args[0]}:60`) ?? "0x";
+        return [ethers.dataLength(raw) === 20 ? raw : ethers.ZeroAddress];
+      }
+      case "addr(bytes32,uint256)": return [state.addrs.get(`${args[0]}:${args[1]}`) ?? "0x"];
+      case "text(bytes32,string)": return [state.texts.get(`${args[0]}:${args[1]}`) ?? ""];
+      case "contenthash(bytes32)": return [state.contenthashes.get(args[0]) ?? "0x"];
+      case "name(bytes32)": return [state.names.get(args[0]) ?? ""];
+      case "setAddr(bytes32,address)":
+        requireOwner(args[0], call);
+        if (call.write) state.addrs.set(`${args[0]}:60`, args[1] === ethers.ZeroAddress ? "0x" : args[1].toLowerCase());
+        return [];
+      case "setAddr(bytes32,uint256,bytes)":
+        requireOwner(args[0], call);
+        if (call.write) state.addrs.set(`${args[0]}:${args[1]}`, args[2]);
+        return [];
+      case "setText(bytes32,string,string)":
+        requireOwner(args[0], call);
+        if (call.write) state.texts.set(`${args[0]}:${args[1]}`, args[2]);
+        return [];
+      case "setContenthash(bytes32,bytes)":
+        requireOwner(args[0], call);
+        if (call.write) state.contenthashes.set(args[0], args[1]);
+        return [];
+      case "multicall(bytes[])":
+        return [(args[0] as string[]).map(data => {
+          const fragment = resolverInterface.getFunction(data.slice(0, 10))!;
+          const inner = applyResolverCall(fragment.format("sighash"), resolverInterface.decodeFunctionData(fragment, data), call) ?? [];
+          return resolverInterface.encodeFunctionResult(fragment, inner);
+        })];
+    }
+  };
+  provider.mock(DEFAULT_ADDRESSES.resolver, RESOLVER_ABI, applyResolverCall);
+
+  provider.mock(DEFAULT_ADDRESSES.registrar, REGISTRAR_ABI, (method, args) => {
+    const token = state.tokens.get(ethers.toBeHex(args[0], 32));
+    switch (method) {
+      case "balanceOf(address)": return [[...state.tokens.values()].filter(t => t.owner === args[0]).length];
+      case "ownerOf(uint256)": return [token?.owner ?? ethers.ZeroAddress];
+      case "nameExpires(uint256)": return [token?.expires ?? 0];
+    }
+  });
+
+  provider.mock(DEFAULT_ADDRESSES.controller, CONTROLLER_ABI, (method, args) => {
+    if (method === "available(string)") return [!state.tokens.has(ethers.id(args[0]))];
+  });
+
+  return state;
+};
+
+/**
+ * Makes `owner` the registry owner of `name`, with the default resolver
+ * and optional ETH address. Names directly under base.eth are also
+ * registered on the registrar.
+ */
+export const issueName = (state: EnsState, name: string, owner: string, address?: string): string => {
+  const node = ethers.namehash(name);
+  state.owners.set(node, ethers.getAddress(owner));
+  const label = name.match(/^([^.]+)\.base\.eth$/)?.[1];
+  if (label) state.tokens.set(ethers.id(label), { owner: ethers.getAddress(owner), expires: 2_000_000_000 });
+  state.resolvers.set(node, DEFAULT_ADDRESSES.resolver);
+  if (address) state.addrs.set(`${node}:60`, address.toLowerCase());
+  return node;
+};
+
+const OFFCHAIN_RESOLVER_ABI = [
+  "function supportsInterface(bytes4 interfaceId) view returns (bool)",
+  "function resolve(bytes name, bytes data) view returns (bytes)",
+  "function resolveWithProof(bytes response, bytes extraData) view returns (bytes)",
+  "error OffchainLookup(address sender, string[] urls, bytes callData, bytes4 callbackFunction, bytes extraData)"
+];
+
+/**
+ * Mocks an ENSIP-10 resolver at `address` that answers everything
+ * offchain, the way ENS's OffchainResolver does: `resolve` reverts with
+ * `OffchainLookup` pointing at `url`, and `resolveWithProof` returns the
+ * gateway's answer when `signer` signed it and it hasn't expired.
+ */
+export const mockOffchainResolver = (provider: MockProvider, address: string, url: string, signer: string): void => {
+  const iface = new Interface(OFFCHAIN_RESOLVER_ABI);
+  const service = new Interface(RESOLVER_SERVICE_ABI);
+  provider.mock(address, OFFCHAIN_RESOLVER_ABI, (method, args) => {
+    switch (method) {
+      case "supportsInterface(bytes4)": return [args[0] === EXTENDED_RESOLVER_INTERFACE];
+      case "resolve(bytes,bytes)": {
+        const callData = service.encodeFunctionData("resolve", [args[0], args[1]]);
+        return revert(iface, "OffchainLookup", [address, [url], callData, iface.getFunction("resolveWithProof")!.selector, callData]);
+      }
+      case "resolveWithProof(bytes,bytes)": {
+        const [result, expires, sig] = service.decodeFunctionResult("resolve", args[0]);
+        if (expires < BigInt(Math.floor(Date.now() / 1000))) revert(iface, "Error", ["SignatureVerifier: Signature expired"]);
+        if (ethers.recoverAddress(offchainResponseHash(address, expires, args[1], result), sig) !== ethers.getAddress(signer)) {
+          revert(iface, "Error", ["SignatureVerifier: Invalid signature"]);
+        }
+        return [result];
+      }
+    }
+  });
+};
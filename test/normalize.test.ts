@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { inspectLabel, inspectName, normalizeLabel, normalizeName } from "../lib";
+import vectors from "./ensip15.json";
+
+// ENSIP-15 cases in the format of the spec's tests.json, so the full file
+// can replace ensip15.json: `norm` is the expected output when it differs
+// from `name`, `error` marks invalid names.
+interface Vector {
+  name: string;
+  norm?: string;
+  error?: boolean;
+  comment: string;
+}
+
+const valid = (vectors as Vector[]).filter(v => !v.error);
+const invalid = (vectors as Vector[]).filter(v => v.error);
+
+describe("ENSIP-15 vectors", () => {
+  it.each(valid.map(v => [v.comment, v] as const))("normalizes %s", (_, { name, norm }) => {
+    const expected = norm ?? name;
+    expect(normalizeName(name)).toBe(expected);
+    expect(inspectName(name).normalized).toBe(expected);
+    expect(inspectName(name).error).toBeUndefined();
+  });
+
+  it.each(invalid.map(v => [v.comment, v] as const))("rejects %s", (_, { name }) => {
+    const report = inspectName(name);
+    expect(report.normalized).toBeNull();
+    expect(report.error).toBeTruthy();
+    expect(() => normalizeName(name)).toThrow(/^Invalid name /);
+  });
+
+  it("normalizes every label of a valid name on its own", () => {
+    valid.forEach(({ name, norm }) => {
+      expect(name.split(".").map(normalizeLabel).join(".")).toBe(norm ?? name);
+    });
+  });
+
+  it("rejects a label when any vector label is invalid", () => {
+    invalid
+      .filter(v => !v.name.includes("."))
+      .forEach(({ name }) => expect(() => normalizeLabel(name)).toThrow(/^Invalid label /));
+  });
+});
+
+describe("inspectName", () => {
+  it("names the label that fails", () => {
+    expect(inspectName("ok.a_b.eth").error).toBe('"a_b": underscore allowed only at start');
+    expect(inspectName("a..eth").error).toBe("label 2: empty label");
+    expect(() => normalizeName("ok.a_b.eth")).toThrow('Invalid name "a_b": underscore allowed only at start');
+  });
+
+  it("trims surrounding whitespace and requires a name", () => {
+    expect(normalizeName("  Alice.Base.ETH ")).toBe("alice.base.eth");
+    expect(inspectName("   ").error).toBe("Enter a name.");
+  });
+
+  it("warns about ignored and mapped characters", () => {
+    expect(inspectName("a\u00adb.eth").warnings).toEqual(['"ab": Invisible characters were removed.']);
+    expect(inspectName("ｅｔｈ").warnings).toEqual(['"eth": Some characters were mapped to their canonical form.']);
+    expect(inspectName("Alice.eth").warnings).toEqual([]);
+  });
+
+  it("warns about emoji and non-ASCII scripts", () => {
+    expect(inspectName("💩.eth").warnings).toEqual(['"💩": Contains emoji; make sure it renders the same everywhere.']);
+    expect(inspectName("café.eth").warnings).toEqual(['"café": Contains non-ASCII Latin characters that can look like plain letters.']);
+    expect(inspectName("привет.eth").warnings).toEqual(['"привет": Uses the Cyrillic script; look-alike names may exist.']);
+  });
+
+  it("warns when labels mix scripts", () => {
+    expect(inspectName("привет.café").warnings[0]).toBe("Mixes Cyrillic and Latin scripts across labels.");
+  });
+});
+
+describe("inspectLabel", () => {
+  it("rejects dots", () => {
+    expect(inspectLabel("a.b")).toMatchObject({ normalized: null, error: '"a.b": labels cannot contain dots' });
+    expect(() => normalizeLabel("a.b")).toThrow('Invalid label "a.b": labels cannot contain dots');
+  });
+
+  it("normalizes a single label", () => {
+    expect(normalizeLabel(" Pay ")).toBe("pay");
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it, vi } from "vitest";
+import { ethers, Interface, Wallet } from "ethers";
+import { BaseNamesClient, DEFAULT_ADDRESSES, REGISTRAR_ABI, REGISTRY_ABI, createMemoryStore, loadPortfolioScan, scanPortfolioPage } from "../lib";
+import { MockProvider } from "./mockChain";
+
+const alice = new Wallet("0x" + "11".repeat(32)).address;
+const bob = new Wallet("0x" + "22".repeat(32)).address;
+const registry = new Interface(REGISTRY_ABI);
+const registrar = new Interface(REGISTRAR_ABI);
+
+const setup = () => {
+  const provider = new MockProvider();
+  const client = new BaseNamesClient({ provider, startBlock: 0 });
+  const emit = (address: string, iface: Interface, event: string, args: unknown[], blockNumber: number) =>
+    provider.logs.push({ ...iface.encodeEventLog(event, args), address, blockNumber });
+  const newOwner = (parent: string, label: string, owner: string, block: number) =>
+    emit(DEFAULT_ADDRESSES.registry, registry, "NewOwner", [ethers.namehash(parent), ethers.id(label), owner], block);
+  return { provider, client, emit, newOwner };
+};
+
+describe("scanPortfolioPage", () => {
+  it("finds registered names and the subnames issued under them", async () => {
+    const { client, emit, newOwner } = setup();
+    emit(DEFAULT_ADDRESSES.registrar, registrar, "Transfer", [ethers.ZeroAddress, alice, BigInt(ethers.id("alice"))], 10);
+    newOwner("base.eth", "alice", alice, 10);
+    newOwner("alice.base.eth", "pay", alice, 20);
+    newOwner("pay.alice.base.eth", "tips", alice, 30);
+    newOwner("alice.base.eth", "gift", bob, 40);
+    // Unrelated names the scan must not pick up.
+    newOwner("base.eth", "bob", bob, 50);
+    newOwner("bob.base.eth", "x", alice, 60);
+
+    const scan = await scanPortfolioPage(client, loadPortfolioScan(client, alice, createMemoryStore()), { toBlock: 100 });
+    expect(scan.tokenIds).toEqual([BigInt(ethers.id("alice")).toString()]);
+    expect(Object.keys(scan.nodes).sort()).toEqual([
+      ethers.namehash("pay.alice.base.eth"),
+      ethers.namehash("tips.pay.alice.base.eth")
+    ].sort());
+    expect(scan.nodes[ethers.namehash("tips.pay.alice.base.eth")].parentNode).toBe(ethers.namehash("pay.alice.base.eth"));
+    expect(scan.nextBlock).toBe(101);
+  });
+
+  it("notices tracked names transferred away", async () => {
+    const { client, emit, newOwner } = setup();
+    emit(DEFAULT_ADDRESSES.registrar, registrar, "Transfer", [ethers.ZeroAddress, alice, BigInt(ethers.id("alice"))], 10);
+    newOwner("alice.base.eth", "pay", alice, 20);
+    let scan = await scanPortfolioPage(client, loadPortfolioScan(client, alice, createMemoryStore()), { toBlock: 100 });
+
+    emit(DEFAULT_ADDRESSES.registry, registry, "Transfer", [ethers.namehash("pay.alice.base.eth"), bob], 150);
+    scan = await scanPortfolioPage(client, scan, { toBlock: 200 });
+    expect(scan.nodes[ethers.namehash("pay.alice.base.eth")].owner).toBe(bob);
+  });
+
+  it("filters every registry log request on indexed nodes", async () => {
+    const { provider, client, emit, newOwner } = setup();
+    emit(DEFAULT_ADDRESSES.registrar, registrar, "Transfer", [ethers.ZeroAddress, alice, BigInt(ethers.id("alice"))], 10);
+    newOwner("alice.base.eth", "pay", alice, 20);
+    const getLogs = vi.spyOn(provider, "getLogs");
+    await scanPortfolioPage(client, loadPortfolioScan(client, alice, createMemoryStore()), { toBlock: 100 });
+
+    const filters = getLogs.mock.calls.map(([filter]) => filter as ethers.Filter);
+    filters.filter(filter => filter.address === DEFAULT_ADDRESSES.registry).forEach(filter => {
+      expect(Array.isArray(filter.topics![1])).toBe(true);
+      expect((filter.topics![1] as string[]).length).toBeGreaterThan(0);
+    });
+    expect(filters.find(filter => filter.address === DEFAULT_ADDRESSES.registrar)!.topics![2]).toBe(ethers.zeroPadValue(alice.toLowerCase(), 32));
+  });
+
+  it("makes no registry requests for a wallet without names", async () => {
+    const { provider, client, newOwner } = setup();
+    newOwner("base.eth", "bob", bob, 10);
+    const getLogs = vi.spyOn(provider, "getLogs");
+    const scan = await scanPortfolioPage(client, loadPortfolioScan(client, alice, createMemoryStore()), { toBlock: 100 });
+    expect(scan.nodes).toEqual({});
+    expect(getLogs).toHaveBeenCalledOnce();
+  });
+});
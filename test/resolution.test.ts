@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import { ethers, SigningKey, Wallet } from "ethers";
+import { BaseNamesClient, DEFAULT_ADDRESSES } from "../lib";
+import { createGatewayServer } from "../gateway/app";
+import { SubnameDatabase } from "../gateway/database";
+import type { EnsState } from "./mockChain";
+import { MockProvider, issueName, mockEns, mockOffchainResolver } from "./mockChain";
+
+const alice = new Wallet("0x" + "11".repeat(32));
+const bob = new Wallet("0x" + "22".repeat(32));
+const gatewayKey = new SigningKey("0x" + "44".repeat(32));
+const offchainResolver = ethers.getAddress("0x" + "0f".repeat(20));
+
+describe("wildcard and CCIP-Read resolution", () => {
+  let provider: MockProvider;
+  let ens: EnsState;
+  let client: BaseNamesClient;
+  let dir: string;
+  let server: Server;
+
+  let url: string;
+
+  beforeEach(async () => {
+    provider = new MockProvider();
+    ens = mockEns(provider);
+    client = new BaseNamesClient({ provider });
+    issueName(ens, "alice.base.eth", alice.address, alice.address);
+
+    dir = mkdtempSync(join(tmpdir(), "resolution-"));
+    const db = new SubnameDatabase(join(dir, "subnames.json"));
+    db.put({
+      name: "pay.alice.base.eth",
+      parent: "alice.base.eth",
+      label: "pay",
+      owner: bob.address,
+      records: { address: bob.address, texts: { url: "https://pay.example" } },
+      issuedAt: 1,
+      updatedAt: 1
+    });
+    server = createGatewayServer({ client, db, signingKey: gatewayKey, ttlSeconds: 300n });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/{sender}/{data}.json`;
+    mockOffchainResolver(provider, offchainResolver, url, ethers.computeAddress(gatewayKey.publicKey));
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const useOffchainResolver = () => ens.resolvers.set(ethers.namehash("alice.base.eth"), offchainResolver);
+
+  it("reads a name without a registry entry through its ancestor's wildcard resolver", async () => {
+    useOffchainResolver();
+    expect(ens.resolvers.has(ethers.namehash("pay.alice.base.eth"))).toBe(false);
+    expect(await client.getResolver("pay.alice.base.eth")).toEqual({ address: offchainResolver, setOn: "alice.base.eth", extended: true });
+
+    expect(await client.resolve("pay.alice.base.eth")).toBe(bob.address);
+    expect(await client.getTextRecords("pay.alice.base.eth", ["url", "email"])).toEqual({ url: "https://pay.example", email: "" });
+    expect(await client.resolve("nobody.alice.base.eth")).toBeNull();
+  });
+
+  it("doesn't use an ancestor's resolver that lacks wildcard support", async () => {
+    expect(await client.getResolver("pay.alice.base.eth")).toBeNull();
+    expect(await client.getResolver("alice.base.eth")).toEqual({ address: DEFAULT_ADDRESSES.resolver, setOn: "alice.base.eth", extended: false });
+    expect(await client.resolve("pay.alice.base.eth")).toBeNull();
+  });
+
+  it("rejects gateway answers the resolver can't verify", async () => {
+    useOffchainResolver();
+    mockOffchainResolver(provider, offchainResolver, url, bob.address);
+    await expect(client.resolve("pay.alice.base.eth")).rejects.toThrow("SignatureVerifier: Invalid signature");
+  });
+});
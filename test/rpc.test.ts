@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import { ResilientProvider } from "../lib";
+
+const to = "0x" + "ab".repeat(20);
+const from = "0x" + "cd".repeat(20);
+
+describe("ResilientProvider", () => {
+  let server: Server;
+  let provider: ResilientProvider;
+  let calls: number;
+
+  beforeEach(async () => {
+    calls = 0;
+    server = createServer(async (req, res) => {
+      let body = "";
+      for await (const chunk of req) body += chunk;
+      const { id, method } = JSON.parse(body);
+      if (method === "eth_call") calls++;
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(JSON.stringify({ jsonrpc: "2.0", id, result: "0x01" }));
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    provider = new ResilientProvider([`http://127.0.0.1:${(server.address() as AddressInfo).port}`], 8453, { multicall: false });
+  });
+
+  afterEach(async () => {
+    provider.destroy();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it("caches plain reads at the latest block", async () => {
+    await provider.send("eth_call", [{ to, data: "0x1234" }, "latest"]);
+    await provider.send("eth_call", [{ to, data: "0x1234" }, "latest"]);
+    expect(calls).toBe(1);
+    provider.invalidate();
+    await provider.send("eth_call", [{ to, data: "0x1234" }, "latest"]);
+    expect(calls).toBe(2);
+  });
+
+  it("sends every simulation of a transaction to the node", async () => {
+    for (const call of [{ from, to, data: "0x1234" }, { to, data: "0x1234", value: "0x1" }, { to, data: "0x1234", gas: "0x5208" }]) {
+      await provider.send("eth_call", [call, "latest"]);
+      await provider.send("eth_call", [call, "latest"]);
+    }
+    expect(calls).toBe(6);
+  });
+});
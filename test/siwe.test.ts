@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { Wallet } from "ethers";
+import { BaseNamesClient, generateNonce, signInWithEthereum, verifySiweMessage } from "../lib";
+import { MockProvider, issueName, mockEns } from "./mockChain";
+
+const alice = new Wallet("0x" + "11".repeat(32));
+
+describe("verifySiweMessage", () => {
+  const setup = async (domain: string) => {
+    const provider = new MockProvider();
+    issueName(mockEns(provider), "alice.base.eth", alice.address, alice.address);
+    const client = new BaseNamesClient({ provider });
+    const nonce = generateNonce();
+    const signed = await signInWithEthereum(client, alice, { domain, uri: `https://${domain}`, nonce });
+    return { client, nonce, ...signed };
+  };
+
+  it("accepts a message signed for the expected domain and nonce", async () => {
+    const { client, nonce, message, signature } = await setup("app.example");
+    const session = await verifySiweMessage(client, message, signature, { domain: "app.example", nonce });
+    expect(session).toMatchObject({ address: alice.address, chainId: 8453, domain: "app.example" });
+  });
+
+  it("refuses a message signed for another domain", async () => {
+    const { client, nonce, message, signature } = await setup("phish.example");
+    await expect(verifySiweMessage(client, message, signature, { domain: "app.example", nonce }))
+      .rejects.toThrow("The sign-in message is for phish.example, not app.example.");
+  });
+});
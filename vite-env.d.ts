@@ -0,0 +1,18 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Key of the network to start on: "base", "base-sepolia" or "local". */
+  readonly VITE_NETWORK?: string;
+  /** RPC tried before the network's own. */
+  readonly VITE_RPC_URL?: string;
+  /** First block for log scans, e.g. the registry deployment block on a testnet. */
+  readonly VITE_START_BLOCK?: string;
+  /** NameWrapper deployment; enables wrapped subnames and fuses. */
+  readonly VITE_NAME_WRAPPER?: string;
+  /** Gateway for `ipfs://` and `ipns://` avatars, e.g. "https://dweb.link". */
+  readonly VITE_IPFS_GATEWAY?: string;
+  /** Gateway serving gasless offchain subnames; enables the "Gasless" issuing mode. */
+  readonly VITE_GATEWAY_URL?: string;
+  /** Sign-in server (`npm run auth`); enables Sign-In with Ethereum. */
+  readonly VITE_AUTH_URL?: string;
+}
@@ -10,6 +10,18 @@ export default defineConfig(({ mode }) => {
         host: '0.0.0.0',
       },
       plugins: [react()],
+      build: {
+        rollupOptions: {
+          // embed.ts defines <base-name-card> for other sites and is served at a stable /embed.js.
+          input: {
+            main: path.resolve(__dirname, 'index.html'),
+            embed: path.resolve(__dirname, 'embed.ts'),
+          },
+          output: {
+            entryFileNames: (chunk) => chunk.name === 'embed' ? 'embed.js' : 'assets/[name]-[hash].js',
+          }
+        }
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)